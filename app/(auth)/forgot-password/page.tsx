@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+
+export const metadata: Metadata = {
+  title: "Forgot password",
+};
+
+export default async function ForgotPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+
+  return <ForgotPasswordForm redirectTo={getSafeRedirectPath(redirectTo)} />;
+}
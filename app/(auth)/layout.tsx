@@ -0,0 +1,18 @@
+/**
+ * Auth Layout
+ *
+ * Shared, centered layout for the sign-in, sign-up and password recovery
+ * pages. These routes are listed in `authRoutes` in `middleware.ts`, so
+ * authenticated users are redirected away before reaching them.
+ */
+export default function AuthLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-sm">{children}</div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { LoginForm } from "@/components/auth/login-form";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+
+export const metadata: Metadata = {
+  title: "Sign in",
+};
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+
+  return <LoginForm redirectTo={getSafeRedirectPath(redirectTo)} />;
+}
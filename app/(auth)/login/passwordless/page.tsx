@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { PasswordlessForm } from "@/components/auth/passwordless-form";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+
+export const metadata: Metadata = {
+  title: "Sign in with email",
+};
+
+export default async function PasswordlessLoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+
+  return <PasswordlessForm redirectTo={getSafeRedirectPath(redirectTo)} />;
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+import { getCurrentUser } from "@/lib/auth";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+
+export const metadata: Metadata = {
+  title: "Reset password",
+};
+
+/**
+ * Reset Password Page
+ *
+ * Target of the password reset email. The link is handled by
+ * `/auth/callback`, which exchanges it for a recovery session and redirects
+ * here, so `updatePassword` always runs with a session. The route is
+ * protected in `middleware.ts` for that reason.
+ */
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+  const user = await getCurrentUser();
+
+  return (
+    <ResetPasswordForm
+      redirectTo={getSafeRedirectPath(redirectTo)}
+      user={{ email: user?.email, name: user?.user_metadata?.name }}
+    />
+  );
+}
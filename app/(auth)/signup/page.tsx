@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { SignupForm } from "@/components/auth/signup-form";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { findInvitation } from "@/lib/auth/invitations";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+import { env } from "@/lib/env";
+
+export const metadata: Metadata = {
+  title: "Sign up",
+};
+
+export default async function SignupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string; invite?: string }>;
+}) {
+  const { redirectTo, invite } = await searchParams;
+  const safeRedirectTo = getSafeRedirectPath(redirectTo);
+  const invitation = invite ? await findInvitation(invite) : null;
+
+  let unavailable: string | null = null;
+  if (env.SIGN_UP_MODE === "closed") {
+    unavailable = "New accounts can't be created at the moment.";
+  } else if (invite && !invitation) {
+    unavailable =
+      "This invitation is invalid or has expired. Ask the person who invited you for a new one.";
+  } else if (env.SIGN_UP_MODE === "invite_only" && !invitation) {
+    unavailable =
+      "Sign-up is by invitation only. Ask an administrator to invite you.";
+  }
+
+  if (unavailable) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Sign-up unavailable</CardTitle>
+          <CardDescription>{unavailable}</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Link
+            href={`/login?redirectTo=${encodeURIComponent(safeRedirectTo)}`}
+            className="text-sm underline-offset-4 hover:underline"
+          >
+            Back to sign in
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <SignupForm
+      redirectTo={safeRedirectTo}
+      invitation={
+        invite && invitation ? { token: invite, email: invitation.email } : null
+      }
+    />
+  );
+}
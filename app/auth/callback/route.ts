@@ -0,0 +1,191 @@
+import type { EmailOtpType, User } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { getAuthAdapter } from "@/lib/auth";
+import { AuthError } from "@/lib/auth/errors";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+import { recordSecurityEvent } from "@/lib/auth/security-events";
+import { env } from "@/lib/env";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+
+/**
+ * Auth Callback Route Handler
+ *
+ * Completes every email and OAuth flow that leaves the app:
+ * - OAuth sign-in (`signInWithOAuth` redirects here by default)
+ * - OAuth account linking from `/settings/accounts` (`linkOAuthIdentity`)
+ * - Email confirmation after sign-up (`type=signup`)
+ * - Password recovery links (`type=recovery`)
+ * - Email change confirmation (`type=email_change`)
+ * - Magic link sign-in (`type=magiclink`)
+ *
+ * PKCE links arrive with a `code` that the auth adapter exchanges for a
+ * session (see `@/lib/auth/adapter`). Email
+ * templates that use `{{ .TokenHash }}` arrive with `token_hash` and `type`
+ * instead and are verified with `verifyOtp`. Either way the session cookies
+ * are written by the route handler client before redirecting. Profiles
+ * of new users are created by the `auth.users` trigger in the database.
+ *
+ * The destination is read from `next` (or `redirectTo`) and must pass
+ * `getSafeRedirectPath` (same origin only). Failures are sent to `/auth/error` with a reason code,
+ * except for banned accounts, which are sent to `/suspended`.
+ *
+ * Sign-ins and newly linked OAuth identities are written to the security
+ * log. Recovery and email change links are not sign-ins and are skipped.
+ *
+ * OAuth providers create an account on first sign-in. Unless
+ * `SIGN_UP_MODE` is `open`, the `on_auth_user_creating` trigger refuses
+ * it and Supabase returns here with an error; accounts that still get
+ * through (the database setting lags behind the environment) are deleted
+ * again and the user is sent to `/auth/error?reason=signup_disabled`.
+ * Invited users sign up with email and password instead.
+ *
+ * @see https://supabase.com/docs/guides/auth/server-side/nextjs
+ */
+
+/**
+ * Sign-in method recorded in the security log for each email link type
+ */
+const signInMethods: Partial<Record<EmailOtpType, string>> = {
+  magiclink: "magic_link",
+  signup: "email_confirmation",
+  email: "email_confirmation",
+};
+
+/**
+ * An OAuth identity counts as newly linked when it was created during
+ * this flow and the account already had another identity
+ */
+const NEW_IDENTITY_MAX_AGE_MS = 60 * 1000;
+
+async function recordOAuthSignIn(user: User): Promise<void> {
+  const identities = user.identities ?? [];
+  const identity = identities
+    .filter((item) => item.last_sign_in_at)
+    .sort((a, b) =>
+      (b.last_sign_in_at ?? "").localeCompare(a.last_sign_in_at ?? ""),
+    )[0];
+  const provider = identity?.provider ?? user.app_metadata.provider ?? "oauth";
+
+  const isNewlyLinked =
+    identities.length > 1 &&
+    identity?.created_at !== undefined &&
+    Date.now() - Date.parse(identity.created_at) < NEW_IDENTITY_MAX_AGE_MS;
+
+  if (isNewlyLinked) {
+    await recordSecurityEvent(user.id, "oauth_linked", { provider });
+  }
+
+  await recordSecurityEvent(user.id, "sign_in", { method: "oauth", provider });
+}
+
+/**
+ * Whether the OAuth sign-in just created the account
+ */
+function isNewAccount(user: User): boolean {
+  return Date.now() - Date.parse(user.created_at) < NEW_IDENTITY_MAX_AGE_MS;
+}
+
+/**
+ * Where each flow lands when no explicit destination is given
+ */
+const defaultDestinations: Partial<Record<EmailOtpType, string>> = {
+  recovery: "/reset-password",
+  email_change: "/settings",
+};
+
+export async function GET(request: Request) {
+  const { searchParams, origin } = new URL(request.url);
+
+  const code = searchParams.get("code");
+  const tokenHash = searchParams.get("token_hash");
+  const type = searchParams.get("type") as EmailOtpType | null;
+
+  const next = getSafeRedirectPath(
+    searchParams.get("next") ?? searchParams.get("redirectTo"),
+    (type && defaultDestinations[type]) || "/dashboard",
+    { origin },
+  );
+
+  const redirectToError = (reason: string, message?: string | null) => {
+    const errorUrl = new URL("/auth/error", origin);
+    errorUrl.searchParams.set("reason", reason);
+    if (message) {
+      errorUrl.searchParams.set("message", message);
+    }
+    return NextResponse.redirect(errorUrl);
+  };
+
+  // The provider or Supabase rejected the request before we got a code
+  const providerError = searchParams.get("error");
+  const providerErrorCode = searchParams.get("error_code");
+  if (providerErrorCode === "user_banned") {
+    return NextResponse.redirect(new URL("/suspended", origin));
+  }
+  if (providerError) {
+    return redirectToError(
+      providerErrorCode ?? providerError,
+      searchParams.get("error_description"),
+    );
+  }
+
+  const adapter = await getAuthAdapter("route");
+  const supabase = await createRouteHandlerClient();
+  let user: User | null;
+
+  if (code) {
+    try {
+      user = await adapter.exchangeCodeForSession(code);
+    } catch (error) {
+      if (error instanceof AuthError && error.code === "ACCOUNT_SUSPENDED") {
+        return NextResponse.redirect(new URL("/suspended", origin));
+      }
+
+      return redirectToError(
+        "exchange_failed",
+        error instanceof Error ? error.message : null,
+      );
+    }
+  } else if (tokenHash && type) {
+    const { data, error } = await supabase.auth.verifyOtp({
+      type,
+      token_hash: tokenHash,
+    });
+
+    if (error || !data.user) {
+      return redirectToError("verification_failed", error?.message);
+    }
+
+    user = data.user;
+  } else {
+    return redirectToError("missing_code");
+  }
+
+  if (user && !type && env.SIGN_UP_MODE !== "open" && isNewAccount(user)) {
+    await adapter.signOut("local");
+    const admin = await createAdminClient();
+    await admin.auth.admin.deleteUser(user.id);
+    return redirectToError("signup_disabled");
+  }
+
+  if (user && !type) {
+    await recordOAuthSignIn(user);
+  } else if (user && type && signInMethods[type]) {
+    await recordSecurityEvent(user.id, "sign_in", {
+      method: signInMethods[type],
+    });
+  }
+
+  // A recovery session must land on the reset form, whatever `next` says
+  if (type === "recovery") {
+    const resetUrl = new URL("/reset-password", origin);
+    if (next !== "/reset-password") {
+      resetUrl.searchParams.set("redirectTo", next);
+    }
+    return NextResponse.redirect(resetUrl);
+  }
+
+  return NextResponse.redirect(new URL(next, origin));
+}
@@ -0,0 +1,73 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export const metadata: Metadata = {
+  title: "Authentication error",
+};
+
+/**
+ * Readable explanations for the reason codes sent by `/auth/callback`,
+ * by middleware and by Supabase itself (`error_code`).
+ */
+const reasons: Record<string, string> = {
+  missing_code:
+    "The link is incomplete. Open it again from your email or start over.",
+  exchange_failed:
+    "We couldn't complete sign-in. The link may have been opened in a different browser than the one that requested it.",
+  verification_failed:
+    "We couldn't verify this link. It may have already been used.",
+  otp_expired: "This link has expired. Request a new one and try again.",
+  access_denied: "Sign-in was cancelled or denied by the provider.",
+  email_not_verified:
+    "Please confirm your email address first. Check your inbox for the verification link.",
+  signup_disabled:
+    "New accounts can't be created this way. Ask an administrator for an invitation.",
+};
+
+const fallbackReason = "Something went wrong while signing you in.";
+
+export default async function AuthErrorPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ reason?: string; message?: string }>;
+}) {
+  const { reason, message } = await searchParams;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">Authentication error</CardTitle>
+          <CardDescription>
+            {(reason && reasons[reason]) || fallbackReason}
+          </CardDescription>
+        </CardHeader>
+        {message && (
+          <CardContent>
+            <Alert variant="destructive">
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          </CardContent>
+        )}
+        <CardFooter className="gap-2">
+          <Button asChild>
+            <Link href="/login">Back to sign in</Link>
+          </Button>
+          <Button asChild variant="outline">
+            <Link href="/forgot-password">Reset password</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
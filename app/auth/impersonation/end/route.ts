@@ -0,0 +1,15 @@
+import { endExpiredImpersonation } from "@/lib/auth/impersonation";
+
+/**
+ * Impersonation End Route Handler
+ *
+ * Middleware redirects here once an impersonation session reaches its
+ * time limit. Ends it and redirects back to the admin's own session.
+ *
+ * A GET can be triggered from any site (a link or an image), so this
+ * only ends impersonations that are already over. The banner's exit
+ * button ends a running one with the `stopImpersonation` Server Action.
+ */
+export async function GET() {
+  await endExpiredImpersonation();
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { MfaChallengeForm } from "@/components/auth/mfa-challenge-form";
+import { getAssuranceLevel } from "@/lib/auth";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+
+export const metadata: Metadata = {
+  title: "Two-factor authentication",
+};
+
+/**
+ * MFA Challenge Page
+ *
+ * `middleware.ts` sends users here when their account has a verified
+ * authenticator but the session is still AAL1. Sessions that need no
+ * challenge go straight on to their destination.
+ */
+export default async function MfaPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+  const destination = getSafeRedirectPath(redirectTo);
+
+  const assurance = await getAssuranceLevel();
+  if (assurance?.nextLevel !== "aal2" || assurance.currentLevel === "aal2") {
+    redirect(destination);
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-sm">
+        <MfaChallengeForm redirectTo={destination} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { ConnectedAccounts } from "@/components/auth/connected-accounts";
+import { listIdentities } from "@/lib/auth/identities";
+
+export const metadata: Metadata = {
+  title: "Connected accounts",
+};
+
+export default async function ConnectedAccountsSettingsPage() {
+  const result = await listIdentities();
+  const data = result.ok ? result.data : undefined;
+
+  return (
+    <ConnectedAccounts
+      identities={data?.identities ?? []}
+      linkableProviders={data?.linkableProviders ?? []}
+      loadError={result.ok ? undefined : result.message}
+    />
+  );
+}
@@ -0,0 +1,66 @@
+import Link from "next/link";
+import { OrganizationSwitcher } from "@/components/organizations/organization-switcher";
+import {
+  getActiveOrganization,
+  listOrganizations,
+} from "@/lib/auth/organizations";
+
+/**
+ * Settings sections, in navigation order
+ */
+const sections = [
+  { href: "/settings/organizations", label: "Organizations" },
+  { href: "/settings/accounts", label: "Connected accounts" },
+  { href: "/settings/mfa", label: "Two-factor authentication" },
+  { href: "/settings/passkeys", label: "Passkeys" },
+  { href: "/settings/sessions", label: "Sessions" },
+  { href: "/settings/tokens", label: "Access tokens" },
+  { href: "/settings/security", label: "Security activity" },
+];
+
+/**
+ * Settings Layout
+ *
+ * Shared navigation for account settings, with the organization
+ * switcher. `/settings` is a protected route in `middleware.ts`, so
+ * every page below requires a session.
+ */
+export default async function SettingsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const [organizations, activeOrganization] = await Promise.all([
+    listOrganizations(),
+    getActiveOrganization(),
+  ]);
+
+  return (
+    <div className="mx-auto grid min-h-screen w-full max-w-4xl gap-8 p-6 md:grid-cols-[200px_1fr]">
+      <nav className="flex flex-col gap-1">
+        <h1 className="mb-2 text-lg font-semibold">Settings</h1>
+        <div className="mb-2">
+          <OrganizationSwitcher
+            organizations={(organizations.ok ? organizations.data : []).map(
+              ({ id, name }) => ({
+                id,
+                name,
+              }),
+            )}
+            activeId={activeOrganization?.id ?? null}
+          />
+        </div>
+        {sections.map((section) => (
+          <Link
+            key={section.href}
+            href={section.href}
+            className="text-muted-foreground hover:text-foreground rounded-md px-2 py-1 text-sm"
+          >
+            {section.label}
+          </Link>
+        ))}
+      </nav>
+      <main className="grid content-start gap-6">{children}</main>
+    </div>
+  );
+}
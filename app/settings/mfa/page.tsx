@@ -0,0 +1,42 @@
+import type { Metadata } from "next";
+import { MfaSettings } from "@/components/auth/mfa-settings";
+import { getAssuranceLevel } from "@/lib/auth";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+import { createClient } from "@/lib/supabase/server";
+
+export const metadata: Metadata = {
+  title: "Two-factor authentication",
+};
+
+/**
+ * MFA Settings Page
+ *
+ * Lists the user's verified authenticators and lets them add, remove and
+ * regenerate recovery codes. Admins land here from `middleware.ts` with a
+ * `redirectTo` when they try to open an MFA route without an authenticator.
+ */
+export default async function MfaSettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirectTo?: string }>;
+}) {
+  const { redirectTo } = await searchParams;
+
+  const supabase = await createClient();
+  const { data } = await supabase.auth.mfa.listFactors();
+  const assurance = await getAssuranceLevel();
+
+  const factors = (data?.totp ?? []).map((factor) => ({
+    id: factor.id,
+    name: factor.friendly_name ?? "Authenticator app",
+    createdAt: factor.created_at,
+  }));
+
+  return (
+    <MfaSettings
+      factors={factors}
+      hasPassedMfa={assurance?.currentLevel === "aal2"}
+      redirectTo={getSafeRedirectPath(redirectTo, "") || undefined}
+    />
+  );
+}
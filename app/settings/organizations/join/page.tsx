@@ -0,0 +1,54 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { AcceptInvitation } from "@/components/organizations/accept-invitation";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { findOrgInvitation } from "@/lib/auth/organizations";
+
+export const metadata: Metadata = {
+  title: "Join organization",
+};
+
+export default async function JoinOrganizationPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const invitation = token ? await findOrgInvitation(token) : null;
+
+  if (!token || !invitation?.ok) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Invitation unavailable</CardTitle>
+          <CardDescription>
+            {invitation?.message ??
+              "This invitation is invalid or has expired. Ask the person who invited you for a new one."}
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Link
+            href="/settings/organizations"
+            className="text-sm underline-offset-4 hover:underline"
+          >
+            Your organizations
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <AcceptInvitation
+      token={token}
+      organizationName={invitation.data.organizationName}
+      role={invitation.data.role}
+    />
+  );
+}
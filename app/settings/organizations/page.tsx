@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import { CreateOrganizationForm } from "@/components/organizations/create-organization-form";
+import { OrganizationSettings } from "@/components/organizations/organization-settings";
+import { getCurrentUser } from "@/lib/auth";
+import { success } from "@/lib/auth/errors";
+import {
+  getActiveOrganization,
+  listOrgInvitations,
+  listOrgMembers,
+} from "@/lib/auth/organizations";
+import { hasRequiredOrgRole } from "@/lib/auth/utils";
+
+export const metadata: Metadata = {
+  title: "Organizations",
+};
+
+export default async function OrganizationsSettingsPage() {
+  const [user, organization] = await Promise.all([
+    getCurrentUser(),
+    getActiveOrganization(),
+  ]);
+
+  if (!user || !organization) {
+    return <CreateOrganizationForm />;
+  }
+
+  const [members, invitations] = await Promise.all([
+    listOrgMembers(organization.id),
+    hasRequiredOrgRole(organization.role, "admin")
+      ? listOrgInvitations(organization.id)
+      : Promise.resolve(success([])),
+  ]);
+  const loadError = !members.ok
+    ? members.message
+    : !invitations.ok
+      ? invitations.message
+      : undefined;
+
+  return (
+    <>
+      <OrganizationSettings
+        organization={organization}
+        members={members.ok ? members.data : []}
+        invitations={(invitations.ok ? invitations.data : []).map(
+          (invitation) => ({
+            id: invitation.id,
+            email: invitation.email,
+            role: invitation.role,
+            expiresAt: invitation.expires_at,
+          }),
+        )}
+        currentUserId={user.id}
+        loadError={loadError}
+      />
+      <CreateOrganizationForm />
+    </>
+  );
+}
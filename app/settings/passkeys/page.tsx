@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { PasskeySettings } from "@/components/auth/passkey-settings";
+import { listPasskeys } from "@/lib/auth/passkeys";
+
+export const metadata: Metadata = {
+  title: "Passkeys",
+};
+
+export default async function PasskeysSettingsPage() {
+  const result = await listPasskeys();
+
+  const passkeys = (result.ok ? result.data : []).map((passkey) => ({
+    id: passkey.id,
+    name: passkey.name,
+    createdAt: passkey.created_at,
+    lastUsedAt: passkey.last_used_at,
+  }));
+
+  return <PasskeySettings passkeys={passkeys} />;
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import { SecurityActivity } from "@/components/auth/security-activity";
+import { listSecurityEvents } from "@/lib/auth/security-events";
+
+export const metadata: Metadata = {
+  title: "Security activity",
+};
+
+export default async function SecuritySettingsPage() {
+  const result = await listSecurityEvents();
+
+  return (
+    <SecurityActivity
+      events={result.ok ? result.data : []}
+      loadError={result.ok ? undefined : result.message}
+    />
+  );
+}
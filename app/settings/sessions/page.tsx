@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import { SessionSettings } from "@/components/auth/session-settings";
+import { listSessions } from "@/lib/auth/sessions";
+
+export const metadata: Metadata = {
+  title: "Sessions",
+};
+
+export default async function SessionsSettingsPage() {
+  const result = await listSessions();
+
+  return (
+    <SessionSettings
+      sessions={result.ok ? result.data : []}
+      loadError={result.ok ? undefined : result.message}
+    />
+  );
+}
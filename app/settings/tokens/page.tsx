@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { AccessTokenSettings } from "@/components/auth/access-token-settings";
+import { listAccessTokens } from "@/lib/auth/access-tokens";
+
+export const metadata: Metadata = {
+  title: "Access tokens",
+};
+
+export default async function AccessTokensSettingsPage() {
+  const result = await listAccessTokens();
+
+  const tokens = (result.ok ? result.data : []).map((token) => ({
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.token_prefix,
+    scopes: token.scopes,
+    expiresAt: token.expires_at,
+    lastUsedAt: token.last_used_at,
+    createdAt: token.created_at,
+  }));
+
+  return (
+    <AccessTokenSettings
+      tokens={tokens}
+      loadError={result.ok ? undefined : result.message}
+    />
+  );
+}
@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getActiveBan, getCurrentUser } from "@/lib/auth";
+import { signOut } from "@/lib/auth/server";
+
+export const metadata: Metadata = {
+  title: "Account suspended",
+};
+
+/**
+ * Suspended Account Page
+ *
+ * `middleware.ts` sends deactivated and banned users here, and the sign-in
+ * actions do the same when Supabase rejects a banned account. Signed-in
+ * users see the reason and end of their ban. Visitors get a generic notice,
+ * since `banUser` revokes every session and the ban details are private.
+ */
+export default async function SuspendedPage() {
+  const user = await getCurrentUser();
+  const ban = user ? await getActiveBan(user.id) : null;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">Account suspended</CardTitle>
+          <CardDescription>
+            {ban?.expires_at
+              ? `Your account is suspended until ${new Date(ban.expires_at).toLocaleString()}.`
+              : "Your account has been suspended. Contact support if you think this is a mistake."}
+          </CardDescription>
+        </CardHeader>
+        {ban && (
+          <CardContent>
+            <Alert variant="destructive">
+              <AlertDescription>{ban.reason}</AlertDescription>
+            </Alert>
+          </CardContent>
+        )}
+        <CardFooter>
+          {user ? (
+            <form action={signOut}>
+              <Button type="submit" variant="outline">
+                Sign out
+              </Button>
+            </form>
+          ) : (
+            <Button asChild variant="outline">
+              <Link href="/login">Back to sign in</Link>
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { createAccessToken, revokeAccessToken } from "@/lib/auth/access-tokens";
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  ACCESS_TOKEN_SCOPES,
+  type CreateAccessTokenInput,
+} from "@/lib/auth/schemas";
+import type { AccessTokenScope } from "@/types/supabase";
+
+type AccessTokenItem = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: AccessTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+const scopeLabels: Record<AccessTokenScope, string> = {
+  "posts:read": "Read posts",
+  "posts:write": "Create and edit posts",
+  "comments:read": "Read comments",
+  "comments:write": "Create and edit comments",
+};
+
+/**
+ * Access Token Settings
+ *
+ * Lists the user's personal access tokens with revoke, and creates new
+ * ones. A new token is shown once, until the user confirms they copied
+ * it.
+ */
+export function AccessTokenSettings({
+  tokens,
+  loadError,
+}: {
+  tokens: AccessTokenItem[];
+  loadError?: string;
+}) {
+  const router = useRouter();
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(loadError ?? null);
+  const [pending, setPending] = useState(false);
+
+  async function handleCreate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const expiresIn = String(formData.get("expiresInDays"));
+
+    setPending(true);
+    setError(null);
+
+    const result = await createAccessToken({
+      name: String(formData.get("name")),
+      scopes: formData.getAll("scopes") as AccessTokenScope[],
+      expiresInDays:
+        expiresIn === "never"
+          ? null
+          : (Number(expiresIn) as CreateAccessTokenInput["expiresInDays"]),
+    });
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      setNewToken(result.data.token);
+      form.reset();
+    }
+
+    setPending(false);
+  }
+
+  async function handleRevoke(tokenId: string) {
+    setPending(true);
+    setError(null);
+
+    const result = await revokeAccessToken(tokenId);
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  function finish() {
+    setNewToken(null);
+    router.refresh();
+  }
+
+  if (newToken) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Copy your access token</CardTitle>
+          <CardDescription>
+            Send it as <code>Authorization: Bearer &lt;token&gt;</code>. It
+            won&apos;t be shown again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="bg-muted rounded-md p-4 font-mono text-sm break-all">
+            {newToken}
+          </p>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => navigator.clipboard.writeText(newToken)}
+          >
+            Copy token
+          </Button>
+          <Button onClick={finish}>I&apos;ve saved it</Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Access tokens</CardTitle>
+        <CardDescription>
+          Personal access tokens let scripts and integrations use the API on
+          your behalf, limited to the scopes you choose.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!loadError && tokens.length === 0 && (
+          <p className="text-muted-foreground text-sm">
+            You haven&apos;t created any access tokens yet.
+          </p>
+        )}
+
+        <ul className="grid gap-2">
+          {tokens.map((token) => {
+            const isExpired =
+              token.expiresAt !== null &&
+              new Date(token.expiresAt).getTime() <= Date.now();
+
+            return (
+              <li
+                key={token.id}
+                className="flex items-center justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="grid gap-1">
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    {token.name}
+                    <code className="text-muted-foreground text-xs font-normal">
+                      {token.tokenPrefix}…
+                    </code>
+                    {isExpired && <Badge variant="destructive">Expired</Badge>}
+                  </span>
+                  <span className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {token.expiresAt
+                      ? `${isExpired ? "Expired" : "Expires"} ${new Date(token.expiresAt).toLocaleDateString()}`
+                      : "Never expires"}
+                    {" · "}
+                    {token.lastUsedAt
+                      ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                      : "Never used"}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={pending}
+                  onClick={() => handleRevoke(token.id)}
+                >
+                  Revoke
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+      <CardFooter>
+        <form onSubmit={handleCreate} className="grid w-full gap-4">
+          <Input
+            name="name"
+            placeholder="Name, e.g. Deploy script"
+            maxLength={100}
+            aria-label="New token name"
+            required
+          />
+          <fieldset className="grid gap-2">
+            <legend className="mb-2 text-sm font-medium">Scopes</legend>
+            {ACCESS_TOKEN_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="scopes" value={scope} />
+                <code>{scope}</code>
+                <span className="text-muted-foreground">
+                  {scopeLabels[scope]}
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <label className="grid gap-2 text-sm font-medium">
+            Expiration
+            <select
+              name="expiresInDays"
+              defaultValue="30"
+              className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm font-normal shadow-xs"
+            >
+              {ACCESS_TOKEN_EXPIRY_DAYS.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+              <option value="never">No expiration</option>
+            </select>
+          </label>
+          <Button
+            type="submit"
+            disabled={pending}
+            className="justify-self-start"
+          >
+            Create token
+          </Button>
+        </form>
+      </CardFooter>
+    </Card>
+  );
+}
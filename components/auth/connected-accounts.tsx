@@ -0,0 +1,131 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { linkOAuthIdentity } from "@/lib/auth/client";
+import { unlinkIdentity } from "@/lib/auth/identities";
+import { getProviderLabel } from "@/lib/auth/oauth-providers";
+import type { LinkedIdentity } from "@/types/supabase";
+
+/**
+ * Connected Accounts
+ *
+ * Lists the ways the user can sign in and links or unlinks OAuth
+ * providers. The only remaining identity has no unlink button.
+ */
+export function ConnectedAccounts({
+  identities,
+  linkableProviders,
+  loadError,
+}: {
+  identities: LinkedIdentity[];
+  linkableProviders: string[];
+  loadError?: string;
+}) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(loadError ?? null);
+  const [pending, setPending] = useState(false);
+
+  const isLastIdentity = identities.length <= 1;
+
+  async function handleLink(provider: string) {
+    setPending(true);
+    setError(null);
+
+    const result = await linkOAuthIdentity(provider);
+
+    // On success the browser is already on its way to the provider
+    if (!result.ok) {
+      setError(result.message);
+      setPending(false);
+    }
+  }
+
+  async function handleUnlink(identityId: string) {
+    setPending(true);
+    setError(null);
+
+    const result = await unlinkIdentity(identityId);
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected accounts</CardTitle>
+        <CardDescription>
+          Sign in with any account linked here. You always keep at least one way
+          to sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="grid gap-2">
+          {identities.map((identity) => (
+            <li
+              key={identity.id}
+              className="flex items-center justify-between gap-4 rounded-md border p-3"
+            >
+              <div className="grid gap-1">
+                <span className="text-sm font-medium">
+                  {getProviderLabel(identity.provider)}
+                </span>
+                <span className="text-muted-foreground text-xs">
+                  {identity.email ?? "No email shared"}
+                  {identity.lastSignInAt &&
+                    ` · Last used ${new Date(identity.lastSignInAt).toLocaleString()}`}
+                </span>
+              </div>
+              {!isLastIdentity && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={pending}
+                  onClick={() => handleUnlink(identity.id)}
+                >
+                  Unlink
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+      {linkableProviders.length > 0 && (
+        <CardFooter className="flex-wrap gap-2">
+          {linkableProviders.map((provider) => (
+            <Button
+              key={provider}
+              variant="outline"
+              disabled={pending}
+              onClick={() => handleLink(provider)}
+            >
+              Link {getProviderLabel(provider)}
+            </Button>
+          ))}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
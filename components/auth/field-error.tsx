@@ -0,0 +1,13 @@
+/**
+ * Field Error
+ *
+ * Shows the first validation message a Server Action returned for an
+ * input, as found in `FormState.fieldErrors`.
+ */
+export function FieldError({ errors }: { errors?: string[] }) {
+  if (!errors?.length) {
+    return null;
+  }
+
+  return <p className="text-destructive text-xs">{errors[0]}</p>;
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import Link from "next/link";
+import { useActionState } from "react";
+import { FieldError } from "@/components/auth/field-error";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { formatCooldown, useRetryAfter } from "@/hooks/use-cooldown";
+import { resetPassword } from "@/lib/auth/server";
+import { initialFormState } from "@/lib/auth/utils";
+
+export function ForgotPasswordForm({ redirectTo }: { redirectTo: string }) {
+  const [state, formAction, pending] = useActionState(
+    resetPassword,
+    initialFormState,
+  );
+  const lockout = useRetryAfter(state);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Forgot your password?</CardTitle>
+        <CardDescription>
+          We&apos;ll email you a link to choose a new password.
+        </CardDescription>
+      </CardHeader>
+      <form action={formAction}>
+        <input type="hidden" name="redirectTo" value={redirectTo} />
+        <CardContent className="grid gap-4">
+          {state.message && (
+            <Alert
+              variant={state.status === "error" ? "destructive" : "default"}
+            >
+              <AlertDescription>{state.message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid gap-2">
+            <label htmlFor="email" className="text-sm font-medium">
+              Email
+            </label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              defaultValue={state.fields?.email}
+              aria-invalid={Boolean(state.fieldErrors?.email)}
+              required
+            />
+            <FieldError errors={state.fieldErrors?.email} />
+          </div>
+        </CardContent>
+        <CardFooter className="mt-6 flex-col gap-4">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={pending || lockout.isCoolingDown}
+          >
+            {pending
+              ? "Sending..."
+              : lockout.isCoolingDown
+                ? `Try again in ${formatCooldown(lockout.secondsLeft)}`
+                : "Send reset link"}
+          </Button>
+          <Link
+            href={`/login?redirectTo=${encodeURIComponent(redirectTo)}`}
+            className="text-muted-foreground text-sm underline-offset-4 hover:underline"
+          >
+            Back to sign in
+          </Link>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { decodeAccessToken, getAppClaims } from "@/lib/auth/claims";
+import { stopImpersonation } from "@/lib/auth/impersonation";
+import { createClient } from "@/lib/supabase/client";
+
+interface ImpersonatedUser {
+  email: string | undefined;
+  /** End of the impersonation, in milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Impersonation Banner
+ *
+ * Shown on every page (`app/layout.tsx`) while an admin is signed in as
+ * another user, with the time left and a button back to the admin's own
+ * session. Renders nothing otherwise.
+ *
+ * It reads the session cookies in the browser, so pages stay static for
+ * everyone else. The claims are only displayed here; the server checks
+ * the impersonation itself.
+ */
+export function ImpersonationBanner() {
+  const pathname = usePathname();
+  const [impersonated, setImpersonated] = useState<ImpersonatedUser | null>(
+    null,
+  );
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the cookies change with navigations, e.g. after exiting
+  useEffect(() => {
+    let active = true;
+
+    // Read from the cookies, no network request
+    createClient()
+      .auth.getSession()
+      .then(({ data: { session } }) => {
+        const impersonation = getAppClaims(
+          decodeAccessToken(session?.access_token),
+        )?.impersonation;
+
+        if (active) {
+          setImpersonated(
+            impersonation
+              ? {
+                  email: session?.user.email,
+                  expiresAt: impersonation.expiresAt,
+                }
+              : null,
+          );
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [pathname]);
+
+  if (!impersonated) {
+    return null;
+  }
+
+  const minutesLeft = Math.max(
+    Math.ceil((impersonated.expiresAt - Date.now()) / 60000),
+    0,
+  );
+
+  return (
+    <aside
+      aria-label="Impersonation"
+      className="sticky top-0 z-50 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 bg-amber-400 px-4 py-2 text-sm text-black"
+    >
+      <span>
+        You are signed in as <strong>{impersonated.email}</strong>. Password,
+        MFA and session changes are disabled. Ends in {minutesLeft}{" "}
+        {minutesLeft === 1 ? "minute" : "minutes"}.
+      </span>
+      <form action={stopImpersonation}>
+        <Button type="submit" size="sm" variant="outline">
+          Exit impersonation
+        </Button>
+      </form>
+    </aside>
+  );
+}
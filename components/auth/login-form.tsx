@@ -0,0 +1,152 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useActionState, useState } from "react";
+import { FieldError } from "@/components/auth/field-error";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { formatCooldown, useRetryAfter } from "@/hooks/use-cooldown";
+import { needsMfaChallenge, signInWithPasskey } from "@/lib/auth/client";
+import { signIn } from "@/lib/auth/server";
+import { initialFormState } from "@/lib/auth/utils";
+
+export function LoginForm({ redirectTo }: { redirectTo: string }) {
+  const router = useRouter();
+  const [state, formAction, pending] = useActionState(signIn, initialFormState);
+  const lockout = useRetryAfter(state);
+  const [passkeyError, setPasskeyError] = useState<string | null>(null);
+  const [passkeyPending, setPasskeyPending] = useState(false);
+
+  const query = `?redirectTo=${encodeURIComponent(redirectTo)}`;
+  const error =
+    passkeyError ?? (state.status === "error" ? state.message : null);
+
+  /**
+   * Passkeys need the WebAuthn browser API, so this flow runs on the
+   * client and continues to the MFA challenge or the destination itself
+   */
+  async function handlePasskeySignIn() {
+    setPasskeyPending(true);
+    setPasskeyError(null);
+
+    const result = await signInWithPasskey();
+
+    if (!result.ok) {
+      setPasskeyError(result.message);
+      setPasskeyPending(false);
+      return;
+    }
+
+    if (await needsMfaChallenge()) {
+      router.replace(`/mfa${query}`);
+      return;
+    }
+
+    router.replace(redirectTo);
+    router.refresh();
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Sign in</CardTitle>
+        <CardDescription>
+          Enter your email and password to access your account.
+        </CardDescription>
+      </CardHeader>
+      <form action={formAction} onSubmit={() => setPasskeyError(null)}>
+        <input type="hidden" name="redirectTo" value={redirectTo} />
+        <CardContent className="grid gap-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid gap-2">
+            <label htmlFor="email" className="text-sm font-medium">
+              Email
+            </label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              defaultValue={state.fields?.email}
+              aria-invalid={Boolean(state.fieldErrors?.email)}
+              required
+            />
+            <FieldError errors={state.fieldErrors?.email} />
+          </div>
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <label htmlFor="password" className="text-sm font-medium">
+                Password
+              </label>
+              <Link
+                href={`/forgot-password${query}`}
+                className="text-muted-foreground text-sm underline-offset-4 hover:underline"
+              >
+                Forgot password?
+              </Link>
+            </div>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="current-password"
+              aria-invalid={Boolean(state.fieldErrors?.password)}
+              required
+            />
+            <FieldError errors={state.fieldErrors?.password} />
+          </div>
+        </CardContent>
+        <CardFooter className="mt-6 flex-col gap-4">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={pending || passkeyPending || lockout.isCoolingDown}
+          >
+            {pending
+              ? "Signing in..."
+              : lockout.isCoolingDown
+                ? `Try again in ${formatCooldown(lockout.secondsLeft)}`
+                : "Sign in"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={pending || passkeyPending}
+            onClick={handlePasskeySignIn}
+          >
+            Sign in with a passkey
+          </Button>
+          <Button asChild variant="outline" className="w-full">
+            <Link href={`/login/passwordless${query}`}>
+              Email me a sign-in code
+            </Link>
+          </Button>
+          <p className="text-muted-foreground text-sm">
+            Don&apos;t have an account?{" "}
+            <Link
+              href={`/signup${query}`}
+              className="text-foreground underline-offset-4 hover:underline"
+            >
+              Sign up
+            </Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { redeemRecoveryCode, verifyTotpChallenge } from "@/lib/auth/mfa";
+import { signOut } from "@/lib/auth/server";
+
+/**
+ * MFA Challenge Form
+ *
+ * Second sign-in step for users with an authenticator app. Users who lost
+ * their device can switch to a recovery code, which removes their
+ * authenticator and asks them to sign in again.
+ */
+export function MfaChallengeForm({ redirectTo }: { redirectTo: string }) {
+  const router = useRouter();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setPending(true);
+    setError(null);
+
+    const code = String(new FormData(event.currentTarget).get("code"));
+
+    if (useRecoveryCode) {
+      const result = await redeemRecoveryCode(code);
+
+      if (!result.ok) {
+        setError(result.message);
+      } else {
+        setMessage(result.message ?? null);
+      }
+
+      setPending(false);
+      return;
+    }
+
+    const result = await verifyTotpChallenge(code);
+
+    if (!result.ok) {
+      setError(result.message);
+      setPending(false);
+      return;
+    }
+
+    router.replace(redirectTo);
+    router.refresh();
+  }
+
+  if (message) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Authenticator removed</CardTitle>
+          <CardDescription>{message}</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button
+            className="w-full"
+            onClick={() =>
+              router.replace(
+                `/login?redirectTo=${encodeURIComponent("/settings/mfa")}`,
+              )
+            }
+          >
+            Sign in again
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Two-factor authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when setting up your authenticator."
+            : "Enter the 6-digit code from your authenticator app."}
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="grid gap-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid gap-2">
+            <label htmlFor="code" className="text-sm font-medium">
+              {useRecoveryCode ? "Recovery code" : "Code"}
+            </label>
+            {useRecoveryCode ? (
+              <Input
+                key="recovery"
+                id="code"
+                name="code"
+                autoComplete="off"
+                placeholder="xxxxx-xxxxx"
+                className="font-mono"
+                required
+              />
+            ) : (
+              <Input
+                key="totp"
+                id="code"
+                name="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="\d{6}"
+                maxLength={6}
+                placeholder="123456"
+                className="text-center font-mono tracking-[0.5em]"
+                required
+              />
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="mt-6 flex-col gap-2">
+          <Button type="submit" className="w-full" disabled={pending}>
+            {pending ? "Verifying..." : "Verify"}
+          </Button>
+          <div className="flex w-full justify-between">
+            <Button
+              type="button"
+              variant="link"
+              className="px-0"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setError(null);
+              }}
+            >
+              {useRecoveryCode
+                ? "Use authenticator app"
+                : "Use a recovery code"}
+            </Button>
+            <Button
+              type="button"
+              variant="link"
+              className="px-0"
+              onClick={() => signOut()}
+            >
+              Sign out
+            </Button>
+          </div>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
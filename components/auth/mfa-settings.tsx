@@ -0,0 +1,275 @@
+"use client";
+
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  enrollTotp,
+  regenerateRecoveryCodes,
+  unenrollFactor,
+  verifyTotpEnrollment,
+} from "@/lib/auth/mfa";
+
+type Enrollment = {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+};
+
+/**
+ * MFA Settings
+ *
+ * Enrollment walks through three states: scan the QR code (or type the
+ * secret), confirm with a first code, then save the recovery codes that
+ * are shown exactly once.
+ */
+export function MfaSettings({
+  factors,
+  hasPassedMfa,
+  redirectTo,
+}: {
+  factors: { id: string; name: string; createdAt: string }[];
+  hasPassedMfa: boolean;
+  redirectTo?: string;
+}) {
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  async function startEnrollment() {
+    setPending(true);
+    setError(null);
+
+    const result = await enrollTotp();
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      setEnrollment(result.data);
+    }
+
+    setPending(false);
+  }
+
+  async function confirmEnrollment(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!enrollment) {
+      return;
+    }
+
+    setPending(true);
+    setError(null);
+
+    const code = String(new FormData(event.currentTarget).get("code"));
+    const result = await verifyTotpEnrollment(enrollment.factorId, code);
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      setEnrollment(null);
+      setRecoveryCodes(result.data.recoveryCodes);
+    }
+
+    setPending(false);
+  }
+
+  async function removeFactor(factorId: string) {
+    setPending(true);
+    setError(null);
+
+    const result = await unenrollFactor(factorId);
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  async function regenerateCodes() {
+    setPending(true);
+    setError(null);
+
+    const result = await regenerateRecoveryCodes();
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      setRecoveryCodes(result.data.recoveryCodes);
+    }
+
+    setPending(false);
+  }
+
+  function finish() {
+    setRecoveryCodes(null);
+    if (redirectTo) {
+      router.replace(redirectTo);
+    }
+    router.refresh();
+  }
+
+  if (recoveryCodes) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Save your recovery codes</CardTitle>
+          <CardDescription>
+            Each code works once and lets you sign in if you lose your
+            authenticator. They won&apos;t be shown again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="bg-muted grid grid-cols-2 gap-2 rounded-md p-4 font-mono text-sm">
+            {recoveryCodes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() =>
+              navigator.clipboard.writeText(recoveryCodes.join("\n"))
+            }
+          >
+            Copy codes
+          </Button>
+          <Button onClick={finish}>I&apos;ve saved them</Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when you sign in.
+          {redirectTo &&
+            " The page you tried to open requires two-factor authentication."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {factors.length > 0 && (
+          <ul className="grid gap-2">
+            {factors.map((factor) => (
+              <li
+                key={factor.id}
+                className="flex items-center justify-between rounded-md border p-3"
+              >
+                <div className="grid gap-1">
+                  <span className="text-sm font-medium">{factor.name}</span>
+                  <span className="text-muted-foreground text-xs">
+                    Added {new Date(factor.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">Active</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pending || !hasPassedMfa}
+                    onClick={() => removeFactor(factor.id)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {enrollment && (
+          <form onSubmit={confirmEnrollment} className="grid gap-4">
+            <div className="grid justify-items-center gap-2">
+              <Image
+                src={enrollment.qrCode}
+                alt="QR code for your authenticator app"
+                width={192}
+                height={192}
+                unoptimized
+                className="rounded-md bg-white p-2"
+              />
+              <p className="text-muted-foreground text-center text-xs">
+                Can&apos;t scan it? Enter this key manually:
+              </p>
+              <code className="bg-muted rounded px-2 py-1 text-xs break-all">
+                {enrollment.secret}
+              </code>
+            </div>
+            <div className="grid gap-2">
+              <label htmlFor="code" className="text-sm font-medium">
+                Code from your app
+              </label>
+              <Input
+                id="code"
+                name="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="\d{6}"
+                maxLength={6}
+                placeholder="123456"
+                className="text-center font-mono tracking-[0.5em]"
+                required
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={pending}>
+                {pending ? "Verifying..." : "Enable"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setEnrollment(null)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+      {!enrollment && (
+        <CardFooter className="gap-2">
+          <Button onClick={startEnrollment} disabled={pending}>
+            {factors.length > 0
+              ? "Add another authenticator"
+              : "Set up authenticator"}
+          </Button>
+          {factors.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={regenerateCodes}
+              disabled={pending || !hasPassedMfa}
+            >
+              New recovery codes
+            </Button>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { registerPasskey } from "@/lib/auth/client";
+import { deletePasskey, renamePasskey } from "@/lib/auth/passkeys";
+import type { ApiResponse } from "@/types/supabase";
+
+type PasskeyItem = {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+/**
+ * Passkey Settings
+ *
+ * Lists the user's passkeys with inline rename and revoke, and registers
+ * new ones on the current device.
+ */
+export function PasskeySettings({ passkeys }: { passkeys: PasskeyItem[] }) {
+  const router = useRouter();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  async function run(action: () => Promise<ApiResponse<unknown>>) {
+    setPending(true);
+    setError(null);
+
+    const result = await action();
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      setEditingId(null);
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  async function handleAdd(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const name = String(new FormData(form).get("name"));
+    await run(() => registerPasskey(name));
+    form.reset();
+  }
+
+  async function handleRename(
+    event: React.FormEvent<HTMLFormElement>,
+    passkeyId: string,
+  ) {
+    event.preventDefault();
+    const name = String(new FormData(event.currentTarget).get("name"));
+    await run(() => renamePasskey(passkeyId, name));
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Passkeys</CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device PIN instead of a
+          password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {passkeys.length === 0 && (
+          <p className="text-muted-foreground text-sm">
+            You haven&apos;t added any passkeys yet.
+          </p>
+        )}
+
+        <ul className="grid gap-2">
+          {passkeys.map((passkey) => (
+            <li
+              key={passkey.id}
+              className="flex items-center justify-between gap-4 rounded-md border p-3"
+            >
+              {editingId === passkey.id ? (
+                <form
+                  onSubmit={(event) => handleRename(event, passkey.id)}
+                  className="flex flex-1 gap-2"
+                >
+                  <Input
+                    name="name"
+                    defaultValue={passkey.name}
+                    maxLength={100}
+                    aria-label="Passkey name"
+                    required
+                  />
+                  <Button type="submit" size="sm" disabled={pending}>
+                    Save
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingId(null)}
+                  >
+                    Cancel
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <div className="grid gap-1">
+                    <span className="text-sm font-medium">{passkey.name}</span>
+                    <span className="text-muted-foreground text-xs">
+                      Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      {" · "}
+                      {passkey.lastUsedAt
+                        ? `Last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`
+                        : "Never used"}
+                    </span>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pending}
+                      onClick={() => setEditingId(passkey.id)}
+                    >
+                      Rename
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pending}
+                      onClick={() => run(() => deletePasskey(passkey.id))}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+      <CardFooter>
+        <form onSubmit={handleAdd} className="flex w-full gap-2">
+          <Input
+            name="name"
+            placeholder="Name, e.g. MacBook Touch ID"
+            maxLength={100}
+            aria-label="New passkey name"
+            required
+          />
+          <Button type="submit" disabled={pending}>
+            Add passkey
+          </Button>
+        </form>
+      </CardFooter>
+    </Card>
+  );
+}
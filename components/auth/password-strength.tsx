@@ -0,0 +1,62 @@
+"use client";
+
+import {
+  type PasswordContext,
+  validatePassword,
+} from "@/lib/auth/password-policy";
+import { cn } from "@/lib/utils";
+
+const strengthStyles = {
+  weak: { label: "Weak", className: "bg-destructive", segments: 1 },
+  medium: { label: "Medium", className: "bg-yellow-500", segments: 2 },
+  strong: { label: "Strong", className: "bg-green-500", segments: 3 },
+} as const;
+
+/**
+ * Password Strength Meter
+ *
+ * Live feedback for password fields, driven by `validatePassword` and the
+ * same policy the server enforces. Pass the user's email and name so the
+ * personal information rule is shown too. Renders nothing until the user
+ * starts typing.
+ */
+export function PasswordStrength({
+  password,
+  context,
+}: {
+  password: string;
+  context?: PasswordContext;
+}) {
+  if (!password) {
+    return null;
+  }
+
+  const { errors, strength } = validatePassword(password, context);
+  const style = strengthStyles[strength];
+
+  return (
+    <div className="grid gap-2" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3].map((segment) => (
+          <div
+            key={segment}
+            className={cn(
+              "h-1 flex-1 rounded-full bg-muted",
+              segment <= style.segments && style.className,
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Strength: <span className="font-medium">{style.label}</span>
+      </p>
+      {errors.length > 0 && (
+        <ul className="text-muted-foreground list-disc space-y-0.5 pl-4 text-xs">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
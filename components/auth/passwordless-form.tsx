@@ -0,0 +1,229 @@
+"use client";
+
+import Link from "next/link";
+import { useActionState, useEffect, useState } from "react";
+import { FieldError } from "@/components/auth/field-error";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  formatCooldown,
+  useCooldown,
+  useRetryAfter,
+} from "@/hooks/use-cooldown";
+import { sendPasswordlessEmail, verifyOtp } from "@/lib/auth/server";
+import {
+  getOtpRetryDelay,
+  initialFormState,
+  OTP_RESEND_COOLDOWN_SECONDS,
+} from "@/lib/auth/utils";
+
+/**
+ * Passwordless Sign-In
+ *
+ * Step one asks for an email and sends either a 6-digit code or a magic
+ * link. Step two takes the code (or tells the user to open the link) and
+ * offers a resend button that respects the Supabase email rate limit.
+ */
+export function PasswordlessForm({ redirectTo }: { redirectTo: string }) {
+  const { start: startCooldown, ...cooldown } = useCooldown();
+  const [sendState, sendAction, sending] = useActionState(
+    sendPasswordlessEmail,
+    initialFormState,
+  );
+  const [verifyState, verifyAction, verifying] = useActionState(
+    verifyOtp,
+    initialFormState,
+  );
+  const verifyLockout = useRetryAfter(verifyState);
+  const [sent, setSent] = useState<{ email: string; method: string } | null>(
+    null,
+  );
+
+  const pending = sending || verifying;
+
+  // Every send attempt either starts the resend cooldown or, when it was
+  // rate limited here or by Supabase, waits for the returned delay
+  useEffect(() => {
+    if (sendState.status === "success" && sendState.fields) {
+      setSent({
+        email: sendState.fields.email,
+        method: sendState.fields.method,
+      });
+      startCooldown(OTP_RESEND_COOLDOWN_SECONDS);
+    } else if (sendState.status === "error" && sendState.message) {
+      const retryDelay =
+        sendState.retryAfter ?? getOtpRetryDelay(sendState.message);
+      if (retryDelay) {
+        startCooldown(retryDelay);
+      }
+    }
+  }, [sendState, startCooldown]);
+
+  const resendLabel = cooldown.isCoolingDown
+    ? `Resend in ${formatCooldown(cooldown.secondsLeft)}`
+    : "Resend";
+
+  if (sent) {
+    const error =
+      sendState.status === "error"
+        ? sendState.message
+        : verifyState.status === "error"
+          ? verifyState.message
+          : null;
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Check your email</CardTitle>
+          <CardDescription>
+            {sendState.status === "success" && sendState.message} Sent to{" "}
+            <span className="font-medium">{sent.email}</span>.
+          </CardDescription>
+        </CardHeader>
+        <form action={verifyAction}>
+          <input type="hidden" name="email" value={sent.email} />
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+          <CardContent className="grid gap-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {sent.method === "code" && (
+              <div className="grid gap-2">
+                <label htmlFor="code" className="text-sm font-medium">
+                  Code
+                </label>
+                <Input
+                  id="code"
+                  name="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  pattern="\d{6}"
+                  maxLength={6}
+                  placeholder="123456"
+                  className="text-center font-mono tracking-[0.5em]"
+                  aria-invalid={Boolean(verifyState.fieldErrors?.code)}
+                  required
+                />
+                <FieldError errors={verifyState.fieldErrors?.code} />
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className="mt-6 flex-col gap-4">
+            {sent.method === "code" && (
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={pending || verifyLockout.isCoolingDown}
+              >
+                {verifying
+                  ? "Verifying..."
+                  : verifyLockout.isCoolingDown
+                    ? `Try again in ${formatCooldown(verifyLockout.secondsLeft)}`
+                    : "Verify code"}
+              </Button>
+            )}
+            <div className="flex w-full justify-between">
+              <Button
+                type="button"
+                variant="link"
+                className="px-0"
+                onClick={() => setSent(null)}
+              >
+                Use a different email
+              </Button>
+              <Button
+                type="submit"
+                name="method"
+                value={sent.method}
+                formAction={sendAction}
+                formNoValidate
+                variant="link"
+                className="px-0"
+                disabled={pending || cooldown.isCoolingDown}
+              >
+                {resendLabel}
+              </Button>
+            </div>
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Sign in without a password</CardTitle>
+        <CardDescription>
+          We&apos;ll email you a one-time code or a sign-in link. New accounts
+          are created automatically.
+        </CardDescription>
+      </CardHeader>
+      <form action={sendAction}>
+        <input type="hidden" name="redirectTo" value={redirectTo} />
+        <CardContent className="grid gap-4">
+          {sendState.status === "error" && (
+            <Alert variant="destructive">
+              <AlertDescription>{sendState.message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid gap-2">
+            <label htmlFor="email" className="text-sm font-medium">
+              Email
+            </label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              defaultValue={sendState.fields?.email}
+              aria-invalid={Boolean(sendState.fieldErrors?.email)}
+              required
+            />
+            <FieldError errors={sendState.fieldErrors?.email} />
+          </div>
+        </CardContent>
+        <CardFooter className="mt-6 flex-col gap-2">
+          <Button
+            type="submit"
+            name="method"
+            value="code"
+            className="w-full"
+            disabled={pending || cooldown.isCoolingDown}
+          >
+            {cooldown.isCoolingDown
+              ? `Try again in ${formatCooldown(cooldown.secondsLeft)}`
+              : "Email me a code"}
+          </Button>
+          <Button
+            type="submit"
+            name="method"
+            value="link"
+            variant="outline"
+            className="w-full"
+            disabled={pending || cooldown.isCoolingDown}
+          >
+            Email me a sign-in link
+          </Button>
+          <Link
+            href={`/login?redirectTo=${encodeURIComponent(redirectTo)}`}
+            className="text-muted-foreground mt-2 text-sm underline-offset-4 hover:underline"
+          >
+            Sign in with a password
+          </Link>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
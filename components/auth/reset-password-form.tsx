@@ -0,0 +1,110 @@
+"use client";
+
+import { useActionState, useState } from "react";
+import { FieldError } from "@/components/auth/field-error";
+import { PasswordStrength } from "@/components/auth/password-strength";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  type PasswordContext,
+  validatePassword,
+} from "@/lib/auth/password-policy";
+import { updatePassword } from "@/lib/auth/server";
+import { initialFormState } from "@/lib/auth/utils";
+
+export function ResetPasswordForm({
+  redirectTo,
+  user,
+}: {
+  redirectTo: string;
+  /** Email and name of the signed-in user, for the password policy */
+  user: PasswordContext;
+}) {
+  const [state, formAction, pending] = useActionState(
+    updatePassword,
+    initialFormState,
+  );
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { isValid } = validatePassword(password, user);
+  const matches = password === confirmPassword;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Choose a new password</CardTitle>
+        <CardDescription>
+          Your new password replaces the old one everywhere.
+        </CardDescription>
+      </CardHeader>
+      <form
+        action={formAction}
+        onReset={() => {
+          setPassword("");
+          setConfirmPassword("");
+        }}
+      >
+        <input type="hidden" name="redirectTo" value={redirectTo} />
+        <CardContent className="grid gap-4">
+          {state.status === "error" && (
+            <Alert variant="destructive">
+              <AlertDescription>{state.message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid gap-2">
+            <label htmlFor="password" className="text-sm font-medium">
+              New password
+            </label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              onChange={(event) => setPassword(event.target.value)}
+              aria-invalid={password.length > 0 && !isValid}
+              required
+            />
+            <PasswordStrength password={password} context={user} />
+            <FieldError errors={state.fieldErrors?.password} />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="confirmPassword" className="text-sm font-medium">
+              Confirm password
+            </label>
+            <Input
+              id="confirmPassword"
+              name="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              onChange={(event) => setConfirmPassword(event.target.value)}
+              aria-invalid={confirmPassword.length > 0 && !matches}
+              required
+            />
+            {confirmPassword.length > 0 && !matches && (
+              <p className="text-destructive text-xs">Passwords do not match</p>
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="mt-6">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={pending || !isValid || !matches}
+          >
+            {pending ? "Updating..." : "Update password"}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import Link from "next/link";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getProviderLabel } from "@/lib/auth/oauth-providers";
+import type { SecurityEvent, SecurityEventType } from "@/types/supabase";
+
+const eventLabels: Record<SecurityEventType, string> = {
+  sign_in: "Signed in",
+  sign_in_failed: "Failed sign-in attempt",
+  password_changed: "Password changed",
+  mfa_enabled: "Two-factor authentication enabled",
+  mfa_disabled: "Two-factor authentication removed",
+  recovery_codes_regenerated: "Recovery codes regenerated",
+  recovery_code_used: "Recovery code used",
+  oauth_linked: "Account linked",
+  oauth_unlinked: "Account unlinked",
+  access_token_created: "Access token created",
+  access_token_revoked: "Access token revoked",
+};
+
+const methodLabels: Record<string, string> = {
+  password: "password",
+  email_code: "email code",
+  magic_link: "magic link",
+  email_confirmation: "email confirmation",
+  oauth: "OAuth",
+  passkey: "passkey",
+  authenticator: "authenticator app",
+  recovery_code: "recovery code",
+};
+
+/**
+ * Short description of how the event happened, from its metadata
+ */
+function describeEvent(event: SecurityEvent): string | null {
+  const { method, provider, resetBy, token } = (event.metadata ?? {}) as Record<
+    string,
+    string | undefined
+  >;
+
+  if (provider) {
+    return `with ${getProviderLabel(provider)}`;
+  }
+
+  if (method) {
+    return `with ${methodLabels[method] ?? method}`;
+  }
+
+  if (token) {
+    return `“${token}”`;
+  }
+
+  if (resetBy) {
+    return "by an administrator";
+  }
+
+  return null;
+}
+
+/**
+ * Security Activity
+ *
+ * The user's security log: sign-ins, failed attempts, password and MFA
+ * changes, linked accounts and access tokens, newest first.
+ */
+export function SecurityActivity({
+  events,
+  loadError,
+}: {
+  events: SecurityEvent[];
+  loadError?: string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Security activity</CardTitle>
+        <CardDescription>
+          Recent sign-ins and changes to your account security. If something
+          looks unfamiliar, sign out of your other{" "}
+          <Link href="/settings/sessions" className="underline">
+            sessions
+          </Link>{" "}
+          and reset your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {loadError && (
+          <Alert variant="destructive">
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!loadError && events.length === 0 && (
+          <p className="text-muted-foreground text-sm">No activity yet.</p>
+        )}
+
+        <ul className="grid gap-2">
+          {events.map((event) => {
+            const details = describeEvent(event);
+
+            return (
+              <li
+                key={event.id}
+                className="flex items-center justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="grid gap-1">
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    {eventLabels[event.type]}
+                    {details && (
+                      <span className="text-muted-foreground font-normal">
+                        {details}
+                      </span>
+                    )}
+                    {event.type === "sign_in_failed" && (
+                      <Badge variant="destructive">Failed</Badge>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {event.device ?? "Unknown device"}
+                    {" · "}
+                    {event.ip_address ?? "Unknown IP address"}
+                  </span>
+                </div>
+                <time
+                  dateTime={event.created_at}
+                  className="text-muted-foreground shrink-0 text-xs"
+                >
+                  {new Date(event.created_at).toLocaleString()}
+                </time>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { signOut } from "@/lib/auth/server";
+import { revokeOtherSessions, revokeSession } from "@/lib/auth/sessions";
+import type { ActiveSession, ApiResponse } from "@/types/supabase";
+
+const deviceLabels: Record<ActiveSession["device"], string> = {
+  desktop: "Computer",
+  mobile: "Phone",
+  tablet: "Tablet",
+};
+
+/**
+ * Session Settings
+ *
+ * Lists the devices signed in to the account and signs out one of them,
+ * every other one, or this one.
+ */
+export function SessionSettings({
+  sessions,
+  loadError,
+}: {
+  sessions: ActiveSession[];
+  loadError?: string;
+}) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(loadError ?? null);
+  const [pending, setPending] = useState(false);
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  async function run(action: () => Promise<ApiResponse<unknown>>) {
+    setPending(true);
+    setError(null);
+
+    const result = await action();
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions</CardTitle>
+        <CardDescription>
+          Devices signed in to your account. Sign out any you don&apos;t
+          recognize and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="grid gap-2">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-4 rounded-md border p-3"
+            >
+              <div className="grid gap-1">
+                <span className="flex items-center gap-2 text-sm font-medium">
+                  {session.description}
+                  {session.isCurrent && (
+                    <Badge variant="secondary">This device</Badge>
+                  )}
+                </span>
+                <span className="text-muted-foreground text-xs">
+                  {deviceLabels[session.device]}
+                  {" · "}
+                  {session.ipAddress ?? "Unknown IP address"}
+                  {" · "}
+                  Signed in {new Date(session.createdAt).toLocaleDateString()}
+                  {" · "}
+                  Last active {new Date(session.lastSeenAt).toLocaleString()}
+                </span>
+              </div>
+              {session.isCurrent ? (
+                <form action={signOut}>
+                  <Button type="submit" variant="ghost" size="sm">
+                    Sign out
+                  </Button>
+                </form>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={pending}
+                  onClick={() => run(() => revokeSession(session.id))}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            disabled={pending}
+            onClick={() => run(() => revokeOtherSessions())}
+          >
+            Sign out of all other sessions
+          </Button>
+        )}
+        <form action={signOut}>
+          <input type="hidden" name="scope" value="global" />
+          <Button type="submit" variant="ghost" disabled={pending}>
+            Sign out everywhere
+          </Button>
+        </form>
+      </CardFooter>
+    </Card>
+  );
+}
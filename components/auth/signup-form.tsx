@@ -0,0 +1,158 @@
+"use client";
+
+import Link from "next/link";
+import { useActionState, useState } from "react";
+import { FieldError } from "@/components/auth/field-error";
+import { PasswordStrength } from "@/components/auth/password-strength";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { formatCooldown, useRetryAfter } from "@/hooks/use-cooldown";
+import { validatePassword } from "@/lib/auth/password-policy";
+import { signUp } from "@/lib/auth/server";
+import { initialFormState } from "@/lib/auth/utils";
+
+export function SignupForm({
+  redirectTo,
+  invitation = null,
+}: {
+  redirectTo: string;
+  /** Pending invitation from the invite link; fixes the email address */
+  invitation?: { token: string; email: string } | null;
+}) {
+  const [state, formAction, pending] = useActionState(signUp, initialFormState);
+  const lockout = useRetryAfter(state);
+  const [password, setPassword] = useState("");
+  const [context, setContext] = useState({
+    email: invitation?.email ?? "",
+    name: "",
+  });
+
+  const { isValid } = validatePassword(password, context);
+
+  // Projects without email confirmation redirect from the action instead
+  if (state.status === "success") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Check your email</CardTitle>
+          <CardDescription>{state.message}</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Link
+            href={`/login?redirectTo=${encodeURIComponent(redirectTo)}`}
+            className="text-sm underline-offset-4 hover:underline"
+          >
+            Back to sign in
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl">Create an account</CardTitle>
+        <CardDescription>
+          {invitation
+            ? "You've been invited. Choose a password to create your account."
+            : "Enter your details below to create your account."}
+        </CardDescription>
+      </CardHeader>
+      <form action={formAction} onReset={() => setPassword("")}>
+        <input type="hidden" name="redirectTo" value={redirectTo} />
+        {invitation && (
+          <input type="hidden" name="invite" value={invitation.token} />
+        )}
+        <CardContent className="grid gap-4">
+          {state.status === "error" && (
+            <Alert variant="destructive">
+              <AlertDescription>{state.message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid gap-2">
+            <label htmlFor="name" className="text-sm font-medium">
+              Name
+            </label>
+            <Input
+              id="name"
+              name="name"
+              autoComplete="name"
+              defaultValue={state.fields?.name}
+              onChange={(event) =>
+                setContext({ ...context, name: event.target.value })
+              }
+            />
+            <FieldError errors={state.fieldErrors?.name} />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="email" className="text-sm font-medium">
+              Email
+            </label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              defaultValue={invitation?.email ?? state.fields?.email}
+              readOnly={Boolean(invitation)}
+              onChange={(event) =>
+                setContext({ ...context, email: event.target.value })
+              }
+              aria-invalid={Boolean(state.fieldErrors?.email)}
+              required
+            />
+            <FieldError errors={state.fieldErrors?.email} />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="password" className="text-sm font-medium">
+              Password
+            </label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              onChange={(event) => setPassword(event.target.value)}
+              aria-invalid={password.length > 0 && !isValid}
+              required
+            />
+            <PasswordStrength password={password} context={context} />
+            <FieldError errors={state.fieldErrors?.password} />
+          </div>
+        </CardContent>
+        <CardFooter className="mt-6 flex-col gap-4">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={pending || !isValid || lockout.isCoolingDown}
+          >
+            {pending
+              ? "Creating account..."
+              : lockout.isCoolingDown
+                ? `Try again in ${formatCooldown(lockout.secondsLeft)}`
+                : "Create account"}
+          </Button>
+          <p className="text-muted-foreground text-sm">
+            Already have an account?{" "}
+            <Link
+              href={`/login?redirectTo=${encodeURIComponent(redirectTo)}`}
+              className="text-foreground underline-offset-4 hover:underline"
+            >
+              Sign in
+            </Link>
+          </p>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { acceptOrgInvitation } from "@/lib/auth/organizations";
+import type { OrgRole } from "@/types/supabase";
+
+/**
+ * Accept Invitation
+ *
+ * Confirms joining the organization of an invite link, then opens the
+ * organization settings.
+ */
+export function AcceptInvitation({
+  token,
+  organizationName,
+  role,
+}: {
+  token: string;
+  organizationName: string;
+  role: OrgRole;
+}) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  async function handleAccept() {
+    setPending(true);
+    setError(null);
+
+    const result = await acceptOrgInvitation(token);
+
+    if (!result.ok) {
+      setError(result.message);
+      setPending(false);
+    } else {
+      router.replace("/settings/organizations");
+      router.refresh();
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Join {organizationName}</CardTitle>
+        <CardDescription>
+          You&apos;ve been invited to join {organizationName} as {role}.
+        </CardDescription>
+      </CardHeader>
+      {error && (
+        <CardContent>
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </CardContent>
+      )}
+      <CardFooter className="gap-2">
+        <Button onClick={handleAccept} disabled={pending}>
+          Accept invitation
+        </Button>
+        <Button variant="ghost" asChild>
+          <Link href="/settings/organizations">Not now</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
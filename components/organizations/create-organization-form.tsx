@@ -0,0 +1,90 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { createOrganization } from "@/lib/auth/organizations";
+
+/**
+ * Create Organization Form
+ *
+ * Creates an organization owned by the current user and switches to it.
+ */
+export function CreateOrganizationForm() {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+
+    setPending(true);
+    setError(null);
+
+    const result = await createOrganization({
+      name: String(formData.get("name")),
+      slug: String(formData.get("slug")) || undefined,
+    });
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      form.reset();
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Create an organization</CardTitle>
+        <CardDescription>
+          Organizations share posts between their members. You become its owner
+          and can invite others.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <Input
+            name="name"
+            placeholder="Name, e.g. Acme Inc."
+            maxLength={100}
+            aria-label="Organization name"
+            required
+          />
+          <Input
+            name="slug"
+            placeholder="Slug (optional), e.g. acme"
+            maxLength={64}
+            aria-label="Organization slug"
+          />
+          <Button
+            type="submit"
+            disabled={pending}
+            className="justify-self-start"
+          >
+            Create organization
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
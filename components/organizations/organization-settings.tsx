@@ -0,0 +1,273 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  inviteToOrganization,
+  type OrgMember,
+  removeMember,
+  revokeOrgInvitation,
+  updateMemberRole,
+} from "@/lib/auth/organizations";
+import { ORG_ROLES } from "@/lib/auth/schemas";
+import type { ApiResponse, OrgRole } from "@/types/supabase";
+
+type PendingInvitation = {
+  id: string;
+  email: string;
+  role: OrgRole;
+  expiresAt: string;
+};
+
+const roleLabels: Record<OrgRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+const selectClassName =
+  "border-input dark:bg-input/30 h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs";
+
+/**
+ * Organization Settings
+ *
+ * Members of the active organization with their roles. Admins change
+ * roles, remove members and invite new ones; only owners hand out or
+ * take away ownership. Every member can leave.
+ */
+export function OrganizationSettings({
+  organization,
+  members,
+  invitations,
+  currentUserId,
+  loadError,
+}: {
+  organization: { id: string; name: string; slug: string; role: OrgRole };
+  members: OrgMember[];
+  invitations: PendingInvitation[];
+  currentUserId: string;
+  loadError?: string;
+}) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(loadError ?? null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const isOwner = organization.role === "owner";
+  const canManage = isOwner || organization.role === "admin";
+  const assignableRoles = ORG_ROLES.filter(
+    (role) => isOwner || role !== "owner",
+  );
+
+  async function run(action: () => Promise<ApiResponse<unknown>>) {
+    setPending(true);
+    setError(null);
+
+    const result = await action();
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  async function handleInvite(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+
+    setPending(true);
+    setError(null);
+    setInviteUrl(null);
+
+    const result = await inviteToOrganization(organization.id, {
+      email: String(formData.get("email")),
+      role: String(formData.get("role")) as OrgRole,
+    });
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      setInviteUrl(result.data.inviteUrl);
+      form.reset();
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{organization.name}</CardTitle>
+        <CardDescription>
+          <code>{organization.slug}</code> · You are{" "}
+          {organization.role === "admin" ? "an" : "a"}{" "}
+          {roleLabels[organization.role].toLowerCase()} of this organization.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {inviteUrl && (
+          <Alert>
+            <AlertDescription>
+              Invitation sent. You can also share this link:
+              <span className="block font-mono text-xs break-all">
+                {inviteUrl}
+              </span>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="grid gap-2">
+          {members.map((member) => {
+            const isSelf = member.userId === currentUserId;
+            const canEdit =
+              canManage && !isSelf && (isOwner || member.role !== "owner");
+
+            return (
+              <li
+                key={member.userId}
+                className="flex items-center justify-between gap-4 rounded-md border p-3"
+              >
+                <div className="grid gap-1">
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    {member.name ?? member.email}
+                    {isSelf && <Badge variant="secondary">You</Badge>}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {member.email} · Joined{" "}
+                    {new Date(member.joinedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canEdit ? (
+                    <select
+                      value={member.role}
+                      disabled={pending}
+                      aria-label={`Role of ${member.email}`}
+                      className={selectClassName}
+                      onChange={(event) =>
+                        run(() =>
+                          updateMemberRole(
+                            organization.id,
+                            member.userId,
+                            event.target.value as OrgRole,
+                          ),
+                        )
+                      }
+                    >
+                      {assignableRoles.map((role) => (
+                        <option key={role} value={role}>
+                          {roleLabels[role]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <Badge variant="outline">{roleLabels[member.role]}</Badge>
+                  )}
+                  {(canEdit || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pending}
+                      onClick={() =>
+                        run(() => removeMember(organization.id, member.userId))
+                      }
+                    >
+                      {isSelf ? "Leave" : "Remove"}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {canManage && invitations.length > 0 && (
+          <div className="grid gap-2">
+            <h3 className="text-sm font-medium">Pending invitations</h3>
+            <ul className="grid gap-2">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.id}
+                  className="flex items-center justify-between gap-4 rounded-md border p-3"
+                >
+                  <div className="grid gap-1">
+                    <span className="text-sm font-medium">
+                      {invitation.email}
+                    </span>
+                    <span className="text-muted-foreground text-xs">
+                      {roleLabels[invitation.role]} · Expires{" "}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pending}
+                    onClick={() =>
+                      run(() =>
+                        revokeOrgInvitation(organization.id, invitation.id),
+                      )
+                    }
+                  >
+                    Revoke
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+      {canManage && (
+        <CardFooter>
+          <form onSubmit={handleInvite} className="flex w-full gap-2">
+            <Input
+              type="email"
+              name="email"
+              placeholder="Email address"
+              aria-label="Email address to invite"
+              required
+            />
+            <select
+              name="role"
+              defaultValue="member"
+              aria-label="Role"
+              className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+            >
+              {assignableRoles.map((role) => (
+                <option key={role} value={role}>
+                  {roleLabels[role]}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" disabled={pending}>
+              Invite
+            </Button>
+          </form>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
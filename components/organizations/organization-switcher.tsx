@@ -0,0 +1,74 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { switchOrganization } from "@/lib/auth/organizations";
+
+type OrganizationOption = {
+  id: string;
+  name: string;
+};
+
+/**
+ * Organization Switcher
+ *
+ * Selects the active organization. Pages that show organization data
+ * read it with `getActiveOrganization()` and update on refresh.
+ */
+export function OrganizationSwitcher({
+  organizations,
+  activeId,
+}: {
+  organizations: OrganizationOption[];
+  activeId: string | null;
+}) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  async function handleChange(event: React.ChangeEvent<HTMLSelectElement>) {
+    setPending(true);
+    setError(null);
+
+    const result = await switchOrganization(event.target.value);
+
+    if (!result.ok) {
+      setError(result.message);
+    } else {
+      router.refresh();
+    }
+
+    setPending(false);
+  }
+
+  if (organizations.length === 0) {
+    return (
+      <Link
+        href="/settings/organizations"
+        className="text-muted-foreground hover:text-foreground px-2 text-sm"
+      >
+        Create an organization
+      </Link>
+    );
+  }
+
+  return (
+    <div className="grid gap-1">
+      <select
+        value={activeId ?? undefined}
+        onChange={handleChange}
+        disabled={pending}
+        aria-label="Active organization"
+        className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+      >
+        {organizations.map((organization) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+      {error && <p className="text-destructive px-2 text-xs">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+-- Keep public.users in sync with Supabase Auth (auth.users).
+--
+-- * Insert: every new auth user gets a profile row with the same ID
+-- * Update: email and email_verified follow auth.users
+-- * Delete: handled by the users_id_users_id_fk foreign key (ON DELETE CASCADE)
+--
+-- The functions run as SECURITY DEFINER with an empty search_path because
+-- the auth service role cannot write to public.users on its own.
+
+CREATE OR REPLACE FUNCTION public.handle_auth_user_created()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Phone-only accounts have no email and no profile
+  IF new.email IS NULL THEN
+    RETURN new;
+  END IF;
+
+  INSERT INTO public.users (id, email, email_verified, name, avatar)
+  VALUES (
+    new.id,
+    new.email,
+    new.email_confirmed_at,
+    coalesce(new.raw_user_meta_data ->> 'name', new.raw_user_meta_data ->> 'full_name'),
+    new.raw_user_meta_data ->> 'avatar_url'
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN new;
+END;
+$$;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION public.handle_auth_user_updated()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF new.email IS NULL THEN
+    RETURN new;
+  END IF;
+
+  UPDATE public.users
+  SET
+    email = new.email,
+    email_verified = new.email_confirmed_at,
+    updated_at = now()
+  WHERE id = new.id;
+
+  RETURN new;
+END;
+$$;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+--> statement-breakpoint
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_auth_user_created();
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS on_auth_user_updated ON auth.users;
+--> statement-breakpoint
+CREATE TRIGGER on_auth_user_updated
+  AFTER UPDATE OF email, email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (
+    old.email IS DISTINCT FROM new.email
+    OR old.email_confirmed_at IS DISTINCT FROM new.email_confirmed_at
+  )
+  EXECUTE FUNCTION public.handle_auth_user_updated();
+--> statement-breakpoint
+-- Backfill: creates missing profiles and re-syncs email / email_verified
+-- for accounts that existed before the triggers. Run it with
+-- `bun run db:backfill`. Returns the number of rows written.
+CREATE OR REPLACE FUNCTION public.sync_user_profiles()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  inserted integer;
+  updated integer;
+BEGIN
+  INSERT INTO public.users (id, email, email_verified, name, avatar)
+  SELECT
+    au.id,
+    au.email,
+    au.email_confirmed_at,
+    coalesce(au.raw_user_meta_data ->> 'name', au.raw_user_meta_data ->> 'full_name'),
+    au.raw_user_meta_data ->> 'avatar_url'
+  FROM auth.users au
+  WHERE au.email IS NOT NULL
+  ON CONFLICT (id) DO NOTHING;
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+
+  UPDATE public.users pu
+  SET
+    email = au.email,
+    email_verified = au.email_confirmed_at,
+    updated_at = now()
+  FROM auth.users au
+  WHERE pu.id = au.id
+    AND au.email IS NOT NULL
+    AND (
+      pu.email IS DISTINCT FROM au.email
+      OR pu.email_verified IS DISTINCT FROM au.email_confirmed_at
+    );
+  GET DIAGNOSTICS updated = ROW_COUNT;
+
+  RETURN inserted + updated;
+END;
+$$;
+--> statement-breakpoint
+-- Only the service role may run the backfill
+REVOKE EXECUTE ON FUNCTION public.sync_user_profiles() FROM PUBLIC, anon, authenticated;
+--> statement-breakpoint
+SELECT public.sync_user_profiles();
@@ -0,0 +1,83 @@
+-- Custom access token hook: adds the profile role and account status to
+-- the JWT as app_metadata.role and app_metadata.is_active, so middleware
+-- and checkUserRole() don't have to query public.users.
+--
+-- Enable it after migrating: Dashboard -> Authentication -> Hooks ->
+-- Customize Access Token -> public.custom_access_token_hook
+--
+-- @see https://supabase.com/docs/guides/auth/auth-hooks/custom-access-token-hook
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  claims jsonb;
+  profile record;
+BEGIN
+  claims := event -> 'claims';
+
+  IF claims -> 'app_metadata' IS NULL THEN
+    claims := jsonb_set(claims, '{app_metadata}', '{}'::jsonb);
+  END IF;
+
+  SELECT role, is_active
+  INTO profile
+  FROM public.users
+  WHERE id = (event ->> 'user_id')::uuid;
+
+  IF FOUND THEN
+    claims := jsonb_set(claims, '{app_metadata,role}', to_jsonb(profile.role));
+    claims := jsonb_set(claims, '{app_metadata,is_active}', to_jsonb(profile.is_active));
+  END IF;
+
+  RETURN jsonb_set(event, '{claims}', claims);
+END;
+$$;
+--> statement-breakpoint
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+--> statement-breakpoint
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook(jsonb) TO supabase_auth_admin;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.custom_access_token_hook(jsonb) FROM PUBLIC, anon, authenticated;
+--> statement-breakpoint
+GRANT SELECT ON TABLE public.users TO supabase_auth_admin;
+--> statement-breakpoint
+DROP POLICY IF EXISTS "Auth admin can read user claims" ON public.users;
+--> statement-breakpoint
+CREATE POLICY "Auth admin can read user claims" ON public.users
+  AS PERMISSIVE FOR SELECT
+  TO supabase_auth_admin
+  USING (true);
+--> statement-breakpoint
+-- Claims only change when a token is issued. Mirroring role and is_active
+-- into auth.users makes the change visible to supabase.auth.getUser(), and
+-- middleware refreshes the session as soon as the two disagree.
+CREATE OR REPLACE FUNCTION public.handle_user_claims_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE auth.users
+  SET raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb)
+    || jsonb_build_object('role', new.role, 'is_active', new.is_active)
+  WHERE id = new.id;
+
+  RETURN new;
+END;
+$$;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS on_user_claims_changed ON public.users;
+--> statement-breakpoint
+CREATE TRIGGER on_user_claims_changed
+  AFTER UPDATE OF role, is_active ON public.users
+  FOR EACH ROW
+  WHEN (
+    old.role IS DISTINCT FROM new.role
+    OR old.is_active IS DISTINCT FROM new.is_active
+  )
+  EXECUTE FUNCTION public.handle_user_claims_changed();
@@ -0,0 +1,21 @@
+-- Ends every session of a user. Called by banUser() so a suspended user
+-- is signed out everywhere instead of keeping access until the access
+-- token expires. Deleting the sessions also deletes their refresh tokens.
+--
+-- Only the service role may call it.
+
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM auth.sessions WHERE user_id = target_user_id;
+END;
+$$;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.revoke_user_sessions(uuid) FROM PUBLIC, anon, authenticated;
+--> statement-breakpoint
+-- Ban records are read and written with the service role client only
+ALTER TABLE public.user_bans ENABLE ROW LEVEL SECURITY;
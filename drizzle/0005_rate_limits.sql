@@ -0,0 +1,10 @@
+CREATE TABLE "rate_limits" (
+	"key" text PRIMARY KEY NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"window_ends_at" timestamp NOT NULL,
+	"blocked_until" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Only the server's own database connection reads and writes counters
+ALTER TABLE "rate_limits" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,100 @@
+-- Session management for the /settings/sessions page.
+--
+-- user_sessions rows are tied to auth.sessions, so they are deleted
+-- together with the session on sign-out, revocation or ban. The functions
+-- below only ever touch sessions of auth.uid(), which is why they can run
+-- as SECURITY DEFINER and be called with the user's own client.
+
+ALTER TABLE public.user_sessions
+  ADD CONSTRAINT user_sessions_session_id_fkey
+  FOREIGN KEY (session_id) REFERENCES auth.sessions(id) ON DELETE CASCADE;
+--> statement-breakpoint
+-- Only reachable through the functions below
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+-- Called by middleware: records the device and last-seen time of the
+-- session in the caller's access token
+CREATE OR REPLACE FUNCTION public.record_session_activity(
+  client_user_agent text,
+  client_ip text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  current_session_id uuid := (auth.jwt() ->> 'session_id')::uuid;
+BEGIN
+  IF current_session_id IS NULL OR auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.user_sessions (session_id, user_id, user_agent, ip_address)
+  SELECT s.id, s.user_id, client_user_agent, client_ip
+  FROM auth.sessions s
+  WHERE s.id = current_session_id AND s.user_id = auth.uid()
+  ON CONFLICT (session_id) DO UPDATE
+  SET user_agent = EXCLUDED.user_agent,
+      ip_address = EXCLUDED.ip_address,
+      last_seen_at = now();
+END;
+$$;
+--> statement-breakpoint
+-- Every active session of the caller. Sessions that never passed
+-- middleware fall back to what Supabase Auth recorded at sign-in.
+CREATE OR REPLACE FUNCTION public.list_user_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  last_seen_at timestamptz,
+  user_agent text,
+  ip_address text,
+  aal text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    coalesce(u.last_seen_at::timestamptz, s.refreshed_at::timestamptz, s.updated_at, s.created_at),
+    coalesce(u.user_agent, s.user_agent),
+    coalesce(u.ip_address, host(s.ip)),
+    s.aal::text
+  FROM auth.sessions s
+  LEFT JOIN public.user_sessions u ON u.session_id = s.id
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY 3 DESC;
+$$;
+--> statement-breakpoint
+-- Ends one of the caller's sessions. Returns false if it doesn't exist or
+-- belongs to someone else.
+CREATE OR REPLACE FUNCTION public.revoke_user_session(target_session_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM auth.sessions
+  WHERE id = target_session_id AND user_id = auth.uid();
+
+  RETURN FOUND;
+END;
+$$;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.record_session_activity(text, text) FROM PUBLIC, anon;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.list_user_sessions() FROM PUBLIC, anon;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.revoke_user_session(uuid) FROM PUBLIC, anon;
+--> statement-breakpoint
+GRANT EXECUTE ON FUNCTION public.record_session_activity(text, text) TO authenticated;
+--> statement-breakpoint
+GRANT EXECUTE ON FUNCTION public.list_user_sessions() TO authenticated;
+--> statement-breakpoint
+GRANT EXECUTE ON FUNCTION public.revoke_user_session(uuid) TO authenticated;
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."security_event_type" AS ENUM('sign_in', 'sign_in_failed', 'password_changed', 'mfa_enabled', 'mfa_disabled', 'recovery_codes_regenerated', 'recovery_code_used', 'oauth_linked');--> statement-breakpoint
+CREATE TABLE "security_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "security_event_type" NOT NULL,
+	"ip_address" text,
+	"ip_range" text,
+	"user_agent" text,
+	"device" text,
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "security_events" ADD CONSTRAINT "security_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "security_events_user_id_created_at_idx" ON "security_events" USING btree ("user_id","created_at");--> statement-breakpoint
+-- Written and read with the service role only
+ALTER TABLE "security_events" ENABLE ROW LEVEL SECURITY;
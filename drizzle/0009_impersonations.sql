@@ -0,0 +1,15 @@
+CREATE TABLE "impersonations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"admin_id" uuid,
+	"target_user_id" uuid,
+	"session_id" uuid NOT NULL,
+	"reason" text NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"ended_at" timestamp,
+	"end_reason" text
+);
+--> statement-breakpoint
+ALTER TABLE "impersonations" ADD CONSTRAINT "impersonations_admin_id_users_id_fk" FOREIGN KEY ("admin_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "impersonations" ADD CONSTRAINT "impersonations_target_user_id_users_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "impersonations_session_id_idx" ON "impersonations" USING btree ("session_id");
\ No newline at end of file
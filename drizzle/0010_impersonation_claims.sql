@@ -0,0 +1,87 @@
+-- Admin impersonation.
+--
+-- The access token hook adds app_metadata.impersonated_by (admin id) and
+-- app_metadata.impersonation_expires_at (unix seconds) to tokens of an
+-- active impersonation session, so middleware and requireNotImpersonating()
+-- can trust them without a query. Same function as in
+-- 0002_custom_access_token_hook.sql, extended with the impersonation lookup.
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  claims jsonb;
+  profile record;
+  impersonation record;
+BEGIN
+  claims := event -> 'claims';
+
+  IF claims -> 'app_metadata' IS NULL THEN
+    claims := jsonb_set(claims, '{app_metadata}', '{}'::jsonb);
+  END IF;
+
+  SELECT role, is_active
+  INTO profile
+  FROM public.users
+  WHERE id = (event ->> 'user_id')::uuid;
+
+  IF FOUND THEN
+    claims := jsonb_set(claims, '{app_metadata,role}', to_jsonb(profile.role));
+    claims := jsonb_set(claims, '{app_metadata,is_active}', to_jsonb(profile.is_active));
+  END IF;
+
+  SELECT admin_id, expires_at
+  INTO impersonation
+  FROM public.impersonations
+  WHERE session_id = (claims ->> 'session_id')::uuid
+    AND ended_at IS NULL
+  ORDER BY started_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    claims := jsonb_set(claims, '{app_metadata,impersonated_by}', to_jsonb(impersonation.admin_id));
+    claims := jsonb_set(
+      claims,
+      '{app_metadata,impersonation_expires_at}',
+      to_jsonb(floor(extract(epoch FROM impersonation.expires_at))::bigint)
+    );
+  END IF;
+
+  RETURN jsonb_set(event, '{claims}', claims);
+END;
+$$;
+--> statement-breakpoint
+GRANT SELECT ON TABLE public.impersonations TO supabase_auth_admin;
+--> statement-breakpoint
+-- Audit records are otherwise only read and written with the service role
+ALTER TABLE public.impersonations ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+DROP POLICY IF EXISTS "Auth admin can read impersonations" ON public.impersonations;
+--> statement-breakpoint
+CREATE POLICY "Auth admin can read impersonations" ON public.impersonations
+  AS PERMISSIVE FOR SELECT
+  TO supabase_auth_admin
+  USING (true);
+--> statement-breakpoint
+-- Caps the lifetime of a session so Supabase refuses to refresh it after
+-- the impersonation ends, even if the exit flow never runs.
+--
+-- Only the service role may call it.
+CREATE OR REPLACE FUNCTION public.limit_session_lifetime(
+  target_session_id uuid,
+  ends_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE auth.sessions SET not_after = ends_at WHERE id = target_session_id;
+END;
+$$;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.limit_session_lifetime(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
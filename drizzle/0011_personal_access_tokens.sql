@@ -0,0 +1,20 @@
+CREATE TYPE "public"."access_token_scope" AS ENUM('posts:read', 'posts:write', 'comments:read', 'comments:write');--> statement-breakpoint
+ALTER TYPE "public"."security_event_type" ADD VALUE 'access_token_created';--> statement-breakpoint
+ALTER TYPE "public"."security_event_type" ADD VALUE 'access_token_revoked';--> statement-breakpoint
+CREATE TABLE "personal_access_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"token_prefix" varchar(16) NOT NULL,
+	"scopes" "access_token_scope"[] NOT NULL,
+	"expires_at" timestamp,
+	"last_used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "personal_access_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "personal_access_tokens" ADD CONSTRAINT "personal_access_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "personal_access_tokens_user_id_idx" ON "personal_access_tokens" USING btree ("user_id");--> statement-breakpoint
+-- Written and read with the service role only
+ALTER TABLE "personal_access_tokens" ENABLE ROW LEVEL SECURITY;
\ No newline at end of file
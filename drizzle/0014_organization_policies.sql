@@ -0,0 +1,203 @@
+-- Organizations: membership checks and row level security.
+--
+-- Org roles compare by their position in the org_role enum (declared
+-- as owner, admin, member), so "at least admin" is `role <= 'admin'`.
+--
+-- Memberships and invitations are changed by the server actions in
+-- lib/auth/organizations.ts with the service role, which enforce the
+-- owner rules. The policies below let members read their organizations
+-- with their own client, and scope posts and their comments to
+-- organization members. Connections that bypass RLS (the service role,
+-- the Drizzle DATABASE_URL user) are not affected.
+
+-- SECURITY DEFINER so memberships policies can use it without recursing
+CREATE OR REPLACE FUNCTION public.has_org_role(
+  target_organization_id uuid,
+  min_role public.org_role
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.memberships m
+    WHERE m.organization_id = target_organization_id
+      AND m.user_id = auth.uid()
+      AND m.role <= min_role
+  );
+$$;
+--> statement-breakpoint
+-- Creates an organization with the caller as its owner in one step
+CREATE OR REPLACE FUNCTION public.create_organization(
+  org_name text,
+  org_slug text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  new_organization_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  INSERT INTO public.organizations (name, slug, created_by)
+  VALUES (org_name, org_slug, auth.uid())
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO public.memberships (organization_id, user_id, role)
+  VALUES (new_organization_id, auth.uid(), 'owner');
+
+  RETURN new_organization_id;
+END;
+$$;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.create_organization(text, text) FROM PUBLIC, anon;
+--> statement-breakpoint
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  AS PERMISSIVE FOR SELECT
+  TO authenticated
+  USING (public.has_org_role(id, 'member'));
+--> statement-breakpoint
+CREATE POLICY "Admins can update their organizations" ON public.organizations
+  AS PERMISSIVE FOR UPDATE
+  TO authenticated
+  USING (public.has_org_role(id, 'admin'))
+  WITH CHECK (public.has_org_role(id, 'admin'));
+--> statement-breakpoint
+CREATE POLICY "Owners can delete their organizations" ON public.organizations
+  AS PERMISSIVE FOR DELETE
+  TO authenticated
+  USING (public.has_org_role(id, 'owner'));
+--> statement-breakpoint
+ALTER TABLE public.memberships ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+CREATE POLICY "Members can view fellow members" ON public.memberships
+  AS PERMISSIVE FOR SELECT
+  TO authenticated
+  USING (public.has_org_role(organization_id, 'member'));
+--> statement-breakpoint
+-- Owners hand over ownership before they leave
+CREATE POLICY "Members can leave organizations" ON public.memberships
+  AS PERMISSIVE FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() AND role <> 'owner');
+--> statement-breakpoint
+-- Written and read with the service role only
+ALTER TABLE public.org_invitations ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE public.posts ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+CREATE POLICY "Published personal posts are public" ON public.posts
+  AS PERMISSIVE FOR SELECT
+  TO anon, authenticated
+  USING (organization_id IS NULL AND status = 'published');
+--> statement-breakpoint
+CREATE POLICY "Authors can view their personal posts" ON public.posts
+  AS PERMISSIVE FOR SELECT
+  TO authenticated
+  USING (organization_id IS NULL AND author_id = auth.uid());
+--> statement-breakpoint
+CREATE POLICY "Members can view organization posts" ON public.posts
+  AS PERMISSIVE FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IS NOT NULL
+    AND public.has_org_role(organization_id, 'member')
+  );
+--> statement-breakpoint
+CREATE POLICY "Users can create posts" ON public.posts
+  AS PERMISSIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND (
+      organization_id IS NULL
+      OR public.has_org_role(organization_id, 'member')
+    )
+  );
+--> statement-breakpoint
+-- Authors edit their own posts while they are members; org admins edit
+-- every post of the organization
+CREATE POLICY "Authors and organization admins can update posts" ON public.posts
+  AS PERMISSIVE FOR UPDATE
+  TO authenticated
+  USING (
+    (
+      author_id = auth.uid()
+      AND (
+        organization_id IS NULL
+        OR public.has_org_role(organization_id, 'member')
+      )
+    )
+    OR (
+      organization_id IS NOT NULL
+      AND public.has_org_role(organization_id, 'admin')
+    )
+  )
+  WITH CHECK (
+    (
+      author_id = auth.uid()
+      AND (
+        organization_id IS NULL
+        OR public.has_org_role(organization_id, 'member')
+      )
+    )
+    OR (
+      organization_id IS NOT NULL
+      AND public.has_org_role(organization_id, 'admin')
+    )
+  );
+--> statement-breakpoint
+CREATE POLICY "Authors and organization admins can delete posts" ON public.posts
+  AS PERMISSIVE FOR DELETE
+  TO authenticated
+  USING (
+    (
+      author_id = auth.uid()
+      AND (
+        organization_id IS NULL
+        OR public.has_org_role(organization_id, 'member')
+      )
+    )
+    OR (
+      organization_id IS NOT NULL
+      AND public.has_org_role(organization_id, 'admin')
+    )
+  );
+--> statement-breakpoint
+-- Comments follow the visibility of their post (the subquery is itself
+-- filtered by the posts policies)
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+CREATE POLICY "Comments are visible with their post" ON public.comments
+  AS PERMISSIVE FOR SELECT
+  TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM public.posts p WHERE p.id = post_id));
+--> statement-breakpoint
+CREATE POLICY "Users can comment on visible posts" ON public.comments
+  AS PERMISSIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.posts p WHERE p.id = post_id)
+  );
+--> statement-breakpoint
+CREATE POLICY "Authors can update their comments" ON public.comments
+  AS PERMISSIVE FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+--> statement-breakpoint
+CREATE POLICY "Authors can delete their comments" ON public.comments
+  AS PERMISSIVE FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid());
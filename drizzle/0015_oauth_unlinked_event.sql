@@ -0,0 +1 @@
+ALTER TYPE "public"."security_event_type" ADD VALUE 'oauth_unlinked' BEFORE 'access_token_created';
\ No newline at end of file
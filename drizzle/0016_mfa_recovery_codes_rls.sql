@@ -0,0 +1,7 @@
+-- Recovery codes are written and redeemed with the service role client
+-- only. Without RLS, a user who knows just the password (an AAL1 session)
+-- could insert a code hash of their choosing through the Data API and
+-- redeem it to remove every TOTP factor.
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+REVOKE ALL ON TABLE public.mfa_recovery_codes FROM anon, authenticated;
@@ -0,0 +1,7 @@
+-- Passkeys are read and written with the service role client only.
+-- Without RLS, anyone with the anon key could insert a credential with
+-- their own public key for any user_id, and passkey sign-in would then
+-- issue a session for that user.
+ALTER TABLE public.passkeys ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+REVOKE ALL ON TABLE public.passkeys FROM anon, authenticated;
@@ -0,0 +1,30 @@
+-- Profiles carry the role and account status that the access token hook
+-- copies into the JWT, so users must not be able to write them. With RLS
+-- on, signed-in users can read and update their own row only, and only
+-- the name, avatar and bio columns. Everything else (role changes, bans,
+-- invitations, admin tools) goes through the service role client, and
+-- rows are created by the on_auth_user_created trigger.
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+REVOKE ALL ON TABLE public.users FROM anon, authenticated;
+--> statement-breakpoint
+GRANT SELECT ON TABLE public.users TO authenticated;
+--> statement-breakpoint
+-- A column list is required: a table-wide UPDATE grant would also cover
+-- role, is_active and email
+GRANT UPDATE (name, avatar, bio, updated_at) ON TABLE public.users TO authenticated;
+--> statement-breakpoint
+DROP POLICY IF EXISTS "Users can read their own profile" ON public.users;
+--> statement-breakpoint
+CREATE POLICY "Users can read their own profile" ON public.users
+  AS PERMISSIVE FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+--> statement-breakpoint
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.users;
+--> statement-breakpoint
+CREATE POLICY "Users can update their own profile" ON public.users
+  AS PERMISSIVE FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
@@ -0,0 +1,67 @@
+CREATE TYPE "public"."sign_up_mode" AS ENUM('open', 'invite_only', 'closed');--> statement-breakpoint
+CREATE TABLE "auth_settings" (
+	"id" boolean PRIMARY KEY DEFAULT true NOT NULL,
+	"sign_up_mode" "sign_up_mode" DEFAULT 'open' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "auth_settings_single_row" CHECK (id)
+);
+--> statement-breakpoint
+-- Enforce SIGN_UP_MODE where accounts are created. The sign-up form,
+-- passwordless sign-in and /auth/callback check the mode too, but anyone
+-- with the anon key can call the Auth API (/auth/v1/signup, /otp with
+-- create_user, OAuth) directly. This trigger rejects every new
+-- auth.users row the mode doesn't allow:
+--
+-- * open: anyone
+-- * invite_only: only addresses with an invitation that signUp() has
+--   just claimed
+-- * closed: nobody, including accounts created with the admin API
+--
+-- Keep the row in sync with the environment: `bun run db:sign-up-mode`.
+INSERT INTO "auth_settings" ("id") VALUES (true) ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+-- Read by the trigger below only
+ALTER TABLE "auth_settings" ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+REVOKE ALL ON TABLE public.auth_settings FROM anon, authenticated;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION public.enforce_sign_up_mode()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  mode public.sign_up_mode;
+BEGIN
+  SELECT sign_up_mode INTO mode FROM public.auth_settings;
+
+  IF mode IS NULL OR mode = 'open' THEN
+    RETURN new;
+  END IF;
+
+  -- signUp() claims the invitation (accepted_at) right before it creates
+  -- the account, and links it (accepted_by) right after
+  IF mode = 'invite_only' AND new.email IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM public.invitations i
+    WHERE lower(i.email) = lower(new.email)
+      AND i.accepted_at > now() - interval '10 minutes'
+      AND i.accepted_by IS NULL
+      AND i.revoked_at IS NULL
+  ) THEN
+    RETURN new;
+  END IF;
+
+  RAISE EXCEPTION 'Sign-up is disabled (SIGN_UP_MODE=%)', mode
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+--> statement-breakpoint
+REVOKE EXECUTE ON FUNCTION public.enforce_sign_up_mode() FROM PUBLIC, anon, authenticated;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS on_auth_user_creating ON auth.users;
+--> statement-breakpoint
+CREATE TRIGGER on_auth_user_creating
+  BEFORE INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_sign_up_mode();
@@ -0,0 +1,28 @@
+-- The row policies in 0014 decide which posts and comments a user may
+-- write, but not which columns. Column grants close the gaps:
+--
+-- * Comments are created unapproved, and their authors can only edit the
+--   text; approval and the post they belong to are set by moderators
+--   with the service role
+-- * Posts keep their author, organization and view count; organization
+--   admins can edit the content of other members' posts, but can't
+--   reassign them
+DROP POLICY IF EXISTS "Users can comment on visible posts" ON public.comments;
+--> statement-breakpoint
+CREATE POLICY "Users can comment on visible posts" ON public.comments
+  AS PERMISSIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND is_approved = false
+    AND EXISTS (SELECT 1 FROM public.posts p WHERE p.id = post_id)
+  );
+--> statement-breakpoint
+REVOKE UPDATE ON TABLE public.comments FROM anon, authenticated;
+--> statement-breakpoint
+GRANT UPDATE (content, updated_at) ON TABLE public.comments TO authenticated;
+--> statement-breakpoint
+REVOKE UPDATE ON TABLE public.posts FROM anon, authenticated;
+--> statement-breakpoint
+GRANT UPDATE (title, slug, content, excerpt, status, featured, published_at, updated_at)
+  ON TABLE public.posts TO authenticated;
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import type { FormState } from "@/types/supabase";
+
+/**
+ * Countdown for rate-limited actions such as "resend code".
+ *
+ * Call `start(seconds)` after the action runs; `secondsLeft` ticks down
+ * once per second and `isCoolingDown` is true until it reaches zero.
+ */
+export function useCooldown() {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) {
+      return;
+    }
+
+    const timeout = setTimeout(() => setSecondsLeft((s) => s - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [secondsLeft]);
+
+  const start = useCallback((seconds: number) => setSecondsLeft(seconds), []);
+
+  return { secondsLeft, isCoolingDown: secondsLeft > 0, start };
+}
+
+/**
+ * Cooldown that starts whenever a form action is rate limited, i.e.
+ * returns `retryAfter`. Disable the submit button while it runs.
+ */
+export function useRetryAfter(state: FormState) {
+  const { start, ...cooldown } = useCooldown();
+
+  useEffect(() => {
+    if (state.retryAfter) {
+      start(state.retryAfter);
+    }
+  }, [state, start]);
+
+  return cooldown;
+}
+
+/**
+ * Formats a countdown as "42s", or "14:05" from one minute up
+ */
+export function formatCooldown(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getCurrentAuthSession,
+  getCurrentClaims,
+  getCurrentSession,
+  getCurrentUser,
+  getCurrentUserProfile,
+} from "@/lib/auth";
+
+const { createServerClient, requests, signedIn, supabase } = vi.hoisted(() => {
+  const user = {
+    id: "user-1",
+    email: "user@example.com",
+    app_metadata: { role: "admin", is_active: true },
+  };
+  const claims = {
+    session_id: "session-1",
+    app_metadata: { role: "admin", is_active: true },
+  };
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const session = {
+    access_token: `${encode({ alg: "HS256" })}.${encode(claims)}.signature`,
+    user,
+  };
+
+  const query = {
+    select: () => query,
+    eq: () => query,
+    single: async () => ({ data: { id: user.id, role: "admin" }, error: null }),
+  };
+
+  const signedIn = { value: true };
+  const supabase = {
+    auth: {
+      getUser: vi.fn(async () => ({
+        data: { user: signedIn.value ? user : null },
+        error: null,
+      })),
+      getSession: vi.fn(async () => ({ data: { session }, error: null })),
+      refreshSession: vi.fn(async () => ({ data: {}, error: null })),
+      mfa: {
+        getAuthenticatorAssuranceLevel: vi.fn(async () => ({
+          data: { currentLevel: "aal1", nextLevel: "aal1" },
+          error: null,
+        })),
+      },
+    },
+    from: vi.fn(() => query),
+  };
+
+  return {
+    createServerClient: vi.fn(() => supabase),
+    // Every React `cache` memo
+    requests: new Set<Map<string, unknown>>(),
+    signedIn,
+    supabase,
+  };
+});
+
+vi.mock("react", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("react")>()),
+  cache: <A extends unknown[], R>(fn: (...args: A) => R) => {
+    const memo = new Map<string, R>();
+    requests.add(memo);
+
+    return (...args: A): R => {
+      const key = JSON.stringify(args);
+
+      if (!memo.has(key)) {
+        memo.set(key, fn(...args));
+      }
+
+      return memo.get(key) as R;
+    };
+  },
+}));
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ getAll: () => [], set: () => {} }),
+  headers: async () => new Headers(),
+}));
+
+vi.mock("@supabase/ssr", () => ({
+  createServerClient,
+}));
+
+vi.mock("@/lib/env", () => ({
+  env: {
+    NODE_ENV: "test",
+    AUTH_ADAPTER: "supabase",
+    NEXT_PUBLIC_SUPABASE_URL: "https://project.supabase.co",
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+    NEXT_PUBLIC_APP_URL: "https://app.example.com",
+  },
+}));
+
+/** Starts a new request by dropping every memo */
+function newRequest() {
+  for (const memo of requests) {
+    memo.clear();
+  }
+}
+
+beforeEach(() => {
+  newRequest();
+  signedIn.value = true;
+  vi.clearAllMocks();
+});
+
+describe("current session helpers", () => {
+  it("look the user up once per request", async () => {
+    const [user, session, profile, claims] = await Promise.all([
+      getCurrentUser(),
+      getCurrentSession(),
+      getCurrentUserProfile(),
+      getCurrentClaims(),
+    ]);
+
+    expect(user?.id).toBe("user-1");
+    expect(session?.user.id).toBe("user-1");
+    expect(profile?.id).toBe("user-1");
+    expect(claims?.role).toBe("admin");
+
+    await getCurrentUser();
+    await getCurrentClaims();
+    expect((await getCurrentAuthSession())?.sessionId).toBe("session-1");
+
+    expect(createServerClient).toHaveBeenCalledTimes(1);
+    expect(supabase.auth.getUser).toHaveBeenCalledTimes(1);
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+
+  it("look the user up again in the next request", async () => {
+    await getCurrentUser();
+    newRequest();
+    await getCurrentUser();
+
+    expect(supabase.auth.getUser).toHaveBeenCalledTimes(2);
+  });
+
+  it("do not query the profile when signed out", async () => {
+    signedIn.value = false;
+
+    expect(await getCurrentUser()).toBeNull();
+    expect(await getCurrentUserProfile()).toBeNull();
+    expect(await getCurrentClaims()).toBeNull();
+
+    expect(supabase.auth.getUser).toHaveBeenCalledTimes(1);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
@@ -3,274 +3,174 @@ import {
   createRouteHandlerClient, 
   createActionClient,
   createAdminClient,
-  getCurrentUser,
-  getCurrentSession 
+  getRequestCookies
 } from "@/lib/supabase/server";
-import { createClient as createBrowserClient } from "@/lib/supabase/client";
+import { headers } from "next/headers";
+import { unstable_rethrow } from "next/navigation";
+import { cache } from "react";
+import { createAuthAdapter, type AuthAdapter, type AuthAdapterSession } from "@/lib/auth/adapter";
+import { authenticateAccessToken, getBearerToken } from "@/lib/auth/bearer";
+import type { AppClaims } from "@/lib/auth/claims";
+import { AuthError, failure, fromSupabaseError, success } from "@/lib/auth/errors";
+import { hasRequiredOrgRole, hasRequiredRole, isBanned } from "@/lib/auth/utils";
 import type { 
   User, 
   UserRole, 
+  UserBan,
   AuthUser, 
   AuthSession,
-  ApiResponse 
+  ApiResponse,
+  AssuranceLevel,
+  AccessTokenScope,
+  OrgRole
 } from "@/types/supabase";
 
 /**
  * Authentication Utilities
  * 
  * This file provides a comprehensive set of authentication utilities
- * for both client-side and server-side operations.
+ * for server-side operations.
  * 
  * Features:
  * - User authentication and management
  * - Role-based access control
+ * - Organization roles
  * - Session management
  * - Password utilities
  * - Profile management
+ * - Account suspension
+ * - Impersonation guard
+ * - Personal access tokens (Bearer)
+ * - Typed error codes and responses (`@/lib/auth/errors`)
+ * - Route handler and Server Action wrappers (`@/lib/auth/wrappers`)
+ * 
+ * The current user, session, profile, claims and assurance level are
+ * resolved once per request (React `cache`) and shared by every helper
+ * here, so `requireRole` and a page that calls several helpers cost one
+ * `auth.getUser()` round-trip.
+ * 
+ * Form flows (sign in, sign up, password reset) are Server Actions in
+ * `@/lib/auth/server`. Browser-only helpers (passkeys, OAuth) live in
+ * `@/lib/auth/client`.
  * 
  * @see https://supabase.com/docs/guides/auth
  */
 
 /**
- * Authentication Errors
- */
-export class AuthError extends Error {
-  constructor(message: string, public code?: string) {
-    super(message);
-    this.name = 'AuthError';
-  }
-}
-
-/**
- * User Sign Up
- * 
- * Creates a new user account with email and password.
- * Optionally creates a user profile record.
+ * Shared Utilities
  * 
- * @param email - User's email address
- * @param password - User's password
- * @param userData - Additional user profile data
- * @returns Promise with user data or error
+ * Re-exported from the auth modules so existing imports
+ * keep working.
  */
-export async function signUp(
-  email: string,
-  password: string,
-  userData?: {
-    name?: string;
-    redirectTo?: string;
-  }
-): Promise<ApiResponse<AuthUser>> {
-  try {
-    const supabase = createBrowserClient();
-    const { data, error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        emailRedirectTo: userData?.redirectTo,
-        data: {
-          name: userData?.name,
-        },
-      },
-    });
-
-    if (error) {
-      throw new AuthError(error.message, error.message);
-    }
-
-    // If user was created successfully, create profile record
-    if (data.user && !error) {
-      await createUserProfile(data.user.id, {
-        email,
-        name: userData?.name || null,
-      });
-    }
-
-    return {
-      data: data.user as AuthUser,
-      message: 'Account created successfully. Please check your email to verify your account.',
-    };
-  } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to create account',
-    };
-  }
-}
+export {
+  AuthError,
+  failure,
+  success,
+  getHttpStatus,
+  toFormState,
+  toHttpResponse
+} from "@/lib/auth/errors";
+export { validatePassword } from "@/lib/auth/password-policy";
+export { getSafeRedirectPath } from "@/lib/auth/redirect";
 
 /**
- * User Sign In
+ * Get Auth Adapter
  * 
- * Authenticates user with email and password.
+ * Returns the adapter selected by `AUTH_ADAPTER` (see `@/lib/auth/adapter`),
+ * bound to the cookies of the current request. In Server Components it
+ * builds on the per-request `createClient()`, so its `auth.getUser()` is
+ * the one the Supabase helpers see.
  * 
- * @param email - User's email address
- * @param password - User's password
- * @returns Promise with user data or error
+ * @param context - `server-component` where cookies can't be written
  */
-export async function signIn(
-  email: string,
-  password: string
-): Promise<ApiResponse<AuthUser>> {
-  try {
-    const supabase = createBrowserClient();
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    if (error) {
-      throw new AuthError(error.message, error.message);
-    }
-
-    return {
-      data: data.user as AuthUser,
-      message: 'Signed in successfully',
-    };
-  } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to sign in',
-    };
-  }
+export async function getAuthAdapter(
+  context: 'server-component' | 'route' | 'action' = 'action'
+): Promise<AuthAdapter> {
+  const cookies = await getRequestCookies(context);
+
+  return context === 'server-component'
+    ? createAuthAdapter(cookies, await createServerClient())
+    : createAuthAdapter(cookies);
 }
 
 /**
- * OAuth Sign In
+ * Get Current Auth Session
+ * 
+ * Reads the user, claims and assurance level of the current request
+ * from the auth adapter. The other session helpers below derive from it.
  * 
- * Authenticates user with OAuth provider.
+ * Memoized per request.
  * 
- * @param provider - OAuth provider (google, github, etc.)
- * @param redirectTo - URL to redirect after authentication
- * @returns Promise with error if any
+ * @returns Promise with the session, or null if signed out
  */
-export async function signInWithOAuth(
-  provider: 'google' | 'github' | 'discord' | 'facebook' | 'twitter',
-  redirectTo?: string
-): Promise<ApiResponse<null>> {
+export const getCurrentAuthSession = cache(async (): Promise<AuthAdapterSession | null> => {
   try {
-    const supabase = createBrowserClient();
-    const { error } = await supabase.auth.signInWithOAuth({
-      provider,
-      options: {
-        redirectTo: redirectTo || `${window.location.origin}/auth/callback`,
-      },
-    });
-
-    if (error) {
-      throw new AuthError(error.message, error.message);
-    }
-
-    return {
-      message: `Redirecting to ${provider}...`,
-    };
+    const adapter = await getAuthAdapter('server-component');
+    return await adapter.getSession();
   } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to authenticate with OAuth',
-    };
+    // Let Next see its own signals, e.g. dynamic rendering during a build
+    unstable_rethrow(error);
+    console.error('Unexpected error getting session:', error);
+    return null;
   }
-}
+});
 
 /**
- * User Sign Out
+ * Get Current User (Server-side)
  * 
- * Signs out the current user and clears the session.
+ * Retrieves the current authenticated user on the server.
  * 
- * @returns Promise with success message or error
+ * @returns Promise with the user, or null if signed out
  */
-export async function signOut(): Promise<ApiResponse<null>> {
-  try {
-    const supabase = createBrowserClient();
-    const { error } = await supabase.auth.signOut();
-
-    if (error) {
-      throw new AuthError(error.message, error.message);
-    }
-
-    return {
-      message: 'Signed out successfully',
-    };
-  } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to sign out',
-    };
-  }
+export async function getCurrentUser(): Promise<AuthAdapterSession['user'] | null> {
+  return (await getCurrentAuthSession())?.user ?? null;
 }
 
 /**
- * Reset Password
+ * Get Current Session (Server-side)
  * 
- * Sends a password reset email to the user.
+ * Retrieves the Supabase session with its tokens, which is useful for
+ * operations that need the access token. Supabase only; use
+ * `getCurrentUser` to work with any auth adapter.
  * 
- * @param email - User's email address
- * @param redirectTo - URL to redirect after password reset
- * @returns Promise with success message or error
+ * The tokens are only returned once `getCurrentAuthSession` has
+ * validated them. Memoized per request.
+ * 
+ * @returns Promise with the session, or null if signed out
  */
-export async function resetPassword(
-  email: string,
-  redirectTo?: string
-): Promise<ApiResponse<null>> {
-  try {
-    const supabase = createBrowserClient();
-    const { error } = await supabase.auth.resetPasswordForEmail(email, {
-      redirectTo: redirectTo || `${window.location.origin}/reset-password`,
-    });
-
-    if (error) {
-      throw new AuthError(error.message, error.message);
-    }
-
-    return {
-      message: 'Password reset email sent. Please check your inbox.',
-    };
-  } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to send reset email',
-    };
+export const getCurrentSession = cache(async () => {
+  if (!(await getCurrentAuthSession())) {
+    return null;
   }
-}
 
-/**
- * Update Password
- * 
- * Updates the user's password.
- * 
- * @param password - New password
- * @returns Promise with success message or error
- */
-export async function updatePassword(password: string): Promise<ApiResponse<null>> {
   try {
-    const supabase = createBrowserClient();
-    const { error } = await supabase.auth.updateUser({
-      password,
-    });
-
+    // Read from the cookies the auth session just validated
+    const supabase = await createServerClient();
+    const { data: { session }, error } = await supabase.auth.getSession();
+    
     if (error) {
-      throw new AuthError(error.message, error.message);
+      console.error('Error getting session:', error.message);
+      return null;
     }
-
-    return {
-      message: 'Password updated successfully',
-    };
+    
+    return session;
   } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to update password',
-    };
+    unstable_rethrow(error);
+    console.error('Unexpected error getting session:', error);
+    return null;
   }
-}
-
-/**
- * Get Current User (Server-side)
- * 
- * Retrieves the current authenticated user on the server.
- * This is a re-export for convenience.
- */
-export { getCurrentUser, getCurrentSession };
+});
 
 /**
  * Get Current User Profile
  * 
  * Retrieves the current user's profile data from the database.
  * 
+ * Memoized per request.
+ * 
  * @returns Promise with user profile or null
  */
-export async function getCurrentUserProfile(): Promise<User | null> {
+export const getCurrentUserProfile = cache(async (): Promise<User | null> => {
   try {
     const user = await getCurrentUser();
     
@@ -292,16 +192,21 @@ export async function getCurrentUserProfile(): Promise<User | null> {
 
     return profile;
   } catch (error) {
+    unstable_rethrow(error);
     console.error('Unexpected error fetching user profile:', error);
     return null;
   }
-}
+});
 
 /**
  * Create User Profile
  * 
  * Creates a new user profile record in the database.
- * This is typically called after successful user registration.
+ * Profiles are normally created by the `on_auth_user_created` trigger;
+ * use this for accounts created while the trigger was disabled, for
+ * seeding, or to complete a profile the trigger just created (`signUp`
+ * sets the role of invited users this way). An existing row is
+ * overwritten with `profileData`. `userId` must exist in `auth.users`.
  * 
  * @param userId - User's ID from auth
  * @param profileData - Profile data to create
@@ -318,33 +223,29 @@ export async function createUserProfile(
   }
 ): Promise<ApiResponse<User>> {
   try {
-    const supabase = await createActionClient();
+    // Profiles belong to other users, so RLS would reject the insert
+    const supabase = await createAdminClient();
     
     const { data: profile, error } = await supabase
       .from('users')
-      .insert({
+      .upsert({
         id: userId,
         email: profileData.email,
         name: profileData.name || null,
         avatar: profileData.avatar || null,
         bio: profileData.bio || null,
         role: profileData.role || 'user',
-      })
+      }, { onConflict: 'id' })
       .select()
       .single();
 
     if (error) {
-      throw new AuthError(error.message, error.message);
+      throw fromSupabaseError(error);
     }
 
-    return {
-      data: profile,
-      message: 'Profile created successfully',
-    };
+    return success(profile, 'Profile created successfully');
   } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to create profile',
-    };
+    return failure(error, 'Failed to create profile');
   }
 }
 
@@ -367,7 +268,7 @@ export async function updateUserProfile(
     const user = await getCurrentUser();
     
     if (!user) {
-      throw new AuthError('User not authenticated');
+      throw new AuthError('User not authenticated', 'UNAUTHORIZED');
     }
 
     const supabase = await createActionClient();
@@ -383,27 +284,38 @@ export async function updateUserProfile(
       .single();
 
     if (error) {
-      throw new AuthError(error.message, error.message);
+      throw fromSupabaseError(error);
     }
 
-    return {
-      data: profile,
-      message: 'Profile updated successfully',
-    };
+    return success(profile, 'Profile updated successfully');
   } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to update profile',
-    };
+    return failure(error, 'Failed to update profile');
   }
 }
 
+/**
+ * Get Current Claims
+ * 
+ * Reads the role and account status from the verified access token.
+ * The claims are added by the custom access token hook, so this needs
+ * no database query.
+ * 
+ * Read from `getCurrentAuthSession`, so it's resolved once per request.
+ * 
+ * @returns Promise with the app claims, or null if signed out or the
+ * hook is not enabled
+ */
+export async function getCurrentClaims(): Promise<AppClaims | null> {
+  return (await getCurrentAuthSession())?.claims ?? null;
+}
+
 /**
  * Check User Role
  * 
  * Checks if the current user has the specified role or higher.
  * 
  * @param requiredRole - Required role to check
- * @param userRole - User's current role (optional, will fetch if not provided)
+ * @param userRole - User's current role (optional, read from the token claims if not provided)
  * @returns Promise<boolean> - True if user has required role or higher
  */
 export async function checkUserRole(
@@ -414,22 +326,16 @@ export async function checkUserRole(
     let role = userRole;
     
     if (!role) {
-      const profile = await getCurrentUserProfile();
-      if (!profile) {
+      const claims = await getCurrentClaims();
+      if (!claims) {
         return false;
       }
-      role = profile.role;
+      role = claims.role;
     }
 
-    // Define role hierarchy
-    const roleHierarchy: Record<UserRole, number> = {
-      user: 1,
-      moderator: 2,
-      admin: 3,
-    };
-
-    return roleHierarchy[role] >= roleHierarchy[requiredRole];
+    return hasRequiredRole(role, requiredRole);
   } catch (error) {
+    unstable_rethrow(error);
     console.error('Error checking user role:', error);
     return false;
   }
@@ -438,50 +344,219 @@ export async function checkUserRole(
 /**
  * Require Authentication
  * 
- * Throws an error if the user is not authenticated.
+ * Throws an error if the user is not authenticated or is suspended.
  * Use this in API routes or server actions that require authentication.
  * 
+ * Requests with an `Authorization: Bearer` personal access token are
+ * accepted only where a `scope` is passed, and only if the token grants
+ * it. Everywhere else (settings, admin actions) a cookie session is
+ * required. Cookie sessions have every scope.
+ * 
+ * @param options - Scope an access token needs for this endpoint
  * @returns Promise<AuthUser> - The authenticated user
- * @throws AuthError if user is not authenticated
+ * @throws AuthError if user is not authenticated or banned, or the
+ * access token is invalid or lacks the scope
  */
-export async function requireAuth(): Promise<AuthUser> {
-  const user = await getCurrentUser();
+export async function requireAuth(
+  options?: { scope?: AccessTokenScope }
+): Promise<AuthUser> {
+  const token = getBearerToken(await headers());
+  
+  if (token && !options?.scope) {
+    throw new AuthError(
+      'Access tokens are not accepted for this action',
+      'UNAUTHORIZED'
+    );
+  }
+  
+  const user = token && options?.scope
+    ? await authenticateAccessToken(token, options.scope)
+    : await getCurrentUser();
   
   if (!user) {
     throw new AuthError('Authentication required', 'UNAUTHORIZED');
   }
   
+  if (isBanned(user)) {
+    throw new AuthError('Your account has been suspended', 'ACCOUNT_SUSPENDED');
+  }
+  
   return user as AuthUser;
 }
 
+/**
+ * Get Assurance Level
+ * 
+ * Reads the authenticator assurance level of the current session.
+ * `nextLevel` is `aal2` when the user has a verified MFA factor, so
+ * `currentLevel !== nextLevel` means a challenge is still pending.
+ * 
+ * Read from `getCurrentAuthSession`, so it's resolved once per request.
+ * 
+ * @returns Promise with current and next level, or null if signed out
+ */
+export async function getAssuranceLevel(): Promise<{
+  currentLevel: AssuranceLevel | null;
+  nextLevel: AssuranceLevel | null;
+} | null> {
+  const session = await getCurrentAuthSession();
+
+  return session
+    ? { currentLevel: session.currentLevel, nextLevel: session.nextLevel }
+    : null;
+}
+
 /**
  * Require Role
  * 
  * Throws an error if the user doesn't have the required role.
  * Use this in API routes or server actions that require specific permissions.
  * 
+ * Pass `{ aal: 'aal2' }` to also require a session that passed an MFA
+ * challenge, e.g. for admin actions.
+ * 
+ * The role is read from the access token claims, not the profile.
+ * 
  * @param requiredRole - Required role to access the resource
- * @returns Promise<User> - The authenticated user with required role
- * @throws AuthError if user doesn't have required role
+ * @param options - Additional requirements for the session
+ * @returns Promise<AuthUser> - The authenticated user with required role
+ * @throws AuthError if user doesn't have required role or assurance level
  */
-export async function requireRole(requiredRole: UserRole): Promise<User> {
+export async function requireRole(
+  requiredRole: UserRole,
+  options?: { aal?: AssuranceLevel }
+): Promise<AuthUser> {
   const user = await requireAuth();
-  const profile = await getCurrentUserProfile();
+  const hasRole = await checkUserRole(requiredRole);
   
-  if (!profile) {
-    throw new AuthError('User profile not found', 'PROFILE_NOT_FOUND');
+  if (!hasRole) {
+    throw new AuthError(
+      `Access denied. Required role: ${requiredRole}`,
+      'INSUFFICIENT_PERMISSIONS'
+    );
   }
   
-  const hasRole = await checkUserRole(requiredRole, profile.role);
+  if (options?.aal === 'aal2') {
+    const assurance = await getAssuranceLevel();
+    
+    if (assurance?.currentLevel !== 'aal2') {
+      throw new AuthError(
+        'Multi-factor authentication required',
+        'MFA_REQUIRED'
+      );
+    }
+  }
   
-  if (!hasRole) {
+  return user;
+}
+
+/**
+ * Require Organization Role
+ * 
+ * Throws an error if the user isn't a member of the organization with
+ * at least the required role (owner > admin > member). Organization
+ * roles are independent of the account role: a site admin has no
+ * access to an organization they don't belong to.
+ * 
+ * The membership is read with the user's own client, so it goes through
+ * the memberships RLS policies.
+ * 
+ * @param organizationId - Organization to check
+ * @param requiredRole - Minimum role in the organization
+ * @returns Promise<AuthUser> - The authenticated member
+ * @throws AuthError if user is not a member or their role is too low
+ */
+export async function requireOrgRole(
+  organizationId: string,
+  requiredRole: OrgRole
+): Promise<AuthUser> {
+  const user = await requireAuth();
+  const supabase = await createServerClient();
+  
+  const { data: membership, error } = await supabase
+    .from('memberships')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  
+  if (error) {
+    throw fromSupabaseError(error);
+  }
+  
+  if (!membership) {
     throw new AuthError(
-      `Access denied. Required role: ${requiredRole}`,
+      'You are not a member of this organization',
+      'INSUFFICIENT_PERMISSIONS'
+    );
+  }
+  
+  if (!hasRequiredOrgRole(membership.role, requiredRole)) {
+    throw new AuthError(
+      `Access denied. Required organization role: ${requiredRole}`,
       'INSUFFICIENT_PERMISSIONS'
     );
   }
   
-  return profile;
+  return user;
+}
+
+/**
+ * Require Own Session
+ * 
+ * Throws while an admin is impersonating the current user. Call it in
+ * actions that change credentials or security settings (password, MFA,
+ * passkeys, sessions), so support staff can look around but can't take
+ * over the account.
+ * 
+ * Reads the impersonation claim from the access token, so it needs no
+ * database query.
+ * 
+ * @throws AuthError if the session is an impersonation
+ */
+export async function requireNotImpersonating(): Promise<void> {
+  const claims = await getCurrentClaims();
+
+  if (claims?.impersonation) {
+    throw new AuthError(
+      'This action is not available while impersonating a user',
+      'IMPERSONATION_RESTRICTED'
+    );
+  }
+}
+
+/**
+ * Get Active Ban
+ * 
+ * Returns the ban that currently suspends a user: not lifted, already
+ * started and either permanent or not yet expired. Expired bans are
+ * ignored, so timed bans end without any cleanup job.
+ * 
+ * @param userId - User ID to check
+ * @returns Promise with the active ban, or null if the user is not suspended
+ */
+export async function getActiveBan(userId: string): Promise<UserBan | null> {
+  const now = new Date().toISOString();
+
+  // Ban records have no RLS policies for end users
+  const supabase = await createAdminClient();
+  const { data: ban, error } = await supabase
+    .from('user_bans')
+    .select('*')
+    .eq('user_id', userId)
+    .is('lifted_at', null)
+    .lte('starts_at', now)
+    .or(`expires_at.is.null,expires_at.gt.${now}`)
+    .order('starts_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching user ban:', error.message);
+    return null;
+  }
+
+  return ban;
 }
 
 /**
@@ -495,7 +570,7 @@ export async function requireRole(requiredRole: UserRole): Promise<User> {
 export async function isUserActive(userId?: string): Promise<boolean> {
   try {
     let targetUserId = userId;
-    
+
     if (!targetUserId) {
       const user = await getCurrentUser();
       if (!user) {
@@ -504,7 +579,8 @@ export async function isUserActive(userId?: string): Promise<boolean> {
       targetUserId = user.id;
     }
 
-    const supabase = await createServerClient();
+    // RLS hides the profiles of other users
+    const supabase = await createAdminClient();
     const { data: profile, error } = await supabase
       .from('users')
       .select('is_active')
@@ -516,8 +592,13 @@ export async function isUserActive(userId?: string): Promise<boolean> {
       return false;
     }
 
-    return profile?.is_active ?? false;
+    if (!profile?.is_active) {
+      return false;
+    }
+
+    return (await getActiveBan(targetUserId)) === null;
   } catch (error) {
+    unstable_rethrow(error);
     console.error('Unexpected error checking user status:', error);
     return false;
   }
@@ -526,167 +607,177 @@ export async function isUserActive(userId?: string): Promise<boolean> {
 /**
  * Ban User
  * 
- * Deactivates a user account. Requires admin privileges.
+ * Suspends a user account. Requires an admin with an AAL2 session.
+ * 
+ * The ban is recorded in `user_bans` and mirrored to the native Supabase
+ * ban, which blocks sign-in and token refresh until `expiresAt`. All of
+ * the user's sessions are revoked right away. A new ban replaces any
+ * active one.
  * 
  * @param userId - User ID to ban
- * @returns Promise with success message or error
+ * @param options - Reason shown to the user and optional end of the ban
+ * @returns Promise with the ban record or error
  */
-export async function banUser(userId: string): Promise<ApiResponse<null>> {
+export async function banUser(
+  userId: string,
+  options: { reason: string; expiresAt?: Date }
+): Promise<ApiResponse<UserBan>> {
   try {
-    await requireRole('admin');
+    const actor = await requireRole('admin', { aal: 'aal2' });
 
-    const supabase = await createActionClient();
-    
-    const { error } = await supabase
-      .from('users')
-      .update({
-        is_active: false,
-        updated_at: new Date().toISOString(),
+    if (userId === actor.id) {
+      throw new AuthError('You cannot ban your own account', 'OPERATION_NOT_ALLOWED');
+    }
+
+    const reason = options.reason.trim();
+    if (!reason) {
+      throw new AuthError('A reason is required', 'VALIDATION_FAILED');
+    }
+
+    const startsAt = new Date();
+    if (options.expiresAt && options.expiresAt <= startsAt) {
+      throw new AuthError('The ban must end in the future', 'VALIDATION_FAILED');
+    }
+
+    const supabase = await createAdminClient();
+
+    // Supabase takes a duration; ~100 years stands in for "until lifted"
+    const banDuration = options.expiresAt
+      ? `${Math.ceil((options.expiresAt.getTime() - startsAt.getTime()) / 1000)}s`
+      : '876000h';
+
+    // Record first, so the native ban never exists without its record
+    const { data: lifted, error: liftError } = await supabase
+      .from('user_bans')
+      .update({ lifted_at: startsAt.toISOString(), lifted_by: actor.id })
+      .eq('user_id', userId)
+      .is('lifted_at', null)
+      .select('id');
+
+    if (liftError) {
+      throw fromSupabaseError(liftError);
+    }
+
+    const { data: ban, error } = await supabase
+      .from('user_bans')
+      .insert({
+        user_id: userId,
+        reason,
+        banned_by: actor.id,
+        starts_at: startsAt.toISOString(),
+        expires_at: options.expiresAt?.toISOString() ?? null,
       })
-      .eq('id', userId);
+      .select()
+      .single();
 
     if (error) {
-      throw new AuthError(error.message, error.message);
+      throw fromSupabaseError(error);
     }
 
-    return {
-      message: 'User banned successfully',
-    };
+    const { error: authError } = await supabase.auth.admin.updateUserById(
+      userId,
+      { ban_duration: banDuration }
+    );
+
+    if (authError) {
+      // The user isn't banned, so restore the records as they were
+      await supabase.from('user_bans').delete().eq('id', ban.id);
+
+      if (lifted.length > 0) {
+        await supabase
+          .from('user_bans')
+          .update({ lifted_at: null, lifted_by: null })
+          .in('id', lifted.map(({ id }) => id));
+      }
+
+      throw fromSupabaseError(authError);
+    }
+
+    // Sign the user out everywhere instead of waiting for the access
+    // token to expire
+    const { error: revokeError } = await supabase.rpc('revoke_user_sessions', {
+      target_user_id: userId,
+    });
+
+    if (revokeError) {
+      throw fromSupabaseError(revokeError);
+    }
+
+    return success(ban, 'User banned successfully');
   } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to ban user',
-    };
+    return failure(error, 'Failed to ban user');
   }
 }
 
 /**
  * Unban User
  * 
- * Reactivates a user account. Requires admin privileges.
+ * Lifts the active ban of a user before it expires. Requires an admin
+ * with an AAL2 session. The ban record is kept for auditing.
  * 
  * @param userId - User ID to unban
  * @returns Promise with success message or error
  */
 export async function unbanUser(userId: string): Promise<ApiResponse<null>> {
   try {
-    await requireRole('admin');
+    const actor = await requireRole('admin', { aal: 'aal2' });
+
+    const supabase = await createAdminClient();
+
+    const { error: authError } = await supabase.auth.admin.updateUserById(
+      userId,
+      { ban_duration: 'none' }
+    );
+
+    if (authError) {
+      throw fromSupabaseError(authError);
+    }
 
-    const supabase = await createActionClient();
-    
     const { error } = await supabase
-      .from('users')
+      .from('user_bans')
       .update({
-        is_active: true,
-        updated_at: new Date().toISOString(),
+        lifted_at: new Date().toISOString(),
+        lifted_by: actor.id,
       })
-      .eq('id', userId);
+      .eq('user_id', userId)
+      .is('lifted_at', null);
 
     if (error) {
-      throw new AuthError(error.message, error.message);
+      throw fromSupabaseError(error);
     }
 
-    return {
-      message: 'User unbanned successfully',
-    };
+    return success(null, 'User unbanned successfully');
   } catch (error) {
-    return {
-      error: error instanceof Error ? error.message : 'Failed to unban user',
-    };
-  }
-}
-
-/**
- * Password Validation Utility
- * 
- * Validates password strength according to security best practices.
- * 
- * @param password - Password to validate
- * @returns Object with validation result and feedback
- */
-export function validatePassword(password: string): {
-  isValid: boolean;
-  errors: string[];
-  strength: 'weak' | 'medium' | 'strong';
-} {
-  const errors: string[] = [];
-  let score = 0;
-
-  // Length check
-  if (password.length < 8) {
-    errors.push('Password must be at least 8 characters long');
-  } else {
-    score += 1;
-  }
-
-  // Uppercase check
-  if (!/[A-Z]/.test(password)) {
-    errors.push('Password must contain at least one uppercase letter');
-  } else {
-    score += 1;
-  }
-
-  // Lowercase check
-  if (!/[a-z]/.test(password)) {
-    errors.push('Password must contain at least one lowercase letter');
-  } else {
-    score += 1;
-  }
-
-  // Number check
-  if (!/\d/.test(password)) {
-    errors.push('Password must contain at least one number');
-  } else {
-    score += 1;
-  }
-
-  // Special character check
-  if (!/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
-    errors.push('Password must contain at least one special character');
-  } else {
-    score += 1;
+    return failure(error, 'Failed to unban user');
   }
-
-  // Determine strength
-  let strength: 'weak' | 'medium' | 'strong' = 'weak';
-  if (score >= 4) {
-    strength = 'strong';
-  } else if (score >= 3) {
-    strength = 'medium';
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-    strength,
-  };
 }
 
 /**
  * Usage Examples:
  * 
- * 1. Sign up new user:
+ * 1. Sign up form (Client Component):
  * ```typescript
- * const result = await signUp('user@example.com', 'password123', {
- *   name: 'John Doe'
- * })
+ * import { signUp } from '@/lib/auth/server'
+ * import { initialFormState } from '@/lib/auth/utils'
  * 
- * if (result.error) {
- *   console.error(result.error)
- * } else {
- *   console.log('User created:', result.data)
- * }
+ * const [state, formAction, pending] = useActionState(signUp, initialFormState)
+ * 
+ * return <form action={formAction}>...</form>
  * ```
  * 
- * 2. Protect API route:
+ * 2. Protect API route (cookie session or a token with the scope):
  * ```typescript
- * export async function POST() {
- *   try {
- *     const user = await requireAuth()
+ * import { withAuth } from '@/lib/auth/wrappers'
+ * 
+ * // 401 without credentials, 403 if the token lacks the scope,
+ * // 422 if the body doesn't match the schema
+ * export const POST = withAuth(
+ *   async (request, { user, input }) => {
  *     // Handle authenticated request
- *   } catch (error) {
- *     return Response.json({ error: error.message }, { status: 401 })
- *   }
- * }
+ *     return success(post)
+ *   },
+ *   { scope: 'posts:write', input: createPostSchema }
+ * )
  * ```
  * 
  * 3. Check user permissions:
@@ -704,4 +795,43 @@ export function validatePassword(password: string): {
  *   bio: 'Software developer'
  * })
  * ```
+ * 
+ * 5. Suspend a user for a week:
+ * ```typescript
+ * const result = await banUser(userId, {
+ *   reason: 'Spam in comments',
+ *   expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+ * })
+ * ```
+ * 
+ * 6. Sign in as a user to reproduce a bug (admin only):
+ * ```typescript
+ * import { startImpersonation } from '@/lib/auth/impersonation'
+ * 
+ * const result = await startImpersonation(userId, {
+ *   reason: 'Support ticket #1234',
+ *   minutes: 15
+ * })
+ * if (result.ok) redirect('/dashboard')
+ * ```
+ * 
+ * 7. Restrict an action to organization admins:
+ * ```typescript
+ * const user = await requireOrgRole(organizationId, 'admin')
+ * // Manage the organization's posts
+ * ```
+ * 
+ * 8. Moderator-only Server Action (in a `"use server"` file):
+ * ```typescript
+ * import { withRoleAction } from '@/lib/auth/wrappers'
+ * 
+ * export const hidePost = withRoleAction(
+ *   'moderator',
+ *   async ({ user, input }) => {
+ *     // Hide input.postId
+ *     return success(null, 'Post hidden')
+ *   },
+ *   { input: z.object({ postId: z.uuid() }), redirect: true }
+ * )
+ * ```
  */
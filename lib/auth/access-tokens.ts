@@ -0,0 +1,162 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireAuth, requireNotImpersonating } from "@/lib/auth";
+import { generateAccessToken } from "@/lib/auth/bearer";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  fromZodError,
+  success,
+} from "@/lib/auth/errors";
+import {
+  type CreateAccessTokenInput,
+  createAccessTokenSchema,
+} from "@/lib/auth/schemas";
+import { recordSecurityEvent } from "@/lib/auth/security-events";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { ApiResponse, PersonalAccessToken } from "@/types/supabase";
+
+/**
+ * Personal Access Tokens
+ *
+ * Server Actions behind `/settings/tokens`. Users create tokens for
+ * scripts and integrations, each limited to a set of scopes and
+ * optionally expiring. The plain token is returned once by
+ * `createAccessToken`; afterwards only its prefix is known.
+ *
+ * How tokens authenticate requests is described in `@/lib/auth/bearer`.
+ */
+
+/**
+ * Token details safe to show, without the hash
+ */
+type AccessTokenSummary = Omit<PersonalAccessToken, "token_hash">;
+
+/**
+ * List Access Tokens
+ *
+ * Returns the current user's tokens, newest first, including expired
+ * ones.
+ *
+ * @returns Promise with tokens or error
+ */
+export async function listAccessTokens(): Promise<
+  ApiResponse<AccessTokenSummary[]>
+> {
+  try {
+    const user = await requireAuth();
+    const admin = await createAdminClient();
+
+    const { data, error } = await admin
+      .from("personal_access_tokens")
+      .select(
+        "id, user_id, name, token_prefix, scopes, expires_at, last_used_at, created_at",
+      )
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(data);
+  } catch (error) {
+    return failure(error, "Failed to load access tokens");
+  }
+}
+
+/**
+ * Create Access Token
+ *
+ * @param input - Name, scopes and lifetime in days (`null` for no expiry)
+ * @returns Promise with the plain token, shown to the user once, or error
+ */
+export async function createAccessToken(
+  input: CreateAccessTokenInput,
+): Promise<ApiResponse<{ token: string }>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+
+    const parsed = createAccessTokenSchema.safeParse(input);
+    if (!parsed.success) {
+      throw fromZodError(parsed.error);
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data;
+    const { token, tokenHash, tokenPrefix } = generateAccessToken();
+
+    const admin = await createAdminClient();
+    const { error } = await admin.from("personal_access_tokens").insert({
+      user_id: user.id,
+      name,
+      token_hash: tokenHash,
+      token_prefix: tokenPrefix,
+      scopes,
+      expires_at: expiresInDays
+        ? new Date(
+            Date.now() + expiresInDays * 24 * 60 * 60 * 1000,
+          ).toISOString()
+        : null,
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    await recordSecurityEvent(user.id, "access_token_created", {
+      token: name,
+    });
+    revalidatePath("/settings/tokens");
+
+    return success({ token }, "Access token created");
+  } catch (error) {
+    return failure(error, "Failed to create access token");
+  }
+}
+
+/**
+ * Revoke Access Token
+ *
+ * Deletes one of the current user's tokens. Requests using it fail
+ * immediately.
+ *
+ * @param tokenId - Token to revoke
+ * @returns Promise with success message or error
+ */
+export async function revokeAccessToken(
+  tokenId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const admin = await createAdminClient();
+
+    const { data: revoked, error } = await admin
+      .from("personal_access_tokens")
+      .delete()
+      .eq("id", tokenId)
+      .eq("user_id", user.id)
+      .select("name")
+      .maybeSingle();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (!revoked) {
+      throw new AuthError("Access token not found", "NOT_FOUND");
+    }
+
+    await recordSecurityEvent(user.id, "access_token_revoked", {
+      token: revoked.name,
+    });
+    revalidatePath("/settings/tokens");
+
+    return success(null, "Access token revoked");
+  } catch (error) {
+    return failure(error, "Failed to revoke access token");
+  }
+}
@@ -0,0 +1,145 @@
+import type { CookieMethodsServer } from "@supabase/ssr";
+import type {
+  Provider,
+  SignOutScope,
+  SupabaseClient,
+  User,
+} from "@supabase/supabase-js";
+import type { AppClaims } from "@/lib/auth/claims";
+import { createMemoryAuthAdapter } from "@/lib/auth/memory-adapter";
+import { createSupabaseAuthAdapter } from "@/lib/auth/supabase-adapter";
+import { env } from "@/lib/env";
+import type { AssuranceLevel, Database } from "@/types/supabase";
+
+/**
+ * Auth Adapter
+ *
+ * The sign-up, sign-in, session, OAuth and password reset calls behind
+ * `@/lib/auth`, `@/lib/auth/server`, `/auth/callback` and middleware go
+ * through an `AuthAdapter`, so they can run without a Supabase project:
+ *
+ * - `supabase`: Supabase Auth, the default
+ * - `memory`: users and one-time codes in process memory, with a seeded
+ *   account per role (see `@/lib/auth/memory-adapter`). Selected with
+ *   `AUTH_ADAPTER=memory`, the default when `NODE_ENV=test`. Refuses to
+ *   run in production.
+ *
+ * An adapter is bound to the cookies of one request: the server uses
+ * `next/headers`, middleware the request and response. Methods throw
+ * `AuthError`.
+ *
+ * Everything else (profiles, MFA, passkeys, organizations, admin tools)
+ * still talks to Supabase directly.
+ *
+ * This file is used by middleware and must stay Edge compatible.
+ */
+
+export type AuthAdapterName = "supabase" | "memory";
+
+/**
+ * The signed-in user as seen by middleware and the auth helpers
+ */
+export interface AuthAdapterSession {
+  user: User;
+  /** Role and account status from the access token */
+  claims: AppClaims | null;
+  sessionId: string | null;
+  currentLevel: AssuranceLevel | null;
+  nextLevel: AssuranceLevel | null;
+}
+
+export interface AuthAdapter {
+  readonly name: AuthAdapterName;
+
+  /**
+   * Creates an account. `user` is null when the address is already
+   * registered; the caller must not reveal that. `hasSession` is false
+   * while the email still needs to be confirmed.
+   */
+  signUp(input: {
+    email: string;
+    password: string;
+    name: string | null;
+    /** Link in the confirmation email */
+    emailRedirectTo: string;
+  }): Promise<{ user: User | null; hasSession: boolean }>;
+
+  /** Signs in with email and password and stores the session */
+  signInWithPassword(input: { email: string; password: string }): Promise<User>;
+
+  /**
+   * Reads the session of the request, or null when signed out
+   *
+   * @param options - `refreshStaleClaims` renews the access token when
+   * the role changed since it was issued; only where cookies can be
+   * written (middleware)
+   */
+  getSession(options?: {
+    refreshStaleClaims?: boolean;
+  }): Promise<AuthAdapterSession | null>;
+
+  /**
+   * Starts an OAuth sign-in and returns the provider URL to open. The
+   * provider returns to `redirectTo` (`/auth/callback`) with a `code`.
+   */
+  getOAuthSignInUrl(input: {
+    provider: Provider;
+    redirectTo: string;
+  }): Promise<string>;
+
+  /** Turns the `code` of an OAuth or email link into a session */
+  exchangeCodeForSession(code: string): Promise<User>;
+
+  /**
+   * Emails a password reset link to `redirectTo` (`/auth/callback`).
+   * Resolves for unknown addresses too.
+   */
+  sendPasswordReset(input: {
+    email: string;
+    redirectTo: string;
+  }): Promise<void>;
+
+  /** Changes the password of the signed-in user */
+  updatePassword(password: string): Promise<void>;
+
+  signOut(scope: SignOutScope): Promise<void>;
+
+  /** Records device and last-seen time for the sessions page */
+  recordSessionActivity(input: {
+    userAgent: string;
+    ip: string | null;
+  }): Promise<void>;
+}
+
+/**
+ * Returns the adapter selected by `AUTH_ADAPTER`
+ */
+export function getAuthAdapterName(): AuthAdapterName {
+  const name =
+    env.AUTH_ADAPTER ?? (env.NODE_ENV === "test" ? "memory" : "supabase");
+
+  if (name === "memory" && env.NODE_ENV === "production") {
+    throw new Error(
+      "AUTH_ADAPTER=memory is for tests and local development only",
+    );
+  }
+
+  return name;
+}
+
+/**
+ * Create Auth Adapter
+ *
+ * @param cookies - Cookies of the current request
+ * @param supabase - Existing client on the same cookies for the Supabase
+ * adapter to reuse, so its `getUser()` result is shared with other callers
+ * @returns The adapter selected by `AUTH_ADAPTER`, bound to `cookies`
+ */
+export function createAuthAdapter(
+  cookies: CookieMethodsServer,
+  supabase?: SupabaseClient<Database>,
+): AuthAdapter {
+  return getAuthAdapterName() === "memory"
+    ? createMemoryAuthAdapter(cookies)
+    : createSupabaseAuthAdapter(cookies, supabase);
+}
@@ -0,0 +1,139 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { User } from "@supabase/supabase-js";
+import { AuthError, fromSupabaseError } from "@/lib/auth/errors";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { AccessTokenScope } from "@/types/supabase";
+
+/**
+ * Personal Access Token Authentication
+ *
+ * Tokens look like `neo_pat_<43 base64url characters>` (256 random bits)
+ * and are sent as `Authorization: Bearer <token>`. Only their SHA-256
+ * hash is stored; a slow hash isn't needed for random tokens of this
+ * length. `requireAuth({ scope })` in `@/lib/auth` authenticates them.
+ *
+ * A token request carries no Supabase session, so RLS-scoped clients see
+ * it as anonymous. Handlers serving token requests query with the admin
+ * client and filter by the returned user's ID.
+ *
+ * This module is deliberately not a `"use server"` file, so tokens can't
+ * be checked from the browser.
+ */
+
+/**
+ * Prefix of every token, so leaked tokens are easy to recognize and scan
+ * for
+ */
+export const ACCESS_TOKEN_PREFIX = "neo_pat_";
+
+/**
+ * Characters of the token kept in plain text to tell tokens apart
+ */
+const ACCESS_TOKEN_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 4;
+
+/**
+ * Minimum time between two `last_used_at` updates of the same token
+ */
+const LAST_USED_INTERVAL_SECONDS = 60;
+
+/**
+ * Creates a new random token
+ *
+ * @returns The plain token to show the user once, and what to store
+ */
+export function generateAccessToken(): {
+  token: string;
+  tokenHash: string;
+  tokenPrefix: string;
+} {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  return {
+    token,
+    tokenHash: hashAccessToken(token),
+    tokenPrefix: token.slice(0, ACCESS_TOKEN_PREFIX_LENGTH),
+  };
+}
+
+export function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Reads the token from an `Authorization: Bearer` header
+ *
+ * @returns The token, or null if the request has no bearer credentials
+ */
+export function getBearerToken(headers: Headers): string | null {
+  const match = headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Authenticate Access Token
+ *
+ * Checks that the token exists, hasn't expired and grants `scope`, and
+ * records when it was used.
+ *
+ * @param token - Plain token from the request
+ * @param scope - Scope the endpoint requires
+ * @returns The token's owner
+ * @throws AuthError if the token is invalid, expired or lacks the scope
+ */
+export async function authenticateAccessToken(
+  token: string,
+  scope: AccessTokenScope,
+): Promise<User> {
+  if (!token.startsWith(ACCESS_TOKEN_PREFIX)) {
+    throw new AuthError("Invalid access token", "UNAUTHORIZED");
+  }
+
+  const admin = await createAdminClient();
+  const { data: accessToken, error } = await admin
+    .from("personal_access_tokens")
+    .select("id, user_id, scopes, expires_at, last_used_at")
+    .eq("token_hash", hashAccessToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw fromSupabaseError(error);
+  }
+
+  if (!accessToken) {
+    throw new AuthError("Invalid access token", "UNAUTHORIZED");
+  }
+
+  const now = Date.now();
+
+  if (accessToken.expires_at && Date.parse(accessToken.expires_at) <= now) {
+    throw new AuthError("Access token has expired", "UNAUTHORIZED");
+  }
+
+  if (!accessToken.scopes.includes(scope)) {
+    throw new AuthError(
+      `Access token is missing the required scope: ${scope}`,
+      "INSUFFICIENT_SCOPE",
+    );
+  }
+
+  const { data, error: userError } = await admin.auth.admin.getUserById(
+    accessToken.user_id,
+  );
+
+  if (userError || !data.user) {
+    throw new AuthError("Invalid access token", "UNAUTHORIZED");
+  }
+
+  if (
+    !accessToken.last_used_at ||
+    now - Date.parse(accessToken.last_used_at) >=
+      LAST_USED_INTERVAL_SECONDS * 1000
+  ) {
+    await admin
+      .from("personal_access_tokens")
+      .update({ last_used_at: new Date(now).toISOString() })
+      .eq("id", accessToken.id);
+  }
+
+  return data.user;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { decodeAccessToken, getAppClaims } from "@/lib/auth/claims";
+
+function token(payload: object) {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}.signature`;
+}
+
+describe("decodeAccessToken", () => {
+  it("reads the payload of a base64url token", () => {
+    const payload = {
+      sub: "user-1",
+      session_id: "session-1",
+      // Multi-byte characters and the base64url alphabet
+      user_metadata: { name: "Zoë ~~~???" },
+      app_metadata: { role: "moderator", is_active: false },
+    };
+
+    expect(decodeAccessToken(token(payload))).toEqual(payload);
+    expect(getAppClaims(decodeAccessToken(token(payload)))).toEqual({
+      role: "moderator",
+      isActive: false,
+      impersonation: null,
+    });
+  });
+
+  it("returns null for missing or malformed tokens", () => {
+    expect(decodeAccessToken(null)).toBeNull();
+    expect(decodeAccessToken("")).toBeNull();
+    expect(decodeAccessToken("not-a-jwt")).toBeNull();
+    expect(decodeAccessToken("header.%%%.signature")).toBeNull();
+    expect(decodeAccessToken("header.bm90IGpzb24.signature")).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import type { JwtPayload } from "@supabase/supabase-js";
+import type { AuthUser, UserRole } from "@/types/supabase";
+
+/**
+ * Access Token Claims
+ *
+ * The custom access token hook (`drizzle/0002_custom_access_token_hook.sql`)
+ * copies the profile role and account status into every JWT as
+ * `app_metadata.role` and `app_metadata.is_active`. Reading them from the
+ * token saves a `users` query on every request.
+ *
+ * Tokens of an admin impersonation session also carry
+ * `app_metadata.impersonated_by` and `app_metadata.impersonation_expires_at`
+ * (`drizzle/0010_impersonation_claims.sql`).
+ *
+ * Tokens keep their claims until they are refreshed. A database trigger
+ * mirrors role changes into `auth.users`, so `getUser()` returns the new
+ * values right away and `hasStaleClaims` tells middleware to refresh.
+ *
+ * This file is used by middleware and must stay Edge compatible.
+ */
+
+export interface AppClaims {
+  role: UserRole;
+  isActive: boolean;
+  /** Set while an admin is signed in as this user */
+  impersonation: ImpersonationClaims | null;
+}
+
+export interface ImpersonationClaims {
+  /** Admin who started the impersonation */
+  adminId: string;
+  /** End of the impersonation, in milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Reads the payload of an access token without checking its signature
+ *
+ * Only for a token Supabase Auth just accepted, e.g. the session token
+ * after `supabase.auth.getUser()`. Unlike `supabase.auth.getClaims()`,
+ * this never makes a network request.
+ *
+ * @param accessToken - JWT of the session
+ * @returns The payload, or null if the token is missing or malformed
+ */
+export function decodeAccessToken(
+  accessToken: string | null | undefined,
+): JwtPayload | null {
+  const payload = accessToken?.split(".")[1];
+
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the role and account status added by the access token hook
+ *
+ * @param claims - Verified JWT payload, e.g. from `decodeAccessToken`
+ * @returns The app claims, or null if the hook has not run for this token
+ */
+export function getAppClaims(
+  claims: JwtPayload | null | undefined,
+): AppClaims | null {
+  const appMetadata = claims?.app_metadata;
+
+  if (!appMetadata?.role) {
+    return null;
+  }
+
+  return {
+    role: appMetadata.role,
+    isActive: appMetadata.is_active !== false,
+    impersonation: appMetadata.impersonated_by
+      ? {
+          adminId: appMetadata.impersonated_by,
+          expiresAt: Number(appMetadata.impersonation_expires_at) * 1000,
+        }
+      : null,
+  };
+}
+
+/**
+ * Checks whether an impersonation session has reached its time limit
+ *
+ * @param claims - Claims of the current access token
+ * @param now - Time to compare against, in milliseconds
+ */
+export function isImpersonationExpired(
+  claims: AppClaims | null,
+  now = Date.now(),
+): boolean {
+  const expiresAt = claims?.impersonation?.expiresAt;
+
+  // A missing expiry (NaN) counts as expired
+  return expiresAt !== undefined && !(expiresAt > now);
+}
+
+/**
+ * Checks whether the token claims are older than the user record
+ *
+ * @param user - Fresh user from `supabase.auth.getUser()`
+ * @param claims - Claims of the current access token
+ * @returns True when the session should be refreshed
+ */
+export function hasStaleClaims(
+  user: Pick<AuthUser, "app_metadata">,
+  claims: AppClaims | null,
+): boolean {
+  // Without the hook a refresh would not add the claims either
+  if (!claims) {
+    return false;
+  }
+
+  // Only set once the role or status changed after sign-up
+  const { role, is_active: isActive } = user.app_metadata ?? {};
+
+  return (
+    (role !== undefined && role !== claims.role) ||
+    (isActive !== undefined && isActive !== claims.isActive)
+  );
+}
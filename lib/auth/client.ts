@@ -0,0 +1,212 @@
+import {
+  startAuthentication,
+  startRegistration,
+  WebAuthnError,
+} from "@simplewebauthn/browser";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  success,
+} from "@/lib/auth/errors";
+import { prepareIdentityLink } from "@/lib/auth/identities";
+import {
+  getProviderLabel,
+  isOAuthProviderEnabled,
+} from "@/lib/auth/oauth-providers";
+import {
+  getPasskeyAuthenticationOptions,
+  getPasskeyRegistrationOptions,
+  verifyPasskeyAuthentication,
+  verifyPasskeyRegistration,
+} from "@/lib/auth/passkeys";
+import { getAuthCallbackUrl } from "@/lib/auth/redirect";
+import { getOAuthSignInUrl } from "@/lib/auth/server";
+import { createClient as createBrowserClient } from "@/lib/supabase/client";
+import type { ApiFailure, ApiResponse, AuthUser } from "@/types/supabase";
+
+/**
+ * Browser Authentication Helpers
+ *
+ * Flows that need browser APIs: WebAuthn prompts, OAuth redirects and
+ * reading the session from the browser client. This file must not import
+ * anything from `@/lib/supabase/server`, otherwise `next/headers` ends up
+ * in the client bundle and the build fails.
+ *
+ * Email and password flows are Server Actions in `@/lib/auth/server`.
+ * Server-side helpers (`requireAuth`, `requireRole`, profile management)
+ * live in `@/lib/auth`.
+ *
+ * @see https://supabase.com/docs/guides/auth
+ */
+
+/**
+ * Passkey Sign In
+ *
+ * Signs in with a passkey stored on this device or a nearby phone. The
+ * browser lets the user pick any passkey registered for this site.
+ *
+ * @returns Promise with user data or error
+ */
+export async function signInWithPasskey(): Promise<ApiResponse<AuthUser>> {
+  try {
+    const options = await getPasskeyAuthenticationOptions();
+    if (!options.ok) {
+      return options;
+    }
+
+    const response = await startAuthentication({ optionsJSON: options.data });
+
+    return await verifyPasskeyAuthentication(response);
+  } catch (error) {
+    return getPasskeyFailure(error, "Failed to sign in with passkey");
+  }
+}
+
+/**
+ * Register Passkey
+ *
+ * Creates a passkey for the signed-in user on this device.
+ *
+ * @param name - Label shown in the passkey list
+ * @returns Promise with success message or error
+ */
+export async function registerPasskey(
+  name: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const options = await getPasskeyRegistrationOptions();
+    if (!options.ok) {
+      return options;
+    }
+
+    const response = await startRegistration({ optionsJSON: options.data });
+
+    return await verifyPasskeyRegistration(response, name);
+  } catch (error) {
+    return getPasskeyFailure(error, "Failed to add passkey");
+  }
+}
+
+/**
+ * Turns WebAuthn browser errors into messages users can act on
+ */
+function getPasskeyFailure(error: unknown, fallback: string): ApiFailure {
+  if (
+    error instanceof WebAuthnError &&
+    error.code === "ERROR_AUTHENTICATOR_PREVIOUSLY_REGISTERED"
+  ) {
+    return failure(
+      new AuthError(
+        "This device already has a passkey for your account",
+        "CONFLICT",
+      ),
+      fallback,
+    );
+  }
+
+  // The user dismissed the browser prompt or it timed out
+  if (error instanceof Error && error.name === "NotAllowedError") {
+    return failure(
+      new AuthError("Passkey request was cancelled or timed out", "EXPIRED"),
+      fallback,
+    );
+  }
+
+  if (error instanceof WebAuthnError) {
+    return failure(
+      new AuthError(error.message, "OPERATION_NOT_ALLOWED"),
+      fallback,
+    );
+  }
+
+  return failure(error, fallback);
+}
+
+/**
+ * MFA Challenge Check
+ *
+ * Returns true when the signed-in user has a verified authenticator but
+ * the current session has not passed the TOTP challenge yet. Call it right
+ * after a first-factor sign-in to decide whether to show `/mfa`.
+ */
+export async function needsMfaChallenge(): Promise<boolean> {
+  const supabase = createBrowserClient();
+  const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  return data?.nextLevel === "aal2" && data.currentLevel !== "aal2";
+}
+
+/**
+ * OAuth Sign In
+ *
+ * Authenticates user with OAuth provider. The provider returns to
+ * `/auth/callback`, which then opens `redirectTo`. Only providers listed
+ * in `NEXT_PUBLIC_OAUTH_PROVIDERS` are accepted. The flow is started on
+ * the server by the auth adapter (`getOAuthSignInUrl`).
+ *
+ * @param provider - OAuth provider ID (google, github, etc.)
+ * @param redirectTo - Relative path to open after authentication
+ * @returns Promise with error if any
+ */
+export async function signInWithOAuth(
+  provider: string,
+  redirectTo?: string,
+): Promise<ApiResponse<null>> {
+  const result = await getOAuthSignInUrl(provider, redirectTo);
+
+  if (!result.ok) {
+    return result;
+  }
+
+  window.location.assign(result.data.url);
+
+  return success(null, result.message);
+}
+
+/**
+ * Link OAuth Identity
+ *
+ * Adds an OAuth provider to the signed-in account. The browser goes to
+ * the provider and returns through `/auth/callback` to `redirectTo`;
+ * afterwards the user can sign in with either. Requires manual linking
+ * to be enabled in Supabase.
+ *
+ * @param provider - OAuth provider ID listed in `NEXT_PUBLIC_OAUTH_PROVIDERS`
+ * @param redirectTo - Relative path to open once the account is linked
+ * @returns Promise with error if any
+ */
+export async function linkOAuthIdentity(
+  provider: string,
+  redirectTo = "/settings/accounts",
+): Promise<ApiResponse<null>> {
+  try {
+    const check = await prepareIdentityLink(provider);
+    if (!check.ok) {
+      return check;
+    }
+
+    if (!isOAuthProviderEnabled(provider)) {
+      throw new AuthError(
+        `${getProviderLabel(provider)} accounts can't be linked`,
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const supabase = createBrowserClient();
+    const { error } = await supabase.auth.linkIdentity({
+      provider,
+      options: {
+        redirectTo: getAuthCallbackUrl(redirectTo),
+      },
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(null, `Redirecting to ${getProviderLabel(provider)}...`);
+  } catch (error) {
+    return failure(error, "Failed to link the account");
+  }
+}
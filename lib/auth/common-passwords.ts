@@ -0,0 +1,77 @@
+/**
+ * Common Passwords
+ *
+ * Offline list of the most common passwords from public breach corpora,
+ * lowercased and without trailing digits or symbols where that left a
+ * word (`password1!` is listed as `password`). `validatePassword` applies
+ * the same normalization before looking a password up, so variants such as
+ * `P@ssw0rd2024` are caught as well.
+ *
+ * Kept short on purpose, since the list ships to the browser with the
+ * strength meter. Supabase's own leaked password protection (HaveIBeenPwned)
+ * can be enabled on top of it on paid plans.
+ */
+
+const list = `
+123456 12345678 123456789 1234567890 12345 1234567 111111 000000 654321
+666666 121212 112233 123123 123321 987654321 696969 555555 777777 888888
+159753 147258369 123qwe 1q2w3e4r 1q2w3e4r5t 1qaz2wsx qwerty qwertyuiop
+qwerty123 qwer asdf asdfgh asdfghjkl zxcvbn zxcvbnm qazwsx 1qazxsw2 azerty
+password passw0rd pass passwort passwd pass123 pa55word letmein welcome
+welcome123 admin administrator root toor login guest user default changeme
+master secret abc abcdef abcdefg abcdefgh abc123 iloveyou iloveu loveyou
+lovely love princess sunshine shadow monkey dragon football baseball
+basketball soccer hockey golf tennis superman batman spiderman pokemon
+starwars trustno1 whatever nothing freedom hello hello123 hellokitty
+michael jessica ashley jennifer michelle charlie daniel thomas jordan
+hunter hunter2 robert matthew joshua andrew anthony william george
+mustang ferrari porsche corvette harley yamaha mercedes bmw toyota honda
+killer ninja samurai warrior knight legend hero wizard magic
+cheese chocolate cookie banana orange apple cherry pepper ginger peanut
+summer winter autumn spring monday friday sunday january august october
+december november june july march april
+buster tigger maggie bailey ginger lucky molly bella daisy coco max rocky
+buddy jack jackie cooper harley oliver teddy
+computer internet google yahoo facebook twitter instagram linkedin
+microsoft apple samsung nokia iphone android windows
+qwerty1 qwertz zaq1zaq1 zaq12wsx 1a2b3c 1a2b3c4d a1b2c3 a1b2c3d4 aa123456
+q1w2e3r4 q1w2e3r4t5 1q2w3e 11111111 00000000 12341234 12344321 11223344
+1111 2222 3333 4444 5555 6666 7777 8888 9999 0000 1212 1313 2000 2020
+asdfasdf asdf1234 zxcv1234 qweasd qweasdzxc qwe123 zaq123 passpass
+secret123 test test123 testing tester demo demo123 temp temp123 sample
+access access123 letmein123 open sesame opensesame
+superstar rockstar starlight moonlight sunflower butterfly rainbow
+angel angels babygirl baby babyboy sweetie sweetheart honey darling
+forever together family friends friend happy smile
+flower flowers purple yellow silver golden diamond crystal pearl
+blue123 red123 black white green
+justin justinbieber taylor britney beyonce rihanna eminem
+liverpool chelsea arsenal barcelona realmadrid juventus manchester
+united lakers yankees cowboys steelers patriots
+jesus christ god angel heaven blessed faith grace
+matrix zombie vampire phoenix falcon eagle tiger lion panther wolf
+dolphin shark cobra viper python
+fuckyou sexy hottie
+iloveyou1 ihateyou loveme kissme
+master123 admin123 admin1 administrator1 root123 user123 guest123
+welcome1 password1 password12 password123 qwerty12 abc1234 abcd1234
+trustme believe freedom1 letmein1 monkey1 dragon1 shadow1 sunshine1
+princess1 football1 baseball1 superman1 michael1 charlie1
+zxcvbnm1 asdfghjkl1 qwertyuiop1 1qaz2wsx3edc 123abc 123qweasd
+pass1234 pass12345 mypassword mypass newpassword oldpassword
+changeit changeme1 nopassword blank empty none null undefined
+office work company business money dollar euro
+america canada england france germany italy mexico brazil russia china
+india japan london paris berlin tokyo newyork chicago boston
+college school student teacher doctor nurse
+cowboy cowgirl country music guitar piano drums singer
+gamer gaming player xbox playstation nintendo minecraft fortnite roblox
+letsgo lets goodluck goodbye thankyou please sorry
+zaqxsw qazxsw wsxedc edcrfv rfvtgb tgbyhn yhnujm
+poiuytrewq mnbvcxz lkjhgfdsa 0987654321 09876 54321 98765
+abcabc aaaaaa aaaaaaaa abababab qqqqqq zzzzzz xxxxxx
+`;
+
+export const commonPasswords: ReadonlySet<string> = new Set(
+  list.split(/\s+/).filter(Boolean),
+);
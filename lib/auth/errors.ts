@@ -0,0 +1,200 @@
+import { z } from "zod";
+import type {
+  ApiFailure,
+  ApiResponse,
+  AuthErrorCode,
+  FieldErrors,
+  FormState,
+} from "@/types/supabase";
+
+/**
+ * Authentication Errors and Responses
+ *
+ * Server actions throw `AuthError` with one of the codes of
+ * `AuthErrorCode` and turn whatever they caught into an `ApiResponse`
+ * with `failure()`. Callers branch on `ok` and `code` instead of parsing
+ * messages. `toHttpResponse` and `toFormState` present a response to API
+ * clients and to forms.
+ *
+ * Errors that aren't an `AuthError` are unexpected: their details are
+ * logged on the server and the user sees the action's fallback message.
+ *
+ * Nothing in this file may touch cookies, `window` or a Supabase client.
+ */
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public code: AuthErrorCode,
+    public fieldErrors?: FieldErrors,
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * HTTP status of each error code
+ */
+const httpStatuses: Record<AuthErrorCode, number> = {
+  UNAUTHORIZED: 401,
+  INVALID_CREDENTIALS: 401,
+  ACCOUNT_SUSPENDED: 403,
+  INSUFFICIENT_PERMISSIONS: 403,
+  INSUFFICIENT_SCOPE: 403,
+  MFA_REQUIRED: 403,
+  IMPERSONATION_RESTRICTED: 403,
+  SIGN_UP_DISABLED: 403,
+  VALIDATION_FAILED: 422,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  EXPIRED: 410,
+  OPERATION_NOT_ALLOWED: 409,
+  RATE_LIMITED: 429,
+  SERVICE_ERROR: 502,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * Error codes of Supabase Auth and PostgREST (including Postgres
+ * SQLSTATEs) that have a more specific meaning than `SERVICE_ERROR`
+ */
+const supabaseErrorCodes: Record<string, AuthErrorCode> = {
+  over_request_rate_limit: "RATE_LIMITED",
+  over_email_send_rate_limit: "RATE_LIMITED",
+  over_sms_send_rate_limit: "RATE_LIMITED",
+  invalid_credentials: "INVALID_CREDENTIALS",
+  user_banned: "ACCOUNT_SUSPENDED",
+  insufficient_aal: "MFA_REQUIRED",
+  session_not_found: "UNAUTHORIZED",
+  no_authorization: "UNAUTHORIZED",
+  bad_jwt: "UNAUTHORIZED",
+  signup_disabled: "SIGN_UP_DISABLED",
+  user_already_exists: "CONFLICT",
+  email_exists: "CONFLICT",
+  identity_already_exists: "CONFLICT",
+  weak_password: "VALIDATION_FAILED",
+  same_password: "VALIDATION_FAILED",
+  validation_failed: "VALIDATION_FAILED",
+  email_address_invalid: "VALIDATION_FAILED",
+  otp_expired: "EXPIRED",
+  flow_state_expired: "EXPIRED",
+  user_not_found: "NOT_FOUND",
+  identity_not_found: "NOT_FOUND",
+  single_identity_not_deletable: "OPERATION_NOT_ALLOWED",
+  manual_linking_disabled: "OPERATION_NOT_ALLOWED",
+  // Postgres unique violation and insufficient privilege
+  "23505": "CONFLICT",
+  "42501": "INSUFFICIENT_PERMISSIONS",
+  // PostgREST: `.single()` found no row
+  PGRST116: "NOT_FOUND",
+};
+
+/**
+ * Converts an error returned by a Supabase client into an `AuthError`,
+ * keeping its message
+ *
+ * @param error - `error` of a Supabase Auth or PostgREST result
+ */
+export function fromSupabaseError(error: {
+  message: string;
+  code?: string;
+  status?: number;
+}): AuthError {
+  const code =
+    (error.code && supabaseErrorCodes[error.code]) ||
+    (error.status === 429 ? "RATE_LIMITED" : "SERVICE_ERROR");
+
+  return new AuthError(error.message, code);
+}
+
+/**
+ * Converts failed schema validation into an `AuthError` with the
+ * messages of each field
+ *
+ * @param error - Error of a failed `safeParse`
+ * @param message - Overall message; defaults to the first issue
+ */
+export function fromZodError(error: z.ZodError, message?: string): AuthError {
+  return new AuthError(
+    message ?? error.issues[0]?.message ?? "Invalid input",
+    "VALIDATION_FAILED",
+    z.flattenError(error).fieldErrors as FieldErrors,
+  );
+}
+
+/**
+ * Successful response
+ */
+export function success<T>(data: T, message?: string): ApiResponse<T> {
+  return message === undefined
+    ? { ok: true, data }
+    : { ok: true, data, message };
+}
+
+/**
+ * Failed response for anything caught in a server action
+ *
+ * @param error - The caught error
+ * @param fallback - Message shown for unexpected errors
+ */
+export function failure(error: unknown, fallback: string): ApiFailure {
+  if (error instanceof AuthError) {
+    return {
+      ok: false,
+      code: error.code,
+      message: error.message,
+      ...(error.fieldErrors && { fieldErrors: error.fieldErrors }),
+    };
+  }
+
+  console.error(`${fallback}:`, error);
+
+  return { ok: false, code: "INTERNAL_ERROR", message: fallback };
+}
+
+/**
+ * HTTP status for an error code
+ */
+export function getHttpStatus(code: AuthErrorCode): number {
+  return httpStatuses[code];
+}
+
+/**
+ * JSON response for an API route, with the status of the error code
+ *
+ * @param response - Result to send
+ * @param init - Extra headers; a successful response defaults to 200
+ */
+export function toHttpResponse<T>(
+  response: ApiResponse<T>,
+  init: ResponseInit = {},
+): Response {
+  return Response.json(response, {
+    ...init,
+    status: response.ok ? (init.status ?? 200) : getHttpStatus(response.code),
+  });
+}
+
+/**
+ * Form state for `useActionState` forms
+ *
+ * @param response - Result of the action
+ * @param fields - Submitted non-secret values to keep in the inputs
+ */
+export function toFormState(
+  response: ApiResponse<unknown>,
+  fields?: Record<string, string>,
+): FormState {
+  if (response.ok) {
+    return { status: "success", message: response.message, fields };
+  }
+
+  return {
+    status: "error",
+    code: response.code,
+    message: response.message,
+    fieldErrors: response.fieldErrors,
+    fields,
+  };
+}
@@ -0,0 +1,179 @@
+"use server";
+
+import type { Provider } from "@supabase/supabase-js";
+import { revalidatePath } from "next/cache";
+import { requireAuth, requireNotImpersonating } from "@/lib/auth";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  success,
+} from "@/lib/auth/errors";
+import {
+  getOAuthProviders,
+  getProviderLabel,
+  isOAuthProviderEnabled,
+} from "@/lib/auth/oauth-providers";
+import { recordSecurityEvent } from "@/lib/auth/security-events";
+import { createActionClient } from "@/lib/supabase/server";
+import type { ApiResponse, LinkedIdentity } from "@/types/supabase";
+
+/**
+ * Connected Accounts
+ *
+ * Server Actions behind `/settings/accounts`. Users link OAuth providers
+ * to their existing account and sign in with any of them afterwards.
+ * Linking itself is a browser redirect (`linkOAuthIdentity` in
+ * `@/lib/auth/client`); the callback route records it in the security
+ * log. Manual linking must be enabled in the Supabase dashboard.
+ *
+ * Every account keeps at least one identity: the last one can't be
+ * unlinked, so the user can always sign in. Passkeys don't count, since
+ * Supabase needs an identity for the account itself.
+ */
+
+/**
+ * List Identities
+ *
+ * Returns the sign-in identities of the current user, and the configured
+ * OAuth providers they haven't linked yet.
+ *
+ * @returns Promise with identities and linkable providers, or error
+ */
+export async function listIdentities(): Promise<
+  ApiResponse<{ identities: LinkedIdentity[]; linkableProviders: Provider[] }>
+> {
+  try {
+    await requireAuth();
+    const supabase = await createActionClient();
+
+    const { data, error } = await supabase.auth.getUserIdentities();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    const identities = data.identities.map(
+      (identity): LinkedIdentity => ({
+        id: identity.identity_id,
+        provider: identity.provider,
+        email:
+          typeof identity.identity_data?.email === "string"
+            ? identity.identity_data.email
+            : null,
+        createdAt: identity.created_at ?? null,
+        lastSignInAt: identity.last_sign_in_at ?? null,
+      }),
+    );
+
+    const linkableProviders = getOAuthProviders().filter(
+      (provider) =>
+        !identities.some((identity) => identity.provider === provider),
+    );
+
+    return success({ identities, linkableProviders });
+  } catch (error) {
+    return failure(error, "Failed to load connected accounts");
+  }
+}
+
+/**
+ * Prepare Identity Link
+ *
+ * Checks that the current user may link `provider` before the browser
+ * is sent to it. Called by `linkOAuthIdentity`.
+ *
+ * @param provider - Provider to link
+ * @returns Promise with success or error
+ */
+export async function prepareIdentityLink(
+  provider: string,
+): Promise<ApiResponse<null>> {
+  try {
+    await requireAuth();
+    await requireNotImpersonating();
+
+    if (!isOAuthProviderEnabled(provider)) {
+      throw new AuthError(
+        `${getProviderLabel(provider)} accounts can't be linked`,
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const supabase = await createActionClient();
+    const { data, error } = await supabase.auth.getUserIdentities();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (data.identities.some((identity) => identity.provider === provider)) {
+      throw new AuthError(
+        `Your ${getProviderLabel(provider)} account is already linked`,
+        "CONFLICT",
+      );
+    }
+
+    return success(null);
+  } catch (error) {
+    return failure(error, "Failed to link the account");
+  }
+}
+
+/**
+ * Unlink Identity
+ *
+ * Removes a sign-in identity from the current user. Fails for the last
+ * remaining identity.
+ *
+ * @param identityId - Identity to unlink
+ * @returns Promise with success message or error
+ */
+export async function unlinkIdentity(
+  identityId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const supabase = await createActionClient();
+
+    const { data, error: listError } = await supabase.auth.getUserIdentities();
+
+    if (listError) {
+      throw fromSupabaseError(listError);
+    }
+
+    const identity = data.identities.find(
+      (item) => item.identity_id === identityId,
+    );
+
+    if (!identity) {
+      throw new AuthError("Connected account not found", "NOT_FOUND");
+    }
+
+    if (data.identities.length <= 1) {
+      throw new AuthError(
+        "You can't remove your only sign-in method. Link another account first.",
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const { error } = await supabase.auth.unlinkIdentity(identity);
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    await recordSecurityEvent(user.id, "oauth_unlinked", {
+      provider: identity.provider,
+    });
+    revalidatePath("/settings/accounts");
+
+    return success(
+      null,
+      `${getProviderLabel(identity.provider)} account unlinked`,
+    );
+  } catch (error) {
+    return failure(error, "Failed to unlink the account");
+  }
+}
@@ -0,0 +1,304 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { requireRole } from "@/lib/auth";
+import { getAppClaims, isImpersonationExpired } from "@/lib/auth/claims";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  success,
+} from "@/lib/auth/errors";
+import { createActionClient, createAdminClient } from "@/lib/supabase/server";
+import type { ApiResponse, Impersonation } from "@/types/supabase";
+
+/**
+ * Admin Impersonation
+ *
+ * Lets an admin sign in as another user to reproduce user-specific bugs.
+ * The admin gets a real session of the target user, created like a
+ * passkey sign-in (a magic link token generated with the service role and
+ * verified server-side), with these limits:
+ *
+ * - Starting requires an admin with an AAL2 session; admins can't be
+ *   impersonated
+ * - The session ends after at most `MAX_IMPERSONATION_MINUTES`. Middleware
+ *   enforces the limit and Supabase refuses to refresh the session
+ *   afterwards (`auth.sessions.not_after`)
+ * - `requireNotImpersonating` blocks changes to credentials and security
+ *   settings
+ * - Every impersonation is recorded in `impersonations` with its reason,
+ *   start and end
+ *
+ * The access token hook marks the session's tokens with the admin's ID
+ * (`drizzle/0010_impersonation_claims.sql`). The admin's own session is
+ * kept in an httpOnly cookie and restored by `stopImpersonation`.
+ * Impersonation sessions don't show up in the user's security log.
+ */
+
+/**
+ * Cookie holding the admin's refresh token during an impersonation
+ */
+const ADMIN_SESSION_COOKIE = "impersonation_admin_session";
+
+/**
+ * How long the admin's session can be restored, in seconds
+ */
+const ADMIN_SESSION_COOKIE_MAX_AGE = 24 * 60 * 60;
+
+const DEFAULT_IMPERSONATION_MINUTES = 30;
+const MAX_IMPERSONATION_MINUTES = 60;
+
+type ActionClient = Awaited<ReturnType<typeof createActionClient>>;
+
+/**
+ * Ends the current session and signs the browser back in as the admin
+ *
+ * @returns Whether the admin's session could be restored
+ */
+async function restoreAdminSession(
+  supabase: ActionClient,
+  refreshToken: string | undefined,
+): Promise<boolean> {
+  await supabase.auth.signOut({ scope: "local" });
+
+  if (!refreshToken) {
+    return false;
+  }
+
+  const { error } = await supabase.auth.refreshSession({
+    refresh_token: refreshToken,
+  });
+
+  return !error;
+}
+
+/**
+ * Start Impersonation
+ *
+ * Signs the current admin in as another user. Navigate to the app after
+ * it succeeds; a banner offers to exit until the time limit is reached.
+ *
+ * @param userId - User to sign in as
+ * @param options - Reason for the audit trail and duration in minutes
+ * (default 30, at most 60)
+ * @returns Promise with the audit record or error
+ */
+export async function startImpersonation(
+  userId: string,
+  options: { reason: string; minutes?: number },
+): Promise<ApiResponse<Impersonation>> {
+  try {
+    const actor = await requireRole("admin", { aal: "aal2" });
+
+    if (userId === actor.id) {
+      throw new AuthError(
+        "You cannot impersonate yourself",
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const reason = options.reason.trim();
+    if (!reason) {
+      throw new AuthError("A reason is required", "VALIDATION_FAILED");
+    }
+
+    const minutes = options.minutes ?? DEFAULT_IMPERSONATION_MINUTES;
+    if (
+      !Number.isInteger(minutes) ||
+      minutes < 1 ||
+      minutes > MAX_IMPERSONATION_MINUTES
+    ) {
+      throw new AuthError(
+        `Impersonation can last 1 to ${MAX_IMPERSONATION_MINUTES} minutes`,
+        "VALIDATION_FAILED",
+      );
+    }
+
+    const admin = await createAdminClient();
+    const { data: target } = await admin
+      .from("users")
+      .select("email, role")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (!target) {
+      throw new AuthError("User not found", "NOT_FOUND");
+    }
+
+    if (target.role === "admin") {
+      throw new AuthError(
+        "Admins cannot be impersonated",
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const supabase = await createActionClient();
+    const {
+      data: { session: adminSession },
+    } = await supabase.auth.getSession();
+
+    if (!adminSession) {
+      throw new AuthError("Authentication required", "UNAUTHORIZED");
+    }
+
+    const { data: link, error: linkError } =
+      await admin.auth.admin.generateLink({
+        type: "magiclink",
+        email: target.email,
+      });
+
+    if (linkError) {
+      throw fromSupabaseError(linkError);
+    }
+
+    // From here on the session cookies belong to the target user
+    const { error: verifyError } = await supabase.auth.verifyOtp({
+      type: "magiclink",
+      token_hash: link.properties.hashed_token,
+    });
+
+    if (verifyError) {
+      throw fromSupabaseError(verifyError);
+    }
+
+    try {
+      const { data: token } = await supabase.auth.getClaims();
+      const sessionId = token?.claims.session_id;
+
+      if (!sessionId) {
+        throw new AuthError(
+          "Impersonation session could not be created",
+          "NOT_FOUND",
+        );
+      }
+
+      const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+
+      const { data: impersonation, error } = await admin
+        .from("impersonations")
+        .insert({
+          admin_id: actor.id,
+          target_user_id: userId,
+          session_id: sessionId,
+          reason,
+          expires_at: expiresAt.toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+
+      const { error: limitError } = await admin.rpc("limit_session_lifetime", {
+        target_session_id: sessionId,
+        ends_at: expiresAt.toISOString(),
+      });
+
+      if (limitError) {
+        throw fromSupabaseError(limitError);
+      }
+
+      // Reissue the access token so it carries the impersonation claims
+      const { error: refreshError } = await supabase.auth.refreshSession();
+
+      if (refreshError) {
+        throw fromSupabaseError(refreshError);
+      }
+
+      const cookieStore = await cookies();
+      cookieStore.set(ADMIN_SESSION_COOKIE, adminSession.refresh_token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        path: "/",
+        maxAge: ADMIN_SESSION_COOKIE_MAX_AGE,
+      });
+
+      return success(impersonation, `Signed in as ${target.email}`);
+    } catch (error) {
+      await restoreAdminSession(supabase, adminSession.refresh_token);
+      throw error;
+    }
+  } catch (error) {
+    return failure(error, "Failed to start impersonation");
+  }
+}
+
+/**
+ * Ends the impersonation session, records the end in the audit trail and
+ * signs the browser back in as the admin
+ *
+ * @param options - `expiredOnly` leaves a running impersonation alone
+ */
+async function endImpersonation(options: {
+  expiredOnly: boolean;
+}): Promise<void> {
+  const supabase = await createActionClient();
+  const { data: token } = await supabase.auth.getClaims();
+  const claims = getAppClaims(token?.claims);
+
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get(ADMIN_SESSION_COOKIE)?.value;
+
+  if (!claims?.impersonation && !refreshToken) {
+    redirect("/dashboard");
+  }
+
+  if (
+    options.expiredOnly &&
+    claims?.impersonation &&
+    !isImpersonationExpired(claims)
+  ) {
+    redirect("/dashboard");
+  }
+
+  if (claims?.impersonation && token?.claims.session_id) {
+    const admin = await createAdminClient();
+    const { error } = await admin
+      .from("impersonations")
+      .update({
+        ended_at: new Date().toISOString(),
+        end_reason: isImpersonationExpired(claims) ? "expired" : "exited",
+      })
+      .eq("session_id", token.claims.session_id)
+      .is("ended_at", null);
+
+    if (error) {
+      console.error("Error ending impersonation:", error.message);
+    }
+  }
+
+  cookieStore.delete(ADMIN_SESSION_COOKIE);
+  const restored = await restoreAdminSession(supabase, refreshToken);
+
+  redirect(restored ? "/dashboard" : "/login");
+}
+
+/**
+ * Stop Impersonation
+ *
+ * Ends the impersonation session, records the end in the audit trail and
+ * signs the browser back in as the admin. Redirects to `/dashboard`, or
+ * to `/login` when the admin's session can't be restored. Can be used as
+ * a form action directly.
+ *
+ * When the session is already gone (e.g. revoked), the audit record
+ * keeps `ended_at` unset and its `expires_at` marks the end.
+ */
+export async function stopImpersonation(): Promise<void> {
+  await endImpersonation({ expiredOnly: false });
+}
+
+/**
+ * End Expired Impersonation
+ *
+ * Like `stopImpersonation`, but only once the impersonation reached its
+ * time limit; a running one just redirects to `/dashboard`. For
+ * `/auth/impersonation/end`, which any site can link to.
+ */
+export async function endExpiredImpersonation(): Promise<void> {
+  await endImpersonation({ expiredOnly: true });
+}
@@ -0,0 +1,331 @@
+import { createHash, randomBytes } from "node:crypto";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  success,
+} from "@/lib/auth/errors";
+import { sendEmail } from "@/lib/email";
+import { env } from "@/lib/env";
+import { createAdminClient } from "@/lib/supabase/server";
+import type { ApiResponse, Invitation, UserRole } from "@/types/supabase";
+
+/**
+ * Sign-up Invitations
+ *
+ * Admins invite people by email with a role for their new account. The
+ * invitee gets a link to `/signup?invite=<token>`; `signUp` redeems the
+ * token, and the account is created with the invitation's role. Each
+ * invitation works once, for its own email address, until it expires or
+ * is revoked. Only a SHA-256 hash of the token is stored.
+ *
+ * `SIGN_UP_MODE` decides who may create an account:
+ * - `open`: anyone; an invitation only assigns its role
+ * - `invite_only`: only with a valid invitation
+ * - `closed`: nobody, invitations included
+ *
+ * The checks here only cover this app's own forms. The
+ * `on_auth_user_creating` trigger enforces the mode for every new
+ * `auth.users` row, using the copy of `SIGN_UP_MODE` in `auth_settings`
+ * (`bun run db:sign-up-mode`). In `invite_only` mode it accepts an
+ * address only while `claimInvitation` has claimed its invitation and
+ * `completeInvitation` hasn't run yet.
+ *
+ * This module is deliberately not a `"use server"` file: redeeming
+ * invitations is part of `signUp` and must not be callable on its own.
+ * Call the admin functions from your own admin actions.
+ */
+
+/**
+ * Default lifetime of an invitation, in days
+ */
+const DEFAULT_INVITATION_DAYS = 7;
+
+/**
+ * Message for every unusable invitation, so tokens can't be probed
+ */
+const INVALID_INVITATION_MESSAGE = "This invitation is invalid or has expired";
+
+function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Invitation details safe to show, without the token hash
+ */
+type InvitationSummary = Omit<Invitation, "token_hash">;
+
+const INVITATION_COLUMNS =
+  "id, email, role, invited_by, expires_at, accepted_at, accepted_by, revoked_at, created_at";
+
+/**
+ * Create Invitation
+ *
+ * Invites an email address to sign up. Requires an admin with an AAL2
+ * session. Earlier pending invitations for the same address are revoked.
+ * The invite link is emailed and also returned, so it can be shared
+ * another way when no email provider is configured.
+ *
+ * @param email - Address to invite
+ * @param options - Role of the new account (default `user`) and lifetime
+ * in days (default 7)
+ * @returns Promise with the invitation and its link, or error
+ */
+export async function createInvitation(
+  email: string,
+  options: { role?: UserRole; expiresInDays?: number } = {},
+): Promise<ApiResponse<{ invitation: InvitationSummary; inviteUrl: string }>> {
+  try {
+    const actor = await requireRole("admin", { aal: "aal2" });
+
+    const parsedEmail = z
+      .string()
+      .trim()
+      .toLowerCase()
+      .email()
+      .safeParse(email);
+    if (!parsedEmail.success) {
+      throw new AuthError("Enter a valid email address", "VALIDATION_FAILED");
+    }
+
+    const expiresInDays = options.expiresInDays ?? DEFAULT_INVITATION_DAYS;
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1) {
+      throw new AuthError(
+        "Invitations must last at least one day",
+        "VALIDATION_FAILED",
+      );
+    }
+
+    const admin = await createAdminClient();
+    const { data: existingUser } = await admin
+      .from("users")
+      .select("id")
+      .eq("email", parsedEmail.data)
+      .maybeSingle();
+
+    if (existingUser) {
+      throw new AuthError(
+        "An account with this email already exists",
+        "CONFLICT",
+      );
+    }
+
+    const now = new Date();
+
+    await admin
+      .from("invitations")
+      .update({ revoked_at: now.toISOString() })
+      .eq("email", parsedEmail.data)
+      .is("accepted_at", null)
+      .is("revoked_at", null);
+
+    const token = randomBytes(32).toString("base64url");
+
+    const { data: invitation, error } = await admin
+      .from("invitations")
+      .insert({
+        email: parsedEmail.data,
+        role: options.role ?? "user",
+        invited_by: actor.id,
+        token_hash: hashInvitationToken(token),
+        expires_at: new Date(
+          now.getTime() + expiresInDays * 24 * 60 * 60 * 1000,
+        ).toISOString(),
+      })
+      .select(INVITATION_COLUMNS)
+      .single();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    const inviteUrl = `${env.NEXT_PUBLIC_APP_URL}/signup?invite=${token}`;
+
+    await sendEmail({
+      to: invitation.email,
+      subject: "You're invited to join Neo",
+      text: [
+        `${actor.email} invited you to create an account.`,
+        "",
+        `Accept the invitation: ${inviteUrl}`,
+        "",
+        `The link works once and expires on ${new Date(invitation.expires_at).toUTCString()}.`,
+      ].join("\n"),
+    });
+
+    return success(
+      { invitation, inviteUrl },
+      `Invitation sent to ${invitation.email}`,
+    );
+  } catch (error) {
+    return failure(error, "Failed to create invitation");
+  }
+}
+
+/**
+ * Revoke Invitation
+ *
+ * Withdraws a pending invitation. Requires an admin with an AAL2
+ * session.
+ *
+ * @param invitationId - Invitation to revoke
+ * @returns Promise with success message or error
+ */
+export async function revokeInvitation(
+  invitationId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    await requireRole("admin", { aal: "aal2" });
+    const admin = await createAdminClient();
+
+    const { data: revoked, error } = await admin
+      .from("invitations")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", invitationId)
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (!revoked) {
+      throw new AuthError("No pending invitation found", "NOT_FOUND");
+    }
+
+    return success(null, "Invitation revoked");
+  } catch (error) {
+    return failure(error, "Failed to revoke invitation");
+  }
+}
+
+/**
+ * List Invitations
+ *
+ * Returns every invitation, newest first. Requires the admin role.
+ *
+ * @returns Promise with invitations or error
+ */
+export async function listInvitations(): Promise<
+  ApiResponse<InvitationSummary[]>
+> {
+  try {
+    await requireRole("admin");
+    const admin = await createAdminClient();
+
+    const { data, error } = await admin
+      .from("invitations")
+      .select(INVITATION_COLUMNS)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(data);
+  } catch (error) {
+    return failure(error, "Failed to load invitations");
+  }
+}
+
+/**
+ * Find Invitation
+ *
+ * Looks up a pending invitation by its token, e.g. to prefill the
+ * sign-up form.
+ *
+ * @param token - Token from the invite link
+ * @returns The invitation's email and role, or null if it can't be used
+ */
+export async function findInvitation(
+  token: string,
+): Promise<Pick<Invitation, "email" | "role" | "expires_at"> | null> {
+  const admin = await createAdminClient();
+  const { data } = await admin
+    .from("invitations")
+    .select("email, role, expires_at")
+    .eq("token_hash", hashInvitationToken(token))
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Claim Invitation
+ *
+ * Marks the invitation as used before the account is created, so two
+ * sign-ups can't redeem the same token. Call `releaseInvitation` if the
+ * sign-up fails afterwards.
+ *
+ * @param token - Token from the invite link
+ * @param email - Normalized email address of the sign-up
+ * @returns The claimed invitation
+ * @throws AuthError if the invitation can't be used for this email
+ */
+export async function claimInvitation(
+  token: string,
+  email: string,
+): Promise<Invitation> {
+  const admin = await createAdminClient();
+  const { data: invitation, error } = await admin
+    .from("invitations")
+    .update({ accepted_at: new Date().toISOString() })
+    .eq("token_hash", hashInvitationToken(token))
+    .eq("email", email)
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw fromSupabaseError(error);
+  }
+
+  if (!invitation) {
+    throw new AuthError(INVALID_INVITATION_MESSAGE, "EXPIRED");
+  }
+
+  return invitation;
+}
+
+/**
+ * Links a claimed invitation to the account created with it
+ */
+export async function completeInvitation(
+  invitationId: string,
+  userId: string,
+): Promise<void> {
+  const admin = await createAdminClient();
+  const { error } = await admin
+    .from("invitations")
+    .update({ accepted_by: userId })
+    .eq("id", invitationId);
+
+  if (error) {
+    console.error("Error completing invitation:", error.message);
+  }
+}
+
+/**
+ * Makes a claimed invitation usable again after a failed sign-up
+ */
+export async function releaseInvitation(invitationId: string): Promise<void> {
+  const admin = await createAdminClient();
+  const { error } = await admin
+    .from("invitations")
+    .update({ accepted_at: null })
+    .eq("id", invitationId)
+    .is("accepted_by", null);
+
+  if (error) {
+    console.error("Error releasing invitation:", error.message);
+  }
+}
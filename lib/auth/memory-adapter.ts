@@ -0,0 +1,356 @@
+import type { CookieMethodsServer } from "@supabase/ssr";
+import type { User } from "@supabase/supabase-js";
+import type { AuthAdapter, AuthAdapterSession } from "@/lib/auth/adapter";
+import { AuthError } from "@/lib/auth/errors";
+import { authCookieOptions } from "@/lib/supabase/cookies";
+import type { UserRole } from "@/types/supabase";
+
+/**
+ * In-Memory Auth Adapter
+ *
+ * An `AuthAdapter` for tests and offline development. Accounts, password
+ * hashes and one-time codes live in process memory and start with one
+ * seeded account per role (`memorySeedUsers`). Nothing is sent over the
+ * network: reset emails go to `getMemoryMailbox()`, and OAuth sign-ins
+ * return straight to the callback as the seeded `user` account.
+ *
+ * The session cookie holds the signed-in user itself, unsigned, so that
+ * middleware (a separate Edge instance without this memory) can read it.
+ * That is only acceptable because `getAuthAdapterName` refuses this
+ * adapter in production.
+ *
+ * Accounts created with `signUp` are confirmed right away and vanish on
+ * restart. Every account gets AAL1 sessions; MFA is Supabase only.
+ *
+ * This file is used by middleware and must stay Edge compatible.
+ */
+
+export const MEMORY_SESSION_COOKIE = "neo-memory-session";
+
+/**
+ * Accounts every memory adapter starts with
+ */
+export const memorySeedUsers = [
+  {
+    email: "admin@example.com",
+    password: "memory-admin-password",
+    name: "Ada Admin",
+    role: "admin",
+  },
+  {
+    email: "moderator@example.com",
+    password: "memory-moderator-password",
+    name: "Mo Moderator",
+    role: "moderator",
+  },
+  {
+    email: "user@example.com",
+    password: "memory-user-password",
+    name: "Uma User",
+    role: "user",
+  },
+] as const satisfies readonly {
+  email: string;
+  password: string;
+  name: string;
+  role: UserRole;
+}[];
+
+interface MemoryUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  isActive: boolean;
+  passwordHash: string;
+  createdAt: string;
+}
+
+/**
+ * What the session cookie holds
+ */
+interface MemorySession {
+  sessionId: string;
+  user: Omit<MemoryUser, "passwordHash">;
+}
+
+/**
+ * Email the adapter would have sent
+ */
+export interface MemoryEmail {
+  to: string;
+  subject: string;
+  link: string;
+}
+
+/**
+ * Single-use code of an OAuth or email link
+ */
+interface MemoryCode {
+  userId: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+
+const users = new Map<string, MemoryUser>();
+const codes = new Map<string, MemoryCode>();
+const mailbox: MemoryEmail[] = [];
+let seeded: Promise<void> | undefined;
+
+async function hashPassword(password: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(password),
+  );
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function findByEmail(email: string): MemoryUser | undefined {
+  const normalized = email.trim().toLowerCase();
+  return Array.from(users.values()).find((user) => user.email === normalized);
+}
+
+async function addUser(input: {
+  email: string;
+  password: string;
+  name: string | null;
+  role: UserRole;
+  createdAt?: string;
+}): Promise<MemoryUser> {
+  const user: MemoryUser = {
+    id: crypto.randomUUID(),
+    email: input.email.trim().toLowerCase(),
+    name: input.name,
+    role: input.role,
+    isActive: true,
+    passwordHash: await hashPassword(input.password),
+    createdAt: input.createdAt ?? new Date().toISOString(),
+  };
+
+  users.set(user.id, user);
+  return user;
+}
+
+/**
+ * Seeded accounts predate every sign-in, so `/auth/callback` never takes
+ * an OAuth sign-in as the account's first
+ */
+const SEEDED_AT = new Date(0).toISOString();
+
+function seed(): Promise<void> {
+  seeded ??= Promise.all(
+    memorySeedUsers.map((user) => addUser({ ...user, createdAt: SEEDED_AT })),
+  ).then(() => undefined);
+
+  return seeded;
+}
+
+/**
+ * Forgets every account, code and email and restores the seeded
+ * accounts, e.g. between tests
+ */
+export async function resetMemoryAuth(): Promise<void> {
+  users.clear();
+  codes.clear();
+  mailbox.length = 0;
+  seeded = undefined;
+  await seed();
+}
+
+/**
+ * Emails sent by the memory adapter, oldest first
+ */
+export function getMemoryMailbox(): readonly MemoryEmail[] {
+  return mailbox;
+}
+
+/**
+ * Supabase-shaped user, with the role and status where the access token
+ * hook would put them
+ */
+function toUser(user: MemorySession["user"]): User {
+  return {
+    id: user.id,
+    aud: "authenticated",
+    role: "authenticated",
+    email: user.email,
+    email_confirmed_at: user.createdAt,
+    created_at: user.createdAt,
+    app_metadata: {
+      provider: "email",
+      role: user.role,
+      is_active: user.isActive,
+    },
+    user_metadata: { name: user.name },
+    identities: [],
+  };
+}
+
+function issueCode(userId: string): string {
+  const code = crypto.randomUUID();
+  codes.set(code, { userId, expiresAt: Date.now() + CODE_TTL_MS });
+  return code;
+}
+
+function withCode(url: string, code: string): string {
+  const target = new URL(url);
+  target.searchParams.set("code", code);
+  return target.toString();
+}
+
+export function createMemoryAuthAdapter(
+  cookies: CookieMethodsServer,
+): AuthAdapter {
+  const readSession = async (): Promise<MemorySession | null> => {
+    const cookie = (await cookies.getAll())?.find(
+      ({ name }) => name === MEMORY_SESSION_COOKIE,
+    );
+
+    if (!cookie?.value) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(decodeURIComponent(cookie.value)) as MemorySession;
+    } catch {
+      return null;
+    }
+  };
+
+  const writeSession = async (session: MemorySession | null) => {
+    await cookies.setAll?.([
+      {
+        name: MEMORY_SESSION_COOKIE,
+        value: session ? encodeURIComponent(JSON.stringify(session)) : "",
+        options: { ...authCookieOptions, maxAge: session ? undefined : 0 },
+      },
+    ]);
+  };
+
+  const startSession = async (user: MemoryUser): Promise<User> => {
+    if (!user.isActive) {
+      throw new AuthError("User is banned", "ACCOUNT_SUSPENDED");
+    }
+
+    const { passwordHash: _, ...sessionUser } = user;
+    await writeSession({ sessionId: crypto.randomUUID(), user: sessionUser });
+
+    return toUser(sessionUser);
+  };
+
+  const requireSession = async (): Promise<MemorySession> => {
+    const session = await readSession();
+
+    if (!session) {
+      throw new AuthError("Auth session missing!", "UNAUTHORIZED");
+    }
+
+    return session;
+  };
+
+  return {
+    name: "memory",
+
+    async signUp({ email, password, name }) {
+      await seed();
+
+      if (findByEmail(email)) {
+        return { user: null, hasSession: false };
+      }
+
+      const user = await addUser({ email, password, name, role: "user" });
+
+      return { user: await startSession(user), hasSession: true };
+    },
+
+    async signInWithPassword({ email, password }) {
+      await seed();
+      const user = findByEmail(email);
+
+      if (!user || user.passwordHash !== (await hashPassword(password))) {
+        throw new AuthError("Invalid login credentials", "INVALID_CREDENTIALS");
+      }
+
+      return startSession(user);
+    },
+
+    async getSession(): Promise<AuthAdapterSession | null> {
+      const session = await readSession();
+
+      if (!session) {
+        return null;
+      }
+
+      return {
+        user: toUser(session.user),
+        claims: {
+          role: session.user.role,
+          isActive: session.user.isActive,
+          impersonation: null,
+        },
+        sessionId: session.sessionId,
+        currentLevel: "aal1",
+        nextLevel: "aal1",
+      };
+    },
+
+    async getOAuthSignInUrl({ redirectTo }) {
+      await seed();
+      const user = findByEmail("user@example.com");
+
+      if (!user) {
+        throw new AuthError("OAuth account not found", "NOT_FOUND");
+      }
+
+      return withCode(redirectTo, issueCode(user.id));
+    },
+
+    async exchangeCodeForSession(code) {
+      const entry = codes.get(code);
+      codes.delete(code);
+      const user = entry && users.get(entry.userId);
+
+      if (!entry || entry.expiresAt <= Date.now() || !user) {
+        throw new AuthError("Invalid or expired code", "EXPIRED");
+      }
+
+      return startSession(user);
+    },
+
+    async sendPasswordReset({ email, redirectTo }) {
+      await seed();
+      const user = findByEmail(email);
+
+      if (user) {
+        mailbox.push({
+          to: user.email,
+          subject: "Reset your password",
+          link: withCode(redirectTo, issueCode(user.id)),
+        });
+      }
+    },
+
+    async updatePassword(password) {
+      const session = await requireSession();
+      const user = users.get(session.user.id);
+
+      if (!user) {
+        throw new AuthError("User not found", "NOT_FOUND");
+      }
+
+      user.passwordHash = await hashPassword(password);
+    },
+
+    async signOut() {
+      await writeSession(null);
+    },
+
+    async recordSessionActivity() {
+      // The sessions page needs Supabase
+    },
+  };
+}
@@ -0,0 +1,448 @@
+"use server";
+
+import { createHash, randomInt } from "node:crypto";
+import { requireAuth, requireNotImpersonating, requireRole } from "@/lib/auth";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  success,
+} from "@/lib/auth/errors";
+import {
+  getClientIp,
+  getRateLimitMessage,
+  type RateLimitSubject,
+  reserveRateLimitAttempt,
+  resetRateLimit,
+} from "@/lib/auth/rate-limit";
+import { recordSecurityEvent } from "@/lib/auth/security-events";
+import { createActionClient, createAdminClient } from "@/lib/supabase/server";
+import type { ApiResponse } from "@/types/supabase";
+
+/**
+ * Multi-Factor Authentication (TOTP)
+ *
+ * Server Actions for enrolling authenticator apps, passing the MFA
+ * challenge after sign-in, and recovering access with one-time codes.
+ *
+ * Flow overview:
+ * 1. `enrollTotp` creates an unverified factor and returns its QR code
+ * 2. `verifyTotpEnrollment` activates it and returns fresh recovery codes
+ * 3. After every sign-in, `verifyTotpChallenge` upgrades the session to AAL2
+ * 4. `redeemRecoveryCode` removes the user's factors when the device is lost
+ *
+ * Recovery codes are shown once and only their SHA-256 hash is stored in
+ * `mfa_recovery_codes`. That table is accessed with the service role
+ * client only: RLS is enabled without policies and `anon` and
+ * `authenticated` have no grants, so users can't plant codes of their own.
+ *
+ * Authenticator and recovery codes share the `verifyMfa` rate limit, keyed
+ * by user and IP address (`@/lib/auth/rate-limit`): a password alone must
+ * not allow unlimited guesses at the second factor.
+ *
+ * Factor changes, recovery code use and failed challenges are written to
+ * the security log (`@/lib/auth/security-events`).
+ *
+ * @see https://supabase.com/docs/guides/auth/auth-mfa
+ */
+
+/**
+ * Number of recovery codes issued per enrollment
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Alphabet without look-alike characters (0/o, 1/l/i)
+ */
+const RECOVERY_CODE_ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+
+function generateRecoveryCode(): string {
+  const chars = Array.from(
+    { length: 10 },
+    () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)],
+  ).join("");
+
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * Reserves a second-factor attempt, or throws `RATE_LIMITED` while the
+ * user is blocked. Give it back with `resetRateLimit` once it succeeds.
+ */
+async function reserveMfaAttempt(userId: string): Promise<RateLimitSubject> {
+  const subject = { userId, ip: await getClientIp() };
+  const limit = await reserveRateLimitAttempt("verifyMfa", subject);
+
+  if (limit.result.limited) {
+    throw new AuthError(getRateLimitMessage(limit.result), "RATE_LIMITED");
+  }
+
+  return subject;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Replaces all recovery codes of a user and returns the plain codes
+ */
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const admin = await createAdminClient();
+  const codes = Array.from(
+    { length: RECOVERY_CODE_COUNT },
+    generateRecoveryCode,
+  );
+
+  const { error: deleteError } = await admin
+    .from("mfa_recovery_codes")
+    .delete()
+    .eq("user_id", userId);
+
+  if (deleteError) {
+    throw fromSupabaseError(deleteError);
+  }
+
+  const { error } = await admin.from("mfa_recovery_codes").insert(
+    codes.map((code) => ({
+      user_id: userId,
+      code_hash: hashRecoveryCode(code),
+    })),
+  );
+
+  if (error) {
+    throw fromSupabaseError(error);
+  }
+
+  return codes;
+}
+
+/**
+ * Deletes every MFA factor and recovery code of a user.
+ * Supabase signs the user out everywhere when a verified factor is deleted.
+ */
+async function deleteAllFactors(userId: string): Promise<void> {
+  const admin = await createAdminClient();
+  const { data, error } = await admin.auth.admin.mfa.listFactors({ userId });
+
+  if (error) {
+    throw fromSupabaseError(error);
+  }
+
+  for (const factor of data.factors) {
+    const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({
+      id: factor.id,
+      userId,
+    });
+
+    if (deleteError) {
+      throw fromSupabaseError(deleteError);
+    }
+  }
+
+  await admin.from("mfa_recovery_codes").delete().eq("user_id", userId);
+}
+
+/**
+ * Enroll TOTP Factor
+ *
+ * Starts enrolling an authenticator app. The factor stays unverified
+ * until `verifyTotpEnrollment` succeeds. Show `qrCode` as an image and
+ * `secret` for manual entry.
+ *
+ * @param friendlyName - Label shown in the factor list
+ * @returns Promise with factor ID, QR code data URI and secret, or error
+ */
+export async function enrollTotp(friendlyName?: string): Promise<
+  ApiResponse<{
+    factorId: string;
+    qrCode: string;
+    secret: string;
+    uri: string;
+  }>
+> {
+  try {
+    await requireAuth();
+    await requireNotImpersonating();
+
+    const supabase = await createActionClient();
+
+    // Clean up abandoned enrollments so they don't pile up
+    const { data: factors } = await supabase.auth.mfa.listFactors();
+    for (const factor of factors?.all ?? []) {
+      if (factor.status === "unverified") {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: "totp",
+      friendlyName: friendlyName || `Authenticator ${Date.now()}`,
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success({
+      factorId: data.id,
+      qrCode: data.totp.qr_code,
+      secret: data.totp.secret,
+      uri: data.totp.uri,
+    });
+  } catch (error) {
+    return failure(error, "Failed to start authenticator setup");
+  }
+}
+
+/**
+ * Verify TOTP Enrollment
+ *
+ * Activates a factor created by `enrollTotp` with the first code from the
+ * authenticator app. The session is upgraded to AAL2 and a new set of
+ * recovery codes replaces any previous ones.
+ *
+ * @param factorId - Factor returned by `enrollTotp`
+ * @param code - 6-digit code from the authenticator app
+ * @returns Promise with the plain recovery codes (shown once) or error
+ */
+export async function verifyTotpEnrollment(
+  factorId: string,
+  code: string,
+): Promise<ApiResponse<{ recoveryCodes: string[] }>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const supabase = await createActionClient();
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId,
+      code,
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+    await recordSecurityEvent(user.id, "mfa_enabled");
+
+    return success({ recoveryCodes }, "Two-factor authentication enabled");
+  } catch (error) {
+    return failure(error, "Failed to verify code");
+  }
+}
+
+/**
+ * Verify TOTP Challenge
+ *
+ * Second sign-in step for users with a verified authenticator. Upgrades
+ * the current session from AAL1 to AAL2.
+ *
+ * @param code - 6-digit code from the authenticator app
+ * @returns Promise with success message or error
+ */
+export async function verifyTotpChallenge(
+  code: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    const subject = await reserveMfaAttempt(user.id);
+    const supabase = await createActionClient();
+
+    const { data: factors, error: factorsError } =
+      await supabase.auth.mfa.listFactors();
+
+    if (factorsError) {
+      throw fromSupabaseError(factorsError);
+    }
+
+    const factor = factors.totp[0];
+    if (!factor) {
+      throw new AuthError(
+        "No authenticator app is set up",
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId: factor.id,
+      code,
+    });
+
+    if (error) {
+      await recordSecurityEvent(user.id, "sign_in_failed", {
+        method: "authenticator",
+      });
+      throw fromSupabaseError(error);
+    }
+
+    await resetRateLimit("verifyMfa", subject);
+
+    return success(null, "Verified successfully");
+  } catch (error) {
+    return failure(error, "Failed to verify code");
+  }
+}
+
+/**
+ * Unenroll Factor
+ *
+ * Removes one of the current user's factors. Supabase requires an AAL2
+ * session to remove a verified factor. Recovery codes are deleted together
+ * with the last factor.
+ *
+ * @param factorId - Factor to remove
+ * @returns Promise with success message or error
+ */
+export async function unenrollFactor(
+  factorId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const supabase = await createActionClient();
+
+    const { error } = await supabase.auth.mfa.unenroll({ factorId });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    await recordSecurityEvent(user.id, "mfa_disabled");
+
+    const { data: factors } = await supabase.auth.mfa.listFactors();
+    if (factors && factors.totp.length === 0) {
+      const admin = await createAdminClient();
+      await admin.from("mfa_recovery_codes").delete().eq("user_id", user.id);
+    }
+
+    return success(null, "Authenticator removed");
+  } catch (error) {
+    return failure(error, "Failed to remove authenticator");
+  }
+}
+
+/**
+ * Regenerate Recovery Codes
+ *
+ * Invalidates all existing recovery codes and issues a new set.
+ * Requires an AAL2 session.
+ *
+ * @returns Promise with the plain recovery codes (shown once) or error
+ */
+export async function regenerateRecoveryCodes(): Promise<
+  ApiResponse<{ recoveryCodes: string[] }>
+> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const supabase = await createActionClient();
+
+    const { data: assurance } =
+      await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (assurance?.currentLevel !== "aal2") {
+      throw new AuthError(
+        "Multi-factor authentication required",
+        "MFA_REQUIRED",
+      );
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+    await recordSecurityEvent(user.id, "recovery_codes_regenerated");
+
+    return success({ recoveryCodes }, "New recovery codes generated");
+  } catch (error) {
+    return failure(error, "Failed to generate recovery codes");
+  }
+}
+
+/**
+ * Redeem Recovery Code
+ *
+ * Lets a signed-in (AAL1) user who lost their authenticator back in.
+ * The code is marked as used and all of the user's factors are removed,
+ * which ends their sessions. The user signs in again with their password
+ * and should set up a new authenticator right away.
+ *
+ * @param code - One of the recovery codes issued at enrollment
+ * @returns Promise with success message or error
+ */
+export async function redeemRecoveryCode(
+  code: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const subject = await reserveMfaAttempt(user.id);
+    const admin = await createAdminClient();
+
+    // One conditional update, so parallel requests can't redeem the same
+    // code twice
+    const { data: recoveryCode, error } = await admin
+      .from("mfa_recovery_codes")
+      .update({ used_at: new Date().toISOString() })
+      .eq("user_id", user.id)
+      .eq("code_hash", hashRecoveryCode(code))
+      .is("used_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (!recoveryCode) {
+      await recordSecurityEvent(user.id, "sign_in_failed", {
+        method: "recovery_code",
+      });
+      throw new AuthError(
+        "Invalid or already used recovery code",
+        "INVALID_CREDENTIALS",
+      );
+    }
+
+    await resetRateLimit("verifyMfa", subject);
+    await deleteAllFactors(user.id);
+    await recordSecurityEvent(user.id, "recovery_code_used");
+    await recordSecurityEvent(user.id, "mfa_disabled");
+
+    const supabase = await createActionClient();
+    await supabase.auth.signOut({ scope: "local" });
+
+    return success(
+      null,
+      "Recovery code accepted. Sign in again and set up a new authenticator.",
+    );
+  } catch (error) {
+    return failure(error, "Failed to redeem recovery code");
+  }
+}
+
+/**
+ * Reset User Factors
+ *
+ * Removes every MFA factor and recovery code of another user, e.g. after
+ * they lost both their device and their recovery codes. Requires an admin
+ * with an AAL2 session. The user is signed out everywhere.
+ *
+ * @param userId - User whose factors should be removed
+ * @returns Promise with success message or error
+ */
+export async function resetUserFactors(
+  userId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const admin = await requireRole("admin", { aal: "aal2" });
+    await deleteAllFactors(userId);
+    await recordSecurityEvent(userId, "mfa_disabled", {
+      resetBy: admin.email,
+    });
+
+    return success(null, "Two-factor authentication reset");
+  } catch (error) {
+    return failure(error, "Failed to reset two-factor authentication");
+  }
+}
@@ -0,0 +1,86 @@
+import type { Provider } from "@supabase/supabase-js";
+import { env } from "@/lib/env";
+
+/**
+ * OAuth Providers
+ *
+ * Which OAuth providers the app offers is configured with
+ * `NEXT_PUBLIC_OAUTH_PROVIDERS`, a comma-separated list of Supabase
+ * provider IDs (e.g. `google,github`). Each provider must also be enabled
+ * in the Supabase dashboard. The list drives the sign-in buttons and the
+ * providers users can link on `/settings/accounts`; anything else is
+ * rejected by `signInWithOAuth` and `linkOAuthIdentity`.
+ *
+ * This file is used by browser and server code, so it must not import
+ * from `@/lib/supabase/server`.
+ */
+
+/**
+ * Display names of every provider Supabase supports
+ */
+const providerLabels: Record<Provider, string> = {
+  apple: "Apple",
+  azure: "Microsoft",
+  bitbucket: "Bitbucket",
+  discord: "Discord",
+  facebook: "Facebook",
+  figma: "Figma",
+  fly: "Fly.io",
+  github: "GitHub",
+  gitlab: "GitLab",
+  google: "Google",
+  kakao: "Kakao",
+  keycloak: "Keycloak",
+  linkedin: "LinkedIn",
+  linkedin_oidc: "LinkedIn",
+  notion: "Notion",
+  slack: "Slack",
+  slack_oidc: "Slack",
+  spotify: "Spotify",
+  twitch: "Twitch",
+  twitter: "X (Twitter)",
+  workos: "WorkOS",
+  zoom: "Zoom",
+};
+
+/**
+ * Checks whether `provider` is a provider ID Supabase knows
+ */
+export function isOAuthProvider(provider: string): provider is Provider {
+  return Object.hasOwn(providerLabels, provider);
+}
+
+/**
+ * Returns the configured OAuth providers, in configuration order.
+ * Unknown IDs are skipped.
+ */
+export function getOAuthProviders(): Provider[] {
+  return env.NEXT_PUBLIC_OAUTH_PROVIDERS.filter(isOAuthProvider);
+}
+
+/**
+ * Checks whether `provider` is one of the configured OAuth providers
+ */
+export function isOAuthProviderEnabled(provider: string): provider is Provider {
+  return getOAuthProviders().some((enabled) => enabled === provider);
+}
+
+/**
+ * Display name of a provider, e.g. "GitHub" for `github`. Also accepts
+ * `email` and `phone`, the identities Supabase creates for those sign-ins.
+ */
+export function getProviderLabel(provider: string): string {
+  if (isOAuthProvider(provider)) {
+    return providerLabels[provider];
+  }
+
+  if (provider === "email") {
+    return "Email";
+  }
+
+  if (provider === "phone") {
+    return "Phone";
+  }
+
+  return provider;
+}
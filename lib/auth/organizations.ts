@@ -0,0 +1,755 @@
+"use server";
+
+import { createHash, randomBytes } from "node:crypto";
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import { requireAuth, requireOrgRole } from "@/lib/auth";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  fromZodError,
+  success,
+} from "@/lib/auth/errors";
+import {
+  type CreateOrganizationInput,
+  createOrganizationSchema,
+  type InviteOrgMemberInput,
+  inviteOrgMemberSchema,
+} from "@/lib/auth/schemas";
+import { sendEmail } from "@/lib/email";
+import { env } from "@/lib/env";
+import { createActionClient, createAdminClient } from "@/lib/supabase/server";
+import type {
+  ApiResponse,
+  Organization,
+  OrgInvitation,
+  OrgRole,
+} from "@/types/supabase";
+
+/**
+ * Organizations
+ *
+ * Server Actions behind `/settings/organizations`. Users create
+ * organizations, invite people by email and manage their members' roles:
+ * - `owner`: everything, including granting ownership and leaving only
+ *   after handing it over
+ * - `admin`: invite and remove members, manage every organization post
+ * - `member`: see the organization and its posts, write posts
+ *
+ * The organization the user works in is kept in a cookie and validated
+ * against their memberships on every read. Posts with an
+ * `organization_id` belong to the organization; the RLS policies in
+ * `drizzle/0014_organization_policies.sql` limit them to its members.
+ *
+ * Membership changes go through the service role after the checks
+ * below, so an organization always keeps at least one owner.
+ */
+
+const ACTIVE_ORGANIZATION_COOKIE = "active_organization";
+
+const ACTIVE_ORGANIZATION_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Lifetime of an organization invitation, in days
+ */
+const ORG_INVITATION_DAYS = 7;
+
+/**
+ * An organization together with the current user's role in it
+ */
+export type OrganizationWithRole = Organization & { role: OrgRole };
+
+/**
+ * A member of an organization with their profile
+ */
+export type OrgMember = {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: OrgRole;
+  joinedAt: string;
+};
+
+/**
+ * Invitation details safe to show, without the token hash
+ */
+type OrgInvitationSummary = Omit<OrgInvitation, "token_hash">;
+
+const ORG_INVITATION_COLUMNS =
+  "id, organization_id, email, role, invited_by, expires_at, accepted_at, accepted_by, revoked_at, created_at";
+
+function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function slugify(name: string): string {
+  return name
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+}
+
+async function setActiveOrganizationCookie(
+  organizationId: string,
+): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(ACTIVE_ORGANIZATION_COOKIE, organizationId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: ACTIVE_ORGANIZATION_MAX_AGE,
+  });
+}
+
+/**
+ * Throws if a change would leave the organization without an owner
+ */
+async function assertAnotherOwner(
+  organizationId: string,
+  userId: string,
+): Promise<void> {
+  const admin = await createAdminClient();
+  const { count, error } = await admin
+    .from("memberships")
+    .select("id", { count: "exact", head: true })
+    .eq("organization_id", organizationId)
+    .eq("role", "owner")
+    .neq("user_id", userId);
+
+  if (error) {
+    throw fromSupabaseError(error);
+  }
+
+  if (!count) {
+    throw new AuthError(
+      "An organization needs at least one owner. Make someone else an owner first.",
+      "OPERATION_NOT_ALLOWED",
+    );
+  }
+}
+
+/**
+ * List Organizations
+ *
+ * Returns the organizations the current user belongs to, by name.
+ *
+ * @returns Promise with organizations and the user's role in each, or
+ * error
+ */
+export async function listOrganizations(): Promise<
+  ApiResponse<OrganizationWithRole[]>
+> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createActionClient();
+
+    const { data, error } = await supabase
+      .from("memberships")
+      .select("role, organization:organizations(*)")
+      .eq("user_id", user.id);
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    const organizations = data
+      .map(({ role, organization }) => ({ ...organization, role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return success(organizations);
+  } catch (error) {
+    return failure(error, "Failed to load organizations");
+  }
+}
+
+/**
+ * Get Active Organization
+ *
+ * Returns the organization selected with `switchOrganization`, or the
+ * user's first organization when none is selected or they have left it.
+ *
+ * @returns Promise with the organization, or null if the user has none
+ */
+export async function getActiveOrganization(): Promise<OrganizationWithRole | null> {
+  const result = await listOrganizations();
+
+  if (!result.ok || result.data.length === 0) {
+    return null;
+  }
+
+  const organizations = result.data;
+
+  const cookieStore = await cookies();
+  const activeId = cookieStore.get(ACTIVE_ORGANIZATION_COOKIE)?.value;
+
+  return (
+    organizations.find((organization) => organization.id === activeId) ??
+    organizations[0]
+  );
+}
+
+/**
+ * Create Organization
+ *
+ * Creates an organization with the current user as its owner and makes
+ * it the active one.
+ *
+ * @param input - Name, and a slug derived from the name if omitted
+ * @returns Promise with the new organization's ID, or error
+ */
+export async function createOrganization(
+  input: CreateOrganizationInput,
+): Promise<ApiResponse<{ id: string }>> {
+  try {
+    await requireAuth();
+
+    const parsed = createOrganizationSchema.safeParse({
+      ...input,
+      slug: input.slug || slugify(input.name ?? "") || undefined,
+    });
+    if (!parsed.success) {
+      throw fromZodError(parsed.error);
+    }
+
+    const { name, slug } = parsed.data;
+    if (!slug) {
+      throw new AuthError(
+        "Enter a slug for the organization",
+        "VALIDATION_FAILED",
+      );
+    }
+
+    const supabase = await createActionClient();
+    const { data: id, error } = await supabase.rpc("create_organization", {
+      org_name: name,
+      org_slug: slug,
+    });
+
+    if (error) {
+      // Unique violation on organizations.slug
+      if (error.code === "23505") {
+        throw new AuthError("This slug is already taken", "CONFLICT");
+      }
+      throw fromSupabaseError(error);
+    }
+
+    await setActiveOrganizationCookie(id);
+    revalidatePath("/settings", "layout");
+
+    return success({ id }, `Created ${name}`);
+  } catch (error) {
+    return failure(error, "Failed to create organization");
+  }
+}
+
+/**
+ * Switch Organization
+ *
+ * Makes one of the user's organizations the active one.
+ *
+ * @param organizationId - Organization to switch to
+ * @returns Promise with success message or error
+ */
+export async function switchOrganization(
+  organizationId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    await requireOrgRole(organizationId, "member");
+    await setActiveOrganizationCookie(organizationId);
+    revalidatePath("/", "layout");
+
+    return success(null, "Organization switched");
+  } catch (error) {
+    return failure(error, "Failed to switch organization");
+  }
+}
+
+/**
+ * List Organization Members
+ *
+ * Returns the members of an organization, owners first. Requires
+ * membership.
+ *
+ * @param organizationId - Organization to list
+ * @returns Promise with members or error
+ */
+export async function listOrgMembers(
+  organizationId: string,
+): Promise<ApiResponse<OrgMember[]>> {
+  try {
+    await requireOrgRole(organizationId, "member");
+    const admin = await createAdminClient();
+
+    const { data, error } = await admin
+      .from("memberships")
+      .select("user_id, role, created_at, user:users(email, name)")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    const roleOrder: Record<OrgRole, number> = {
+      owner: 0,
+      admin: 1,
+      member: 2,
+    };
+
+    const members = data
+      .map(
+        (membership): OrgMember => ({
+          userId: membership.user_id,
+          email: membership.user.email,
+          name: membership.user.name,
+          role: membership.role,
+          joinedAt: membership.created_at,
+        }),
+      )
+      .sort((a, b) => roleOrder[a.role] - roleOrder[b.role]);
+
+    return success(members);
+  } catch (error) {
+    return failure(error, "Failed to load members");
+  }
+}
+
+/**
+ * Update Member Role
+ *
+ * Changes a member's role. Requires the admin role; granting or taking
+ * away ownership requires the owner role.
+ *
+ * @param organizationId - Organization of the member
+ * @param userId - Member to change
+ * @param role - New role
+ * @returns Promise with success message or error
+ */
+export async function updateMemberRole(
+  organizationId: string,
+  userId: string,
+  role: OrgRole,
+): Promise<ApiResponse<null>> {
+  try {
+    await requireOrgRole(organizationId, "admin");
+    const admin = await createAdminClient();
+
+    const { data: membership, error: membershipError } = await admin
+      .from("memberships")
+      .select("role")
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (membershipError) {
+      throw fromSupabaseError(membershipError);
+    }
+
+    if (!membership) {
+      throw new AuthError("Member not found", "NOT_FOUND");
+    }
+
+    if (membership.role === role) {
+      return success(null, "Role unchanged");
+    }
+
+    if (role === "owner" || membership.role === "owner") {
+      await requireOrgRole(organizationId, "owner");
+    }
+
+    if (membership.role === "owner") {
+      await assertAnotherOwner(organizationId, userId);
+    }
+
+    const { error } = await admin
+      .from("memberships")
+      .update({ role })
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId);
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    revalidatePath("/settings/organizations");
+
+    return success(null, "Role updated");
+  } catch (error) {
+    return failure(error, "Failed to update role");
+  }
+}
+
+/**
+ * Remove Member
+ *
+ * Removes a member from an organization. Members may remove themselves
+ * (leave); removing others requires the admin role, and removing an
+ * owner the owner role. The last owner can't leave.
+ *
+ * @param organizationId - Organization of the member
+ * @param userId - Member to remove
+ * @returns Promise with success message or error
+ */
+export async function removeMember(
+  organizationId: string,
+  userId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const actor = await requireOrgRole(organizationId, "member");
+    const isSelf = actor.id === userId;
+
+    if (!isSelf) {
+      await requireOrgRole(organizationId, "admin");
+    }
+
+    const admin = await createAdminClient();
+    const { data: membership, error: membershipError } = await admin
+      .from("memberships")
+      .select("role")
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (membershipError) {
+      throw fromSupabaseError(membershipError);
+    }
+
+    if (!membership) {
+      throw new AuthError("Member not found", "NOT_FOUND");
+    }
+
+    if (membership.role === "owner") {
+      if (!isSelf) {
+        await requireOrgRole(organizationId, "owner");
+      }
+      await assertAnotherOwner(organizationId, userId);
+    }
+
+    const { error } = await admin
+      .from("memberships")
+      .delete()
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId);
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    revalidatePath("/settings", "layout");
+
+    return success(
+      null,
+      isSelf ? "You left the organization" : "Member removed",
+    );
+  } catch (error) {
+    return failure(error, "Failed to remove member");
+  }
+}
+
+/**
+ * Invite to Organization
+ *
+ * Invites an email address to join an organization. Requires the admin
+ * role; inviting an owner requires the owner role. Earlier pending
+ * invitations for the same address are revoked. The invite link is
+ * emailed and also returned, so it can be shared another way when no
+ * email provider is configured.
+ *
+ * The invitee signs in (or signs up) with the invited address and
+ * accepts at `/settings/organizations/join`.
+ *
+ * @param organizationId - Organization to invite to
+ * @param input - Email address and role
+ * @returns Promise with the invite link, or error
+ */
+export async function inviteToOrganization(
+  organizationId: string,
+  input: InviteOrgMemberInput,
+): Promise<ApiResponse<{ inviteUrl: string }>> {
+  try {
+    const actor = await requireOrgRole(organizationId, "admin");
+
+    const parsed = inviteOrgMemberSchema.safeParse(input);
+    if (!parsed.success) {
+      throw fromZodError(parsed.error);
+    }
+
+    const { email, role } = parsed.data;
+    if (role === "owner") {
+      await requireOrgRole(organizationId, "owner");
+    }
+
+    const admin = await createAdminClient();
+    const { data: organization, error: organizationError } = await admin
+      .from("organizations")
+      .select("name")
+      .eq("id", organizationId)
+      .single();
+
+    if (organizationError) {
+      throw fromSupabaseError(organizationError);
+    }
+
+    const { data: existingMember } = await admin
+      .from("memberships")
+      .select("id, user:users!inner(email)")
+      .eq("organization_id", organizationId)
+      .eq("user.email", email)
+      .maybeSingle();
+
+    if (existingMember) {
+      throw new AuthError(
+        `${email} is already a member of ${organization.name}`,
+        "CONFLICT",
+      );
+    }
+
+    const now = new Date();
+
+    await admin
+      .from("org_invitations")
+      .update({ revoked_at: now.toISOString() })
+      .eq("organization_id", organizationId)
+      .eq("email", email)
+      .is("accepted_at", null)
+      .is("revoked_at", null);
+
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = new Date(
+      now.getTime() + ORG_INVITATION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const { error } = await admin.from("org_invitations").insert({
+      organization_id: organizationId,
+      email,
+      role,
+      invited_by: actor.id,
+      token_hash: hashInvitationToken(token),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    const inviteUrl = `${env.NEXT_PUBLIC_APP_URL}/settings/organizations/join?token=${token}`;
+
+    await sendEmail({
+      to: email,
+      subject: `Join ${organization.name} on Neo`,
+      text: [
+        `${actor.email} invited you to join ${organization.name} as ${role}.`,
+        "",
+        `Accept the invitation: ${inviteUrl}`,
+        "",
+        `Sign in with ${email} to accept. The link works once and expires on ${expiresAt.toUTCString()}.`,
+      ].join("\n"),
+    });
+
+    revalidatePath("/settings/organizations");
+
+    return success({ inviteUrl }, `Invitation sent to ${email}`);
+  } catch (error) {
+    return failure(error, "Failed to send invitation");
+  }
+}
+
+/**
+ * List Organization Invitations
+ *
+ * Returns the pending invitations of an organization, newest first.
+ * Requires the admin role.
+ *
+ * @param organizationId - Organization to list
+ * @returns Promise with invitations or error
+ */
+export async function listOrgInvitations(
+  organizationId: string,
+): Promise<ApiResponse<OrgInvitationSummary[]>> {
+  try {
+    await requireOrgRole(organizationId, "admin");
+    const admin = await createAdminClient();
+
+    const { data, error } = await admin
+      .from("org_invitations")
+      .select(ORG_INVITATION_COLUMNS)
+      .eq("organization_id", organizationId)
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(data);
+  } catch (error) {
+    return failure(error, "Failed to load invitations");
+  }
+}
+
+/**
+ * Revoke Organization Invitation
+ *
+ * Withdraws a pending invitation. Requires the admin role.
+ *
+ * @param organizationId - Organization of the invitation
+ * @param invitationId - Invitation to revoke
+ * @returns Promise with success message or error
+ */
+export async function revokeOrgInvitation(
+  organizationId: string,
+  invitationId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    await requireOrgRole(organizationId, "admin");
+    const admin = await createAdminClient();
+
+    const { data: revoked, error } = await admin
+      .from("org_invitations")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", invitationId)
+      .eq("organization_id", organizationId)
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (!revoked) {
+      throw new AuthError("No pending invitation found", "NOT_FOUND");
+    }
+
+    revalidatePath("/settings/organizations");
+
+    return success(null, "Invitation revoked");
+  } catch (error) {
+    return failure(error, "Failed to revoke invitation");
+  }
+}
+
+/**
+ * Find Organization Invitation
+ *
+ * Looks up a pending invitation by its token, to show what the user is
+ * about to join.
+ *
+ * @param token - Token from the invite link
+ * @returns Promise with the organization name, invited email and role,
+ * or error
+ */
+export async function findOrgInvitation(token: string): Promise<
+  ApiResponse<{
+    organizationName: string;
+    email: string;
+    role: OrgRole;
+  }>
+> {
+  try {
+    await requireAuth();
+    const admin = await createAdminClient();
+
+    const { data: invitation } = await admin
+      .from("org_invitations")
+      .select("email, role, organization:organizations(name)")
+      .eq("token_hash", hashInvitationToken(token))
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (!invitation) {
+      throw new AuthError(
+        "This invitation is invalid or has expired",
+        "EXPIRED",
+      );
+    }
+
+    return success({
+      organizationName: invitation.organization.name,
+      email: invitation.email,
+      role: invitation.role,
+    });
+  } catch (error) {
+    return failure(error, "Failed to load invitation");
+  }
+}
+
+/**
+ * Accept Organization Invitation
+ *
+ * Joins the organization with the invitation's role and makes it the
+ * active one. The signed-in user's email must match the invitation.
+ * Existing members keep their role.
+ *
+ * @param token - Token from the invite link
+ * @returns Promise with the organization ID, or error
+ */
+export async function acceptOrgInvitation(
+  token: string,
+): Promise<ApiResponse<{ organizationId: string }>> {
+  try {
+    const user = await requireAuth();
+    const admin = await createAdminClient();
+
+    const { data: invitation, error } = await admin
+      .from("org_invitations")
+      .update({
+        accepted_at: new Date().toISOString(),
+        accepted_by: user.id,
+      })
+      .eq("token_hash", hashInvitationToken(token))
+      .eq("email", user.email?.toLowerCase() ?? "")
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .select("organization_id, role")
+      .maybeSingle();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (!invitation) {
+      throw new AuthError(
+        `This invitation is invalid, has expired or was sent to another address than ${user.email}`,
+        "EXPIRED",
+      );
+    }
+
+    const { error: membershipError } = await admin.from("memberships").upsert(
+      {
+        organization_id: invitation.organization_id,
+        user_id: user.id,
+        role: invitation.role,
+      },
+      { onConflict: "organization_id,user_id", ignoreDuplicates: true },
+    );
+
+    if (membershipError) {
+      await admin
+        .from("org_invitations")
+        .update({ accepted_at: null, accepted_by: null })
+        .eq("token_hash", hashInvitationToken(token));
+      throw fromSupabaseError(membershipError);
+    }
+
+    await setActiveOrganizationCookie(invitation.organization_id);
+    revalidatePath("/settings", "layout");
+
+    return success(
+      { organizationId: invitation.organization_id },
+      "Invitation accepted",
+    );
+  } catch (error) {
+    return failure(error, "Failed to accept invitation");
+  }
+}
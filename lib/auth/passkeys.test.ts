@@ -0,0 +1,443 @@
+import {
+  createHash,
+  createSign,
+  generateKeyPairSync,
+  randomBytes,
+  randomUUID,
+} from "node:crypto";
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { isoBase64URL, isoCBOR } from "@simplewebauthn/server/helpers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  deletePasskey,
+  getPasskeyAuthenticationOptions,
+  getPasskeyRegistrationOptions,
+  listPasskeys,
+  renamePasskey,
+  verifyPasskeyAuthentication,
+  verifyPasskeyRegistration,
+} from "@/lib/auth/passkeys";
+
+const ORIGIN = "https://app.example.com";
+
+const {
+  admin,
+  cookieJar,
+  currentUser,
+  passkeys,
+  recordSecurityEvent,
+  verifyOtp,
+} = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  const passkeys: Row[] = [];
+
+  /**
+   * Minimal PostgREST query: filters are collected synchronously and
+   * the query runs when it is awaited
+   */
+  const query = (run: (rows: Row[]) => unknown) => {
+    const filters: [string, unknown][] = [];
+    const matching = () =>
+      passkeys.filter((row) =>
+        filters.every(([column, value]) => row[column] === value),
+      );
+    const result = Promise.resolve().then(() => ({
+      data: run(matching()),
+      error: null,
+    }));
+
+    return Object.assign(result, {
+      eq(column: string, value: unknown) {
+        filters.push([column, value]);
+        return this;
+      },
+      order() {
+        return this;
+      },
+      async maybeSingle() {
+        return { data: matching()[0] ?? null, error: null };
+      },
+    });
+  };
+
+  const currentUser = {
+    id: "user-1",
+    email: "user@example.com",
+    user_metadata: { name: "Uma User" },
+  };
+
+  return {
+    passkeys,
+    currentUser,
+    cookieJar: new Map<string, string>(),
+    recordSecurityEvent: vi.fn(async () => {}),
+    verifyOtp: vi.fn(async () => ({
+      data: { user: currentUser },
+      error: null,
+    })),
+    admin: {
+      from: () => ({
+        select: () => query((rows) => rows),
+        insert: async (row: Row) => {
+          passkeys.push({
+            id: randomUUID(),
+            created_at: new Date().toISOString(),
+            last_used_at: null,
+            ...row,
+          });
+          return { error: null };
+        },
+        update: (changes: Row) =>
+          query((rows) => rows.map((row) => Object.assign(row, changes))),
+        delete: () =>
+          query((rows) => {
+            for (const row of rows) {
+              passkeys.splice(passkeys.indexOf(row), 1);
+            }
+            return rows;
+          }),
+      }),
+      auth: {
+        admin: {
+          getUserById: async (id: string) => ({
+            data: { user: { id, email: currentUser.email } },
+            error: null,
+          }),
+          generateLink: async () => ({
+            data: { properties: { hashed_token: "hashed-token" } },
+            error: null,
+          }),
+        },
+      },
+    },
+  };
+});
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) =>
+      cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined,
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: async () => currentUser,
+  requireNotImpersonating: async () => {},
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => admin,
+  createActionClient: async () => ({ auth: { verifyOtp } }),
+}));
+
+vi.mock("@/lib/auth/security-events", () => ({ recordSecurityEvent }));
+
+vi.mock("@/lib/env", () => ({
+  env: { NEXT_PUBLIC_APP_URL: "https://app.example.com" },
+}));
+
+function toBase64URL(bytes: Uint8Array) {
+  return Buffer.from(bytes).toString("base64url");
+}
+
+/**
+ * Software authenticator: one P-256 credential that answers WebAuthn
+ * ceremonies the way a browser and platform authenticator would
+ */
+function createAuthenticator(origin = ORIGIN) {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  const jwk = publicKey.export({ format: "jwk" });
+  const credentialId = toBase64URL(randomBytes(16));
+  const rpIdHash = createHash("sha256")
+    .update(new URL(origin).hostname)
+    .digest();
+  let counter = 0;
+
+  const clientData = (type: string, challenge: string) =>
+    Buffer.from(
+      JSON.stringify({ type, challenge, origin, crossOrigin: false }),
+    );
+
+  const authenticatorData = (flags: number, extra = Buffer.alloc(0)) => {
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(++counter);
+    return Buffer.concat([rpIdHash, Buffer.from([flags]), signCount, extra]);
+  };
+
+  return {
+    credentialId,
+
+    register(challenge: string): RegistrationResponseJSON {
+      const rawId = isoBase64URL.toBuffer(credentialId);
+      const coseKey = isoCBOR.encode(
+        new Map<number, number | Uint8Array>([
+          [1, 2], // EC2
+          [3, -7], // ES256
+          [-1, 1], // P-256
+          [-2, isoBase64URL.toBuffer(jwk.x as string)],
+          [-3, isoBase64URL.toBuffer(jwk.y as string)],
+        ]),
+      );
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(rawId.length);
+
+      // User present, user verified, attested credential data
+      const authData = authenticatorData(
+        0x45,
+        Buffer.concat([Buffer.alloc(16), idLength, rawId, coseKey]),
+      );
+      const attestationObject = isoCBOR.encode(
+        new Map<string, string | Map<never, never> | Uint8Array>([
+          ["fmt", "none"],
+          ["attStmt", new Map<never, never>()],
+          ["authData", authData],
+        ]),
+      );
+
+      return {
+        id: credentialId,
+        rawId: credentialId,
+        type: "public-key",
+        response: {
+          clientDataJSON: toBase64URL(clientData("webauthn.create", challenge)),
+          attestationObject: toBase64URL(attestationObject),
+          transports: ["internal"],
+        },
+        clientExtensionResults: {},
+      };
+    },
+
+    authenticate(
+      challenge: string,
+      signWith = privateKey,
+    ): AuthenticationResponseJSON {
+      const clientDataJSON = clientData("webauthn.get", challenge);
+      const authData = authenticatorData(0x05);
+      const signature = createSign("sha256")
+        .update(
+          Buffer.concat([
+            authData,
+            createHash("sha256").update(clientDataJSON).digest(),
+          ]),
+        )
+        .sign(signWith);
+
+      return {
+        id: credentialId,
+        rawId: credentialId,
+        type: "public-key",
+        response: {
+          clientDataJSON: toBase64URL(clientDataJSON),
+          authenticatorData: toBase64URL(authData),
+          signature: toBase64URL(signature),
+          userHandle: isoBase64URL.fromUTF8String(currentUser.id),
+        },
+        clientExtensionResults: {},
+      };
+    },
+  };
+}
+
+async function registrationChallenge() {
+  const options = await getPasskeyRegistrationOptions();
+  if (!options.ok) throw new Error(options.message);
+  return options.data.challenge;
+}
+
+async function authenticationChallenge() {
+  const options = await getPasskeyAuthenticationOptions();
+  if (!options.ok) throw new Error(options.message);
+  return options.data.challenge;
+}
+
+async function register(
+  authenticator: ReturnType<typeof createAuthenticator>,
+  name = "Laptop",
+) {
+  const response = authenticator.register(await registrationChallenge());
+  return verifyPasskeyRegistration(response, name);
+}
+
+beforeEach(() => {
+  passkeys.length = 0;
+  cookieJar.clear();
+  vi.clearAllMocks();
+
+  // Failed verifications are logged as unexpected errors
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("passkey registration", () => {
+  it("stores the credential of a software authenticator", async () => {
+    const authenticator = createAuthenticator();
+
+    expect(await register(authenticator, "  Laptop  ")).toMatchObject({
+      ok: true,
+    });
+    expect(passkeys).toHaveLength(1);
+    expect(passkeys[0]).toMatchObject({
+      user_id: currentUser.id,
+      name: "Laptop",
+      credential_id: authenticator.credentialId,
+      transports: ["internal"],
+    });
+  });
+
+  it("uses the challenge only once", async () => {
+    const authenticator = createAuthenticator();
+    const response = authenticator.register(await registrationChallenge());
+
+    expect((await verifyPasskeyRegistration(response, "Laptop")).ok).toBe(true);
+    expect(await verifyPasskeyRegistration(response, "Again")).toMatchObject({
+      ok: false,
+      code: "EXPIRED",
+    });
+    expect(passkeys).toHaveLength(1);
+  });
+
+  it("rejects a response for another challenge", async () => {
+    await registrationChallenge();
+    const response = createAuthenticator().register(
+      toBase64URL(randomBytes(32)),
+    );
+
+    expect((await verifyPasskeyRegistration(response, "Laptop")).ok).toBe(
+      false,
+    );
+    expect(passkeys).toHaveLength(0);
+  });
+
+  it("rejects a response from another origin", async () => {
+    const response = createAuthenticator("https://evil.example.com").register(
+      await registrationChallenge(),
+    );
+
+    expect((await verifyPasskeyRegistration(response, "Laptop")).ok).toBe(
+      false,
+    );
+    expect(passkeys).toHaveLength(0);
+  });
+
+  it("excludes the user's existing credentials", async () => {
+    const authenticator = createAuthenticator();
+    await register(authenticator);
+
+    const options = await getPasskeyRegistrationOptions();
+
+    expect(options.ok && options.data.excludeCredentials).toEqual([
+      {
+        id: authenticator.credentialId,
+        transports: ["internal"],
+        type: "public-key",
+      },
+    ]);
+  });
+});
+
+describe("passkey sign-in", () => {
+  it("signs in with a registered passkey", async () => {
+    const authenticator = createAuthenticator();
+    await register(authenticator);
+
+    const result = await verifyPasskeyAuthentication(
+      authenticator.authenticate(await authenticationChallenge()),
+    );
+
+    expect(result).toMatchObject({ ok: true, data: { id: currentUser.id } });
+    expect(verifyOtp).toHaveBeenCalledWith({
+      type: "magiclink",
+      token_hash: "hashed-token",
+    });
+    expect(passkeys[0].counter).toBe(2);
+    expect(passkeys[0].last_used_at).not.toBeNull();
+    expect(recordSecurityEvent).toHaveBeenCalledWith(
+      currentUser.id,
+      "sign_in",
+      { method: "passkey", passkey: "Laptop" },
+    );
+  });
+
+  it("rejects an assertion signed with another key", async () => {
+    const authenticator = createAuthenticator();
+    await register(authenticator);
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+    const result = await verifyPasskeyAuthentication(
+      authenticator.authenticate(await authenticationChallenge(), privateKey),
+    );
+
+    expect(result.ok).toBe(false);
+    expect(verifyOtp).not.toHaveBeenCalled();
+  });
+
+  it("rejects an assertion for another challenge", async () => {
+    const authenticator = createAuthenticator();
+    await register(authenticator);
+    await authenticationChallenge();
+
+    const result = await verifyPasskeyAuthentication(
+      authenticator.authenticate(toBase64URL(randomBytes(32))),
+    );
+
+    expect(result.ok).toBe(false);
+    expect(verifyOtp).not.toHaveBeenCalled();
+  });
+
+  it("rejects credentials that were never registered", async () => {
+    const result = await verifyPasskeyAuthentication(
+      createAuthenticator().authenticate(await authenticationChallenge()),
+    );
+
+    expect(result).toMatchObject({ ok: false, code: "NOT_FOUND" });
+  });
+});
+
+describe("passkey management", () => {
+  it("renames a passkey and requires a name", async () => {
+    await register(createAuthenticator());
+    const id = passkeys[0].id as string;
+
+    expect((await renamePasskey(id, "  Work phone ")).ok).toBe(true);
+    expect(passkeys[0].name).toBe("Work phone");
+
+    expect(await renamePasskey(id, "   ")).toMatchObject({
+      ok: false,
+      code: "VALIDATION_FAILED",
+    });
+    expect(passkeys[0].name).toBe("Work phone");
+  });
+
+  it("leaves the passkeys of other users alone", async () => {
+    await register(createAuthenticator());
+    passkeys[0].user_id = "user-2";
+    const id = passkeys[0].id as string;
+
+    await renamePasskey(id, "Mine now");
+    await deletePasskey(id);
+
+    expect(passkeys).toHaveLength(1);
+    expect(passkeys[0].name).toBe("Laptop");
+  });
+
+  it("can no longer sign in with a revoked passkey", async () => {
+    const authenticator = createAuthenticator();
+    await register(authenticator);
+
+    expect((await deletePasskey(passkeys[0].id as string)).ok).toBe(true);
+    expect(await listPasskeys()).toMatchObject({ ok: true, data: [] });
+
+    const result = await verifyPasskeyAuthentication(
+      authenticator.authenticate(await authenticationChallenge()),
+    );
+
+    expect(result).toMatchObject({ ok: false, code: "NOT_FOUND" });
+    expect(verifyOtp).not.toHaveBeenCalled();
+  });
+});
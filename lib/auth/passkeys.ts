@@ -0,0 +1,434 @@
+"use server";
+
+import {
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import { isoBase64URL, isoUint8Array } from "@simplewebauthn/server/helpers";
+import { cookies } from "next/headers";
+import { requireAuth, requireNotImpersonating } from "@/lib/auth";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  success,
+} from "@/lib/auth/errors";
+import { recordSecurityEvent } from "@/lib/auth/security-events";
+import { env } from "@/lib/env";
+import { createActionClient, createAdminClient } from "@/lib/supabase/server";
+import type { ApiResponse, AuthUser, Passkey } from "@/types/supabase";
+
+/**
+ * Passkeys (WebAuthn)
+ *
+ * Server Actions for registering, managing and signing in with passkeys.
+ * The browser side lives in `registerPasskey` and `signInWithPasskey` in
+ * `@/lib/auth/client`, which call these actions around the WebAuthn
+ * ceremony.
+ *
+ * Supabase Auth has no native passkey support, so a verified assertion is
+ * turned into a regular Supabase session by generating a magic link token
+ * with the service role and verifying it server-side. The resulting session
+ * behaves exactly like a password session (AAL1).
+ *
+ * Credentials are stored in `passkeys`, which only the service role can
+ * read or write (RLS without policies). Sign-in trusts the stored public
+ * key, so users must never be able to insert rows themselves.
+ *
+ * The relying party is derived from `NEXT_PUBLIC_APP_URL`. Attestation is
+ * not requested and user verification is only preferred, so software and
+ * virtual authenticators (e.g. Chrome DevTools / Playwright CDP
+ * `WebAuthn.addVirtualAuthenticator`) work in CI against localhost. The
+ * unit tests run both ceremonies against a software authenticator.
+ *
+ * @see https://simplewebauthn.dev/docs/packages/server
+ */
+
+/**
+ * Cookie holding the pending WebAuthn challenge between the two steps
+ */
+const CHALLENGE_COOKIE = "passkey_challenge";
+
+/**
+ * How long a challenge stays valid, in seconds
+ */
+const CHALLENGE_TTL_SECONDS = 300;
+
+function getRelyingParty() {
+  const appUrl = new URL(env.NEXT_PUBLIC_APP_URL);
+
+  return {
+    rpID: appUrl.hostname,
+    rpName: "Neo",
+    origin: appUrl.origin,
+  };
+}
+
+async function storeChallenge(challenge: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(CHALLENGE_COOKIE, challenge, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/",
+    maxAge: CHALLENGE_TTL_SECONDS,
+  });
+}
+
+async function consumeChallenge(): Promise<string> {
+  const cookieStore = await cookies();
+  const challenge = cookieStore.get(CHALLENGE_COOKIE)?.value;
+  cookieStore.delete(CHALLENGE_COOKIE);
+
+  if (!challenge) {
+    throw new AuthError(
+      "Passkey request expired. Please try again.",
+      "EXPIRED",
+    );
+  }
+
+  return challenge;
+}
+
+/**
+ * List Passkeys
+ *
+ * Returns the current user's passkeys without key material.
+ *
+ * @returns Promise with passkeys or error
+ */
+export async function listPasskeys(): Promise<
+  ApiResponse<Pick<Passkey, "id" | "name" | "created_at" | "last_used_at">[]>
+> {
+  try {
+    const user = await requireAuth();
+    const admin = await createAdminClient();
+
+    const { data, error } = await admin
+      .from("passkeys")
+      .select("id, name, created_at, last_used_at")
+      .eq("user_id", user.id)
+      .order("created_at");
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(data);
+  } catch (error) {
+    return failure(error, "Failed to load passkeys");
+  }
+}
+
+/**
+ * Passkey Registration Options
+ *
+ * First step of registering a passkey for the signed-in user. Existing
+ * credentials are excluded so the same authenticator isn't added twice.
+ *
+ * @returns Promise with options for `startRegistration`, or error
+ */
+export async function getPasskeyRegistrationOptions(): Promise<
+  ApiResponse<PublicKeyCredentialCreationOptionsJSON>
+> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const admin = await createAdminClient();
+    const { rpID, rpName } = getRelyingParty();
+
+    const { data: existing } = await admin
+      .from("passkeys")
+      .select("credential_id, transports")
+      .eq("user_id", user.id);
+
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userName: user.email,
+      userID: isoUint8Array.fromUTF8String(user.id),
+      userDisplayName: user.user_metadata?.name ?? user.email,
+      attestationType: "none",
+      excludeCredentials: (existing ?? []).map((passkey) => ({
+        id: passkey.credential_id,
+        transports: (passkey.transports ?? undefined) as
+          | AuthenticatorTransportFuture[]
+          | undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "preferred",
+      },
+    });
+
+    await storeChallenge(options.challenge);
+
+    return success(options);
+  } catch (error) {
+    return failure(error, "Failed to start passkey registration");
+  }
+}
+
+/**
+ * Verify Passkey Registration
+ *
+ * Second step of registering a passkey. Verifies the authenticator's
+ * response against the stored challenge and saves the credential.
+ *
+ * @param response - Result of `startRegistration`
+ * @param name - Label for the passkey
+ * @returns Promise with success message or error
+ */
+export async function verifyPasskeyRegistration(
+  response: RegistrationResponseJSON,
+  name: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const expectedChallenge = await consumeChallenge();
+    const { rpID, origin } = getRelyingParty();
+
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+    });
+
+    if (!verification.verified) {
+      throw new AuthError(
+        "Passkey could not be verified",
+        "INVALID_CREDENTIALS",
+      );
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    const admin = await createAdminClient();
+    const { error } = await admin.from("passkeys").insert({
+      user_id: user.id,
+      name: name.trim().slice(0, 100) || "Passkey",
+      credential_id: credential.id,
+      public_key: isoBase64URL.fromBuffer(credential.publicKey),
+      counter: credential.counter,
+      transports: credential.transports ?? null,
+      device_type: credentialDeviceType,
+      backed_up: credentialBackedUp,
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(null, "Passkey added");
+  } catch (error) {
+    return failure(error, "Failed to add passkey");
+  }
+}
+
+/**
+ * Rename Passkey
+ *
+ * @param passkeyId - Passkey to rename
+ * @param name - New label
+ * @returns Promise with success message or error
+ */
+export async function renamePasskey(
+  passkeyId: string,
+  name: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const admin = await createAdminClient();
+
+    const trimmed = name.trim().slice(0, 100);
+    if (!trimmed) {
+      throw new AuthError("Name is required", "VALIDATION_FAILED");
+    }
+
+    const { error } = await admin
+      .from("passkeys")
+      .update({ name: trimmed })
+      .eq("id", passkeyId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(null, "Passkey renamed");
+  } catch (error) {
+    return failure(error, "Failed to rename passkey");
+  }
+}
+
+/**
+ * Delete Passkey
+ *
+ * Revokes one of the current user's passkeys. The credential stays on the
+ * device but can no longer be used to sign in.
+ *
+ * @param passkeyId - Passkey to revoke
+ * @returns Promise with success message or error
+ */
+export async function deletePasskey(
+  passkeyId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    const user = await requireAuth();
+    await requireNotImpersonating();
+    const admin = await createAdminClient();
+
+    const { error } = await admin
+      .from("passkeys")
+      .delete()
+      .eq("id", passkeyId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(null, "Passkey removed");
+  } catch (error) {
+    return failure(error, "Failed to remove passkey");
+  }
+}
+
+/**
+ * Passkey Authentication Options
+ *
+ * First step of signing in with a passkey. No user is known yet, so the
+ * browser offers every discoverable credential for this site.
+ *
+ * @returns Promise with options for `startAuthentication`, or error
+ */
+export async function getPasskeyAuthenticationOptions(): Promise<
+  ApiResponse<PublicKeyCredentialRequestOptionsJSON>
+> {
+  try {
+    const { rpID } = getRelyingParty();
+
+    const options = await generateAuthenticationOptions({
+      rpID,
+      userVerification: "preferred",
+    });
+
+    await storeChallenge(options.challenge);
+
+    return success(options);
+  } catch (error) {
+    return failure(error, "Failed to start passkey sign-in");
+  }
+}
+
+/**
+ * Verify Passkey Authentication
+ *
+ * Second step of signing in with a passkey. Verifies the assertion,
+ * updates the signature counter and creates a Supabase session cookie.
+ *
+ * @param response - Result of `startAuthentication`
+ * @returns Promise with user data or error
+ */
+export async function verifyPasskeyAuthentication(
+  response: AuthenticationResponseJSON,
+): Promise<ApiResponse<AuthUser>> {
+  try {
+    const expectedChallenge = await consumeChallenge();
+    const { rpID, origin } = getRelyingParty();
+    const admin = await createAdminClient();
+
+    const { data: passkey } = await admin
+      .from("passkeys")
+      .select("*")
+      .eq("credential_id", response.id)
+      .maybeSingle();
+
+    if (!passkey) {
+      throw new AuthError("This passkey is not registered", "NOT_FOUND");
+    }
+
+    const verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+      credential: {
+        id: passkey.credential_id,
+        publicKey: isoBase64URL.toBuffer(passkey.public_key),
+        counter: passkey.counter,
+        transports: (passkey.transports ?? undefined) as
+          | AuthenticatorTransportFuture[]
+          | undefined,
+      },
+    });
+
+    if (!verification.verified) {
+      await recordSecurityEvent(passkey.user_id, "sign_in_failed", {
+        method: "passkey",
+      });
+      throw new AuthError(
+        "Passkey could not be verified",
+        "INVALID_CREDENTIALS",
+      );
+    }
+
+    await admin
+      .from("passkeys")
+      .update({
+        counter: verification.authenticationInfo.newCounter,
+        last_used_at: new Date().toISOString(),
+      })
+      .eq("id", passkey.id);
+
+    // Mint a one-time token for the user and exchange it for a session
+    const { data: owner, error: ownerError } =
+      await admin.auth.admin.getUserById(passkey.user_id);
+
+    if (ownerError || !owner.user.email) {
+      throw new AuthError("Account not found", "NOT_FOUND");
+    }
+
+    const { data: link, error: linkError } =
+      await admin.auth.admin.generateLink({
+        type: "magiclink",
+        email: owner.user.email,
+      });
+
+    if (linkError) {
+      throw fromSupabaseError(linkError);
+    }
+
+    const supabase = await createActionClient();
+    const { data, error } = await supabase.auth.verifyOtp({
+      type: "magiclink",
+      token_hash: link.properties.hashed_token,
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    await recordSecurityEvent(passkey.user_id, "sign_in", {
+      method: "passkey",
+      passkey: passkey.name,
+    });
+
+    return success(data.user as AuthUser, "Signed in successfully");
+  } catch (error) {
+    return failure(error, "Failed to sign in with passkey");
+  }
+}
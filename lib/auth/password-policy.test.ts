@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  definePasswordPolicy,
+  estimateEntropy,
+  isCommonPassword,
+  validatePassword,
+} from "@/lib/auth/password-policy";
+
+const PERSONAL_INFO = "Password must not contain your name or email address";
+const TOO_COMMON =
+  "This password is too common. Choose something less predictable";
+const TOO_PREDICTABLE =
+  "Password is too predictable. Make it longer or more varied";
+
+describe("validatePassword", () => {
+  it("accepts a long varied password as strong", () => {
+    expect(validatePassword("Glacier-Tram-93!")).toMatchObject({
+      isValid: true,
+      errors: [],
+      strength: "strong",
+    });
+  });
+
+  it("rates a valid password below the strong threshold as medium", () => {
+    const check = validatePassword("Kx7!mq2Z");
+
+    expect(check.isValid).toBe(true);
+    expect(check.entropy).toBeLessThan(60);
+    expect(check.strength).toBe("medium");
+  });
+
+  it("enforces the length bounds", () => {
+    expect(validatePassword("Ab1!").errors).toContain(
+      "Password must be at least 8 characters long",
+    );
+    expect(validatePassword(`Ab1!${"x".repeat(69)}`).errors).toContain(
+      "Password must be at most 72 characters long",
+    );
+  });
+
+  it("requires every character class of the policy", () => {
+    expect(validatePassword("lowercase only").errors).toEqual(
+      expect.arrayContaining([
+        "Password must contain at least one uppercase letter",
+        "Password must contain at least one number",
+      ]),
+    );
+    expect(validatePassword("UPPERCASE-42").errors).toContain(
+      "Password must contain at least one lowercase letter",
+    );
+    expect(validatePassword("Tulip7river").errors).toContain(
+      "Password must contain at least one special character",
+    );
+  });
+
+  it("follows a custom policy", () => {
+    const policy = definePasswordPolicy({
+      minLength: 12,
+      requireSymbol: false,
+    });
+
+    expect(validatePassword("Tulip7river", {}, policy).errors).toEqual([
+      "Password must be at least 12 characters long",
+    ]);
+    expect(validatePassword("Tulip7riverbank", {}, policy).isValid).toBe(true);
+  });
+
+  it("rejects the user's name or email address", () => {
+    expect(
+      validatePassword("Doe-Tram-93!x", { email: "jane.doe@example.com" })
+        .errors,
+    ).toContain(PERSONAL_INFO);
+    expect(
+      validatePassword("Marguerite#42x", { name: "Marguerite Smith" }).errors,
+    ).toContain(PERSONAL_INFO);
+
+    // Parts shorter than three characters are ignored
+    expect(
+      validatePassword("Glacier-Tram-93!", { name: "Al Ng" }).isValid,
+    ).toBe(true);
+  });
+
+  it("rejects common passwords and their variants", () => {
+    for (const password of ["Password1!", "P@ssw0rd2024!", "Dragon#99"]) {
+      expect(validatePassword(password).errors).toContain(TOO_COMMON);
+    }
+  });
+
+  it("rejects passwords with too little entropy", () => {
+    const check = validatePassword("Aaaaaaa1!");
+
+    expect(check.entropy).toBeLessThan(40);
+    expect(check.errors).toEqual([TOO_PREDICTABLE]);
+  });
+
+  it("only rates passwords that pass every rule above weak", () => {
+    const passwords = [
+      "Glacier-Tram-93!",
+      "Kx7!mq2Z",
+      "Ab1!",
+      "P@ssw0rd2024!!",
+      "Aaaaaaa1!",
+      "Tulip7river",
+      `Ab1!${"x".repeat(69)}`,
+      "Doe-Tram-93!x",
+      // Long and varied, but common: high entropy must not make it strong
+      "Qwertyuiop123456!!",
+    ];
+
+    for (const password of passwords) {
+      const check = validatePassword(password, {
+        email: "jane.doe@example.com",
+      });
+
+      expect(check.strength === "weak").toBe(!check.isValid);
+      expect(check.errors.length === 0).toBe(check.isValid);
+    }
+  });
+});
+
+describe("estimateEntropy", () => {
+  it("grows with the character pool and the length", () => {
+    expect(estimateEntropy("")).toBe(0);
+    expect(estimateEntropy("kxqmvz")).toBeLessThan(estimateEntropy("kXqMvZ"));
+    expect(estimateEntropy("kXqMvZ")).toBeLessThan(estimateEntropy("kXqMvZ!9"));
+  });
+
+  it("adds a single bit for repeats and sequences", () => {
+    expect(estimateEntropy("aaaaaaaa")).toBe(estimateEntropy("a") + 7);
+    expect(estimateEntropy("abcdefgh")).toBe(estimateEntropy("a") + 7);
+    expect(estimateEntropy("87654321")).toBe(estimateEntropy("8") + 7);
+  });
+});
+
+describe("isCommonPassword", () => {
+  it("ignores case, suffixes and substitutions", () => {
+    expect(isCommonPassword("password")).toBe(true);
+    expect(isCommonPassword("SUNSHINE")).toBe(true);
+    expect(isCommonPassword("Summer2024!")).toBe(true);
+    expect(isCommonPassword("Monkey2024!")).toBe(true);
+    expect(isCommonPassword("Tulip2024!")).toBe(false);
+    expect(isCommonPassword("p@55w0rd")).toBe(true);
+    expect(isCommonPassword("Glacier-Tram-93!")).toBe(false);
+  });
+});
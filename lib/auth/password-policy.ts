@@ -0,0 +1,237 @@
+import { commonPasswords } from "@/lib/auth/common-passwords";
+
+/**
+ * Password Policy
+ *
+ * One policy object decides which new passwords are accepted. The sign-up
+ * and update password schemas validate against it on the server, and the
+ * strength meter shows the same rules while the user types, so the form
+ * never accepts a password the server rejects.
+ *
+ * Change `passwordPolicy` below to configure the app. This file runs in
+ * the browser too, so it must stay free of server-only imports.
+ */
+
+export interface PasswordPolicy {
+  minLength: number;
+  /** Supabase hashes passwords with bcrypt, which ignores anything past 72 bytes */
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  /** Reject passwords that contain the user's name or email address */
+  rejectPersonalInfo: boolean;
+  /** Reject passwords from the bundled common password list */
+  rejectCommon: boolean;
+  /** Minimum estimated entropy in bits */
+  minEntropy: number;
+}
+
+export const defaultPasswordPolicy: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 72,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+  rejectPersonalInfo: true,
+  rejectCommon: true,
+  minEntropy: 40,
+};
+
+/**
+ * Builds a policy from the defaults
+ *
+ * @param overrides - Rules that differ from `defaultPasswordPolicy`
+ */
+export function definePasswordPolicy(
+  overrides: Partial<PasswordPolicy> = {},
+): PasswordPolicy {
+  return { ...defaultPasswordPolicy, ...overrides };
+}
+
+/**
+ * The policy used by sign-up, password updates and the strength meter
+ */
+export const passwordPolicy = definePasswordPolicy();
+
+export type PasswordStrength = "weak" | "medium" | "strong";
+
+/**
+ * Who the password belongs to, for the personal information rule
+ */
+export interface PasswordContext {
+  email?: string | null;
+  name?: string | null;
+}
+
+export interface PasswordCheck {
+  isValid: boolean;
+  errors: string[];
+  /** `weak` whenever the password breaks a rule */
+  strength: PasswordStrength;
+  /** Estimated entropy in bits */
+  entropy: number;
+}
+
+/**
+ * Valid passwords with at least this many bits count as strong
+ */
+const STRONG_ENTROPY = 60;
+
+/**
+ * Estimated entropy in bits: the size of the character pool used, per
+ * character. Characters that repeat the previous one or continue a
+ * sequence (`aaa`, `abc`, `321`) add a single bit.
+ */
+export function estimateEntropy(password: string): number {
+  const chars = Array.from(password);
+  let pool = 0;
+
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/\d/.test(password)) pool += 10;
+  if (chars.some((char) => /[^a-zA-Z\d]/.test(char) && isAscii(char))) {
+    pool += 33;
+  }
+  if (chars.some((char) => !isAscii(char))) pool += 100;
+
+  const bitsPerChar = pool > 0 ? Math.log2(pool) : 0;
+  let bits = 0;
+
+  chars.forEach((char, index) => {
+    const previous = index > 0 ? chars[index - 1] : undefined;
+    const step = previous
+      ? Math.abs((char.codePointAt(0) ?? 0) - (previous.codePointAt(0) ?? 0))
+      : null;
+
+    bits += step !== null && step <= 1 ? 1 : bitsPerChar;
+  });
+
+  return Math.round(bits);
+}
+
+function isAscii(char: string): boolean {
+  return (char.codePointAt(0) ?? 0) < 128;
+}
+
+const leetSubstitutions: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+/**
+ * Checks a password against the bundled list, ignoring case, trailing
+ * digits and symbols (`Summer2024!`) and common substitutions (`p@ssw0rd`)
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  const stripSuffix = (value: string) => value.replace(/[^a-z]+$/, "");
+  const unLeet = (value: string) =>
+    value.replace(/[013457@$]/g, (char) => leetSubstitutions[char] ?? char);
+
+  return [
+    lower,
+    stripSuffix(lower),
+    unLeet(stripSuffix(lower)),
+    stripSuffix(unLeet(lower)),
+  ].some((candidate) => candidate && commonPasswords.has(candidate));
+}
+
+/**
+ * Name parts and email address parts of at least three characters
+ */
+function getPersonalTerms(context: PasswordContext): string[] {
+  const terms: string[] = [];
+
+  if (context.email) {
+    const [localPart] = context.email.toLowerCase().split("@");
+    terms.push(localPart, ...localPart.split(/[^a-z\d]+/));
+  }
+
+  if (context.name) {
+    terms.push(...context.name.toLowerCase().split(/\s+/));
+  }
+
+  return terms.filter((term) => term.length >= 3);
+}
+
+/**
+ * Password Validation
+ *
+ * Checks a password against a policy and scores its strength.
+ *
+ * @param password - Password to validate
+ * @param context - Email and name of the user, for the personal information rule
+ * @param policy - Policy to apply, defaults to `passwordPolicy`
+ * @returns Validation result, messages for every broken rule and strength
+ */
+export function validatePassword(
+  password: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = passwordPolicy,
+): PasswordCheck {
+  const errors: string[] = [];
+  const entropy = estimateEntropy(password);
+
+  if (password.length < policy.minLength) {
+    errors.push(
+      `Password must be at least ${policy.minLength} characters long`,
+    );
+  }
+
+  if (password.length > policy.maxLength) {
+    errors.push(`Password must be at most ${policy.maxLength} characters long`);
+  }
+
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push("Password must contain at least one uppercase letter");
+  }
+
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push("Password must contain at least one lowercase letter");
+  }
+
+  if (policy.requireNumber && !/\d/.test(password)) {
+    errors.push("Password must contain at least one number");
+  }
+
+  if (policy.requireSymbol && !/[^a-zA-Z\d]/.test(password)) {
+    errors.push("Password must contain at least one special character");
+  }
+
+  if (policy.rejectPersonalInfo) {
+    const lower = password.toLowerCase();
+    if (getPersonalTerms(context).some((term) => lower.includes(term))) {
+      errors.push("Password must not contain your name or email address");
+    }
+  }
+
+  if (policy.rejectCommon && isCommonPassword(password)) {
+    errors.push(
+      "This password is too common. Choose something less predictable",
+    );
+  } else if (errors.length === 0 && entropy < policy.minEntropy) {
+    errors.push("Password is too predictable. Make it longer or more varied");
+  }
+
+  const isValid = errors.length === 0;
+
+  return {
+    isValid,
+    errors,
+    strength: !isValid
+      ? "weak"
+      : entropy >= STRONG_ENTROPY
+        ? "strong"
+        : "medium",
+    entropy,
+  };
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  rateLimitPolicies,
+  reserveRateLimitAttempt,
+  resetRateLimit,
+  setRateLimitStore,
+} from "@/lib/auth/rate-limit";
+
+vi.mock("@/lib/env", () => ({
+  env: { NODE_ENV: "test", RATE_LIMIT_STORE: "memory" },
+}));
+
+const subject = { email: "user@example.com", ip: "203.0.113.7" };
+
+function burst(count: number) {
+  return Promise.all(
+    Array.from({ length: count }, () =>
+      reserveRateLimitAttempt("signIn", subject),
+    ),
+  );
+}
+
+describe("reserveRateLimitAttempt", () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  it("lets the free attempts through without a delay", async () => {
+    const { freeAttempts } = rateLimitPolicies.signIn;
+
+    for (let i = 0; i < freeAttempts; i++) {
+      const reservation = await reserveRateLimitAttempt("signIn", subject);
+      expect(reservation.result.limited).toBe(false);
+      expect(reservation.next.limited).toBe(false);
+    }
+
+    const delayed = await reserveRateLimitAttempt("signIn", subject);
+    expect(delayed.result.limited).toBe(false);
+    expect(delayed.next).toEqual({
+      limited: true,
+      retryAfter: 1,
+      locked: false,
+    });
+  });
+
+  it("stops a parallel burst at the first delay", async () => {
+    const reservations = await burst(20);
+    const accepted = reservations.filter(({ result }) => !result.limited);
+
+    // The free attempts plus the one that earned the first delay
+    expect(accepted).toHaveLength(rateLimitPolicies.signIn.freeAttempts + 1);
+  });
+
+  it("locks the key once the limit is reached", async () => {
+    const { maxAttempts, lockoutSeconds } = rateLimitPolicies.signIn;
+    vi.useFakeTimers();
+
+    try {
+      // Wait out each progressive delay
+      for (let i = 1; i < maxAttempts; i++) {
+        const { result, next } = await reserveRateLimitAttempt(
+          "signIn",
+          subject,
+        );
+        expect(result.limited).toBe(false);
+        vi.advanceTimersByTime(next.limited ? next.retryAfter * 1000 : 0);
+      }
+
+      const last = await reserveRateLimitAttempt("signIn", subject);
+      expect(last.next).toEqual({
+        limited: true,
+        retryAfter: lockoutSeconds,
+        locked: true,
+      });
+
+      const rejected = await reserveRateLimitAttempt("signIn", subject);
+      expect(rejected.result).toMatchObject({ limited: true, locked: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("gives back the attempt after a success", async () => {
+    for (let i = 0; i < 4; i++) {
+      await reserveRateLimitAttempt("signIn", subject);
+    }
+    await resetRateLimit("signIn", subject);
+
+    const reservation = await reserveRateLimitAttempt("signIn", subject);
+    expect(reservation.result.limited).toBe(false);
+    expect(reservation.next.limited).toBe(false);
+  });
+
+  it("counts second-factor guesses per user", async () => {
+    const { freeAttempts } = rateLimitPolicies.verifyMfa;
+    const user = { userId: "user-1", ip: null };
+
+    const reservations = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        reserveRateLimitAttempt("verifyMfa", user),
+      ),
+    );
+
+    expect(reservations.filter(({ result }) => !result.limited)).toHaveLength(
+      freeAttempts + 1,
+    );
+
+    // Other users keep their own budget
+    const other = await reserveRateLimitAttempt("verifyMfa", {
+      userId: "user-2",
+    });
+    expect(other.result.limited).toBe(false);
+  });
+
+  it("keeps counting the IP address across email addresses", async () => {
+    const { maxAttemptsPerIp } = rateLimitPolicies.signUp;
+
+    const results = await Promise.all(
+      Array.from({ length: maxAttemptsPerIp + 5 }, (_, i) =>
+        consumeRateLimit("signUp", {
+          email: `user${i}@example.com`,
+          ip: subject.ip,
+        }),
+      ),
+    );
+
+    expect(results.filter(({ limited }) => !limited)).toHaveLength(
+      maxAttemptsPerIp,
+    );
+  });
+});
@@ -0,0 +1,572 @@
+import { createHash } from "node:crypto";
+import { eq, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+import { getRequestIp } from "@/lib/auth/utils";
+import { rateLimitsTable } from "@/lib/db/schema";
+import { env } from "@/lib/env";
+
+/**
+ * Auth Rate Limiting
+ *
+ * Throttles the auth server actions by email address, user ID and IP
+ * address. Each email address and user gets a few free attempts, then a delay that doubles
+ * with every attempt, then a lockout. IP addresses are only locked out,
+ * with a higher limit, so users behind a shared network don't slow each
+ * other down while password spraying across many accounts is still
+ * stopped.
+ *
+ * Counters live in a `RateLimitStore`. The Postgres store shares them
+ * across serverless instances; the in-memory store is meant for tests and
+ * is selected with `RATE_LIMIT_STORE=memory` (the default when
+ * `NODE_ENV=test`).
+ *
+ * Every attempt is reserved before it is made: one atomic step per key
+ * counts it and applies the block it earns, so a burst of parallel
+ * requests can't all pass before the first failure is recorded. Actions
+ * that count failures only give the attempt back when it succeeds.
+ *
+ * Email addresses are hashed before they are used as keys.
+ */
+
+export type RateLimitAction =
+  | "signIn"
+  | "signUp"
+  | "sendOtp"
+  | "verifyOtp"
+  | "verifyMfa"
+  | "passwordReset";
+
+export interface RateLimitPolicy {
+  /** Attempts per email address or user before the lockout */
+  maxAttempts: number;
+  /** Attempts per IP address before the lockout */
+  maxAttemptsPerIp: number;
+  /** Attempts per email address or user that pass without a delay */
+  freeAttempts: number;
+  /** How long attempts are counted */
+  windowSeconds: number;
+  /** How long a key stays locked once it reaches its limit */
+  lockoutSeconds: number;
+}
+
+/**
+ * Limits per action. Sign-in and code verification (one-time codes,
+ * authenticator and recovery codes) count failures only
+ * (`resetRateLimit` after a success); the actions that send email count
+ * every attempt.
+ */
+export const rateLimitPolicies: Record<RateLimitAction, RateLimitPolicy> = {
+  signIn: {
+    maxAttempts: 10,
+    maxAttemptsPerIp: 50,
+    freeAttempts: 3,
+    windowSeconds: 15 * 60,
+    lockoutSeconds: 15 * 60,
+  },
+  verifyOtp: {
+    maxAttempts: 5,
+    maxAttemptsPerIp: 30,
+    freeAttempts: 2,
+    windowSeconds: 15 * 60,
+    lockoutSeconds: 15 * 60,
+  },
+  verifyMfa: {
+    maxAttempts: 5,
+    maxAttemptsPerIp: 30,
+    freeAttempts: 2,
+    windowSeconds: 15 * 60,
+    lockoutSeconds: 15 * 60,
+  },
+  signUp: {
+    maxAttempts: 3,
+    maxAttemptsPerIp: 10,
+    freeAttempts: 1,
+    windowSeconds: 60 * 60,
+    lockoutSeconds: 60 * 60,
+  },
+  sendOtp: {
+    maxAttempts: 5,
+    maxAttemptsPerIp: 20,
+    freeAttempts: 2,
+    windowSeconds: 60 * 60,
+    lockoutSeconds: 60 * 60,
+  },
+  passwordReset: {
+    maxAttempts: 3,
+    maxAttemptsPerIp: 10,
+    freeAttempts: 1,
+    windowSeconds: 60 * 60,
+    lockoutSeconds: 60 * 60,
+  },
+};
+
+/**
+ * Counter of one key
+ */
+export interface RateLimitEntry {
+  attempts: number;
+  windowEndsAt: Date;
+  blockedUntil: Date | null;
+}
+
+/**
+ * Outcome of `RateLimitStore.reserve`
+ */
+export interface RateLimitStoreReservation {
+  entry: RateLimitEntry;
+  /** False when the key was blocked; the attempt was not counted */
+  accepted: boolean;
+}
+
+/**
+ * Storage for attempt counters
+ */
+export interface RateLimitStore {
+  /**
+   * Counts one attempt unless the key is blocked, starting a new window
+   * when the last one ended, and blocks the key for
+   * `getBlockSeconds(attempts)` seconds. Atomic per key: concurrent
+   * reservations each get their own count and see each other's blocks.
+   */
+  reserve(
+    key: string,
+    windowSeconds: number,
+    getBlockSeconds: (attempts: number) => number,
+  ): Promise<RateLimitStoreReservation>;
+  /** Takes back one counted attempt; null when the key is unknown */
+  refund(key: string): Promise<RateLimitEntry | null>;
+  /** Rejects attempts until `until`, or lifts the block with null */
+  block(key: string, until: Date | null): Promise<void>;
+  /** Forgets the key */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Who is making the attempt
+ */
+export interface RateLimitSubject {
+  email?: string;
+  /** Signed-in user, for second-factor checks */
+  userId?: string;
+  ip?: string | null;
+}
+
+export type RateLimitResult =
+  | { limited: false }
+  | {
+      limited: true;
+      /** Seconds until the next attempt is accepted */
+      retryAfter: number;
+      /** True for a lockout, false for a progressive delay */
+      locked: boolean;
+    };
+
+/**
+ * Postgres Rate Limit Store
+ *
+ * Keeps counters in the `rate_limits` table. A reservation is one upsert
+ * (`insert ... on conflict do update ... returning`) plus the block it
+ * earns, in one transaction. The upsert locks the row until the commit,
+ * so concurrent requests from different instances queue up per key.
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  // Imported lazily so the memory store works without DATABASE_URL
+  const getDb = async () => (await import("@/lib/db")).db;
+
+  return {
+    async reserve(key, windowSeconds, getBlockSeconds) {
+      const db = await getDb();
+
+      return db.transaction(async (tx) => {
+        const now = new Date();
+        const windowEndsAt = new Date(now.getTime() + windowSeconds * 1000);
+        const isBlocked = sql`coalesce(${rateLimitsTable.blockedUntil} > ${now}, false)`;
+        const windowEnded = sql`${rateLimitsTable.windowEndsAt} <= ${now}`;
+
+        const [row] = await tx
+          .insert(rateLimitsTable)
+          .values({ key, attempts: 1, windowEndsAt, updatedAt: now })
+          .onConflictDoUpdate({
+            target: rateLimitsTable.key,
+            set: {
+              attempts: sql`case when ${isBlocked} then ${rateLimitsTable.attempts} when ${windowEnded} then 1 else ${rateLimitsTable.attempts} + 1 end`,
+              windowEndsAt: sql`case when not ${isBlocked} and ${windowEnded} then ${windowEndsAt} else ${rateLimitsTable.windowEndsAt} end`,
+              updatedAt: now,
+            },
+          })
+          .returning();
+
+        if (row.blockedUntil && row.blockedUntil > now) {
+          return { entry: row, accepted: false };
+        }
+
+        const seconds = getBlockSeconds(row.attempts);
+        const blockedUntil =
+          seconds > 0 ? new Date(now.getTime() + seconds * 1000) : null;
+
+        if (blockedUntil || row.blockedUntil) {
+          await tx
+            .update(rateLimitsTable)
+            .set({ blockedUntil })
+            .where(eq(rateLimitsTable.key, key));
+        }
+
+        return { entry: { ...row, blockedUntil }, accepted: true };
+      });
+    },
+
+    async refund(key) {
+      const db = await getDb();
+      const [row] = await db
+        .update(rateLimitsTable)
+        .set({
+          attempts: sql`greatest(${rateLimitsTable.attempts} - 1, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(rateLimitsTable.key, key))
+        .returning();
+
+      return row ?? null;
+    },
+
+    async block(key, until) {
+      const db = await getDb();
+      await db
+        .update(rateLimitsTable)
+        .set({ blockedUntil: until, updatedAt: new Date() })
+        .where(eq(rateLimitsTable.key, key));
+    },
+
+    async reset(key) {
+      const db = await getDb();
+      await db.delete(rateLimitsTable).where(eq(rateLimitsTable.key, key));
+    },
+  };
+}
+
+/**
+ * In-Memory Rate Limit Store
+ *
+ * Same behavior as the Postgres store, but counters only live in this
+ * process. Use it in tests; it does not limit anything across instances.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+
+  // Each method runs without awaiting in between, which makes it atomic
+  return {
+    async reserve(key, windowSeconds, getBlockSeconds) {
+      const now = Date.now();
+      const current = entries.get(key);
+
+      if (current && (current.blockedUntil?.getTime() ?? 0) > now) {
+        return { entry: { ...current }, accepted: false };
+      }
+
+      const attempts =
+        current && current.windowEndsAt.getTime() > now
+          ? current.attempts + 1
+          : 1;
+      const seconds = getBlockSeconds(attempts);
+      const entry: RateLimitEntry = {
+        attempts,
+        windowEndsAt:
+          attempts === 1 || !current
+            ? new Date(now + windowSeconds * 1000)
+            : current.windowEndsAt,
+        blockedUntil: seconds > 0 ? new Date(now + seconds * 1000) : null,
+      };
+
+      entries.set(key, entry);
+      return { entry: { ...entry }, accepted: true };
+    },
+
+    async refund(key) {
+      const entry = entries.get(key);
+
+      if (!entry) {
+        return null;
+      }
+
+      entry.attempts = Math.max(entry.attempts - 1, 0);
+      return { ...entry };
+    },
+
+    async block(key, until) {
+      const entry = entries.get(key);
+      if (entry) {
+        entry.blockedUntil = until;
+      }
+    },
+
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+let store: RateLimitStore | undefined;
+
+/**
+ * Returns the store selected by `RATE_LIMIT_STORE`
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const driver =
+      env.RATE_LIMIT_STORE ?? (env.NODE_ENV === "test" ? "memory" : "postgres");
+
+    store =
+      driver === "memory"
+        ? createMemoryRateLimitStore()
+        : createPostgresRateLimitStore();
+  }
+
+  return store;
+}
+
+/**
+ * Replaces the store, e.g. with a fresh memory store between tests
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+interface RateLimitKey {
+  key: string;
+  limit: number;
+  /** Progressive delays apply to email and user keys only */
+  progressive: boolean;
+}
+
+function getKeys(
+  action: RateLimitAction,
+  subject: RateLimitSubject,
+): RateLimitKey[] {
+  const policy = rateLimitPolicies[action];
+  const keys: RateLimitKey[] = [];
+
+  if (subject.email) {
+    const hash = createHash("sha256")
+      .update(subject.email.trim().toLowerCase())
+      .digest("hex");
+    keys.push({
+      key: `${action}:email:${hash}`,
+      limit: policy.maxAttempts,
+      progressive: true,
+    });
+  }
+
+  if (subject.userId) {
+    keys.push({
+      key: `${action}:user:${subject.userId}`,
+      limit: policy.maxAttempts,
+      progressive: true,
+    });
+  }
+
+  if (subject.ip) {
+    keys.push({
+      key: `${action}:ip:${subject.ip}`,
+      limit: policy.maxAttemptsPerIp,
+      progressive: false,
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Seconds a key is blocked after its `attempts`-th attempt
+ */
+function getBlockSeconds(
+  policy: RateLimitPolicy,
+  key: RateLimitKey,
+  attempts: number,
+): number {
+  if (attempts >= key.limit) {
+    return policy.lockoutSeconds;
+  }
+
+  if (!key.progressive || attempts <= policy.freeAttempts) {
+    return 0;
+  }
+
+  // 1s, 2s, 4s, ... but never longer than a lockout
+  return Math.min(
+    2 ** (attempts - policy.freeAttempts - 1),
+    policy.lockoutSeconds,
+  );
+}
+
+/**
+ * Picks the longest block of several keys
+ */
+function mergeResults(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce<RateLimitResult>(
+    (longest, result) =>
+      result.limited &&
+      (!longest.limited || result.retryAfter > longest.retryAfter)
+        ? result
+        : longest,
+    { limited: false },
+  );
+}
+
+function toResult(
+  key: RateLimitKey,
+  entry: RateLimitEntry,
+  now: number,
+): RateLimitResult {
+  const blockedUntil = entry.blockedUntil?.getTime() ?? 0;
+
+  if (blockedUntil <= now) {
+    return { limited: false };
+  }
+
+  return {
+    limited: true,
+    retryAfter: Math.ceil((blockedUntil - now) / 1000),
+    locked: entry.attempts >= key.limit,
+  };
+}
+
+/**
+ * Message for a blocked attempt: the remaining minutes of a lockout, or
+ * a request to wait for a short delay
+ */
+export function getRateLimitMessage(
+  result: Extract<RateLimitResult, { limited: true }>,
+): string {
+  const minutes = Math.ceil(result.retryAfter / 60);
+
+  return result.locked
+    ? `Too many attempts. Try again in ${minutes} ${minutes === 1 ? "minute" : "minutes"}.`
+    : "Too many attempts. Please wait a moment and try again.";
+}
+
+/**
+ * Takes back one attempt of a key and lifts the block it triggered
+ */
+async function refundAttempt(
+  store: RateLimitStore,
+  policy: RateLimitPolicy,
+  key: RateLimitKey,
+): Promise<void> {
+  const entry = await store.refund(key.key);
+
+  if (entry && getBlockSeconds(policy, key, entry.attempts) === 0) {
+    await store.block(key.key, null);
+  }
+}
+
+export interface RateLimitReservation {
+  /** Whether this attempt is blocked, and for how long */
+  result: RateLimitResult;
+  /** The block the next attempt faces unless this one is given back */
+  next: RateLimitResult;
+}
+
+/**
+ * Reserve Rate Limit Attempt
+ *
+ * Counts an attempt before it is made, unless one of its keys is
+ * blocked, and blocks the keys that reached a delay or their limit.
+ * Blocked attempts are not counted.
+ *
+ * @param action - Action being attempted
+ * @param subject - Email and IP address of the attempt
+ * @returns Whether this attempt is blocked, and the block that follows it
+ */
+export async function reserveRateLimitAttempt(
+  action: RateLimitAction,
+  subject: RateLimitSubject,
+): Promise<RateLimitReservation> {
+  const store = getRateLimitStore();
+  const policy = rateLimitPolicies[action];
+
+  const reservations = await Promise.all(
+    getKeys(action, subject).map(async (key) => ({
+      key,
+      ...(await store.reserve(key.key, policy.windowSeconds, (attempts) =>
+        getBlockSeconds(policy, key, attempts),
+      )),
+    })),
+  );
+
+  const now = Date.now();
+  const rejected = reservations.filter(({ accepted }) => !accepted);
+
+  // A key that was blocked rejects the attempt; the other keys must not
+  // count it either
+  if (rejected.length > 0) {
+    for (const { key } of reservations.filter(({ accepted }) => accepted)) {
+      await refundAttempt(store, policy, key);
+    }
+
+    const result = mergeResults(
+      rejected.map(({ key, entry }) => toResult(key, entry, now)),
+    );
+    return { result, next: result };
+  }
+
+  return {
+    result: { limited: false },
+    next: mergeResults(
+      reservations.map(({ key, entry }) => toResult(key, entry, now)),
+    ),
+  };
+}
+
+/**
+ * Consume Rate Limit
+ *
+ * Reserves an attempt that counts whatever its outcome, such as sending
+ * email.
+ *
+ * @param action - Action being attempted
+ * @param subject - Email and IP address of the attempt
+ * @returns Whether this attempt is blocked, and for how long
+ */
+export async function consumeRateLimit(
+  action: RateLimitAction,
+  subject: RateLimitSubject,
+): Promise<RateLimitResult> {
+  return (await reserveRateLimitAttempt(action, subject)).result;
+}
+
+/**
+ * Reset Rate Limit
+ *
+ * Gives back an attempt reserved with `reserveRateLimitAttempt` once it
+ * succeeded. The email and user counters are cleared; the IP counter
+ * only loses this attempt, so signing in to one's own account doesn't
+ * reset the budget for guessing others.
+ *
+ * @param action - Action that succeeded
+ * @param subject - Email and IP address of the attempt
+ */
+export async function resetRateLimit(
+  action: RateLimitAction,
+  subject: RateLimitSubject,
+): Promise<void> {
+  const store = getRateLimitStore();
+  const policy = rateLimitPolicies[action];
+
+  for (const key of getKeys(action, subject)) {
+    // Only email and user keys are progressive
+    if (key.progressive) {
+      await store.reset(key.key);
+    } else {
+      await refundAttempt(store, policy, key);
+    }
+  }
+}
+
+/**
+ * IP address of the request running the current Server Action
+ *
+ * @see getRequestIp
+ */
+export async function getClientIp(): Promise<string | null> {
+  return getRequestIp(await headers());
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import { getAuthCallbackUrl, getSafeRedirectPath } from "@/lib/auth/redirect";
+
+vi.mock("@/lib/env", () => ({
+  env: { NEXT_PUBLIC_APP_URL: "https://app.example.com" },
+}));
+
+const FALLBACK = "/fallback";
+
+function check(target: string | null | undefined, origin?: string) {
+  return getSafeRedirectPath(target, FALLBACK, { origin });
+}
+
+describe("getSafeRedirectPath", () => {
+  it("keeps relative paths with query and hash", () => {
+    expect(check("/dashboard")).toBe("/dashboard");
+    expect(check("/settings/mfa?step=2#codes")).toBe(
+      "/settings/mfa?step=2#codes",
+    );
+    expect(check("/org/invite?token=a%2Fb")).toBe("/org/invite?token=a%2Fb");
+  });
+
+  it("falls back when the target is missing", () => {
+    expect(check(null)).toBe(FALLBACK);
+    expect(check(undefined)).toBe(FALLBACK);
+    expect(check("")).toBe(FALLBACK);
+  });
+
+  it("defaults to /dashboard", () => {
+    expect(getSafeRedirectPath("//evil.com")).toBe("/dashboard");
+  });
+
+  it.each([
+    ["protocol-relative URL", "//evil.com"],
+    ["protocol-relative URL with path", "//evil.com/login"],
+    ["backslash after the slash", "/\\evil.com"],
+    ["backslashes only", "\\\\evil.com"],
+    ["encoded slashes", "/%2F%2Fevil.com"],
+    ["lowercase encoded slashes", "/%2f%2fevil.com"],
+    ["encoded backslash", "/%5Cevil.com"],
+    ["slash and encoded backslash", "/%5C%5Cevil.com"],
+    ["dot segment before slashes", "/.//evil.com"],
+    ["encoded dot segment", "/%2E//evil.com"],
+    ["tab injection", "/\t/evil.com"],
+    ["carriage return injection", "/\r/evil.com"],
+    ["line feed injection", "/\n/evil.com"],
+    ["encoded tab injection", "/%09/evil.com"],
+    ["encoded CR/LF injection", "/%0D%0A/evil.com"],
+    ["null byte", "/%00//evil.com"],
+    ["userinfo on an absolute URL", "https://app.example.com@evil.com"],
+    ["userinfo with path", "https://app@evil.com/dashboard"],
+    ["javascript: URL", "javascript:alert(1)"],
+    ["javascript: URL with leading slash comment", "javascript://%0Aalert(1)"],
+    ["mixed-case javascript: URL", "JaVaScRiPt:alert(1)"],
+    ["data: URL", "data:text/html,<script>alert(1)</script>"],
+    ["bare domain", "evil.com"],
+    ["relative path without slash", "dashboard"],
+    ["cross-origin absolute URL", "https://evil.com/dashboard"],
+    ["other scheme on the app host", "ftp://app.example.com/"],
+    ["different port on the app host", "https://app.example.com:8443/"],
+    ["http instead of https", "http://app.example.com/dashboard"],
+    ["lookalike subdomain", "https://app.example.com.evil.com/"],
+    ["malformed encoding", "/%E0%A4%A"],
+  ])("rejects %s", (_, target) => {
+    expect(check(target)).toBe(FALLBACK);
+  });
+
+  it("accepts absolute URLs on the app origin", () => {
+    expect(check("https://app.example.com/settings?tab=mfa#top")).toBe(
+      "/settings?tab=mfa#top",
+    );
+    expect(check("HTTPS://APP.EXAMPLE.COM/dashboard")).toBe("/dashboard");
+  });
+
+  it("accepts absolute URLs on the request origin", () => {
+    const origin = "http://localhost:3000";
+
+    expect(check("http://localhost:3000/dashboard", origin)).toBe("/dashboard");
+    expect(check("http://localhost:3001/dashboard", origin)).toBe(FALLBACK);
+    expect(check("http://localhost:3000/dashboard")).toBe(FALLBACK);
+  });
+
+  it("normalizes dot segments that stay on the origin", () => {
+    expect(check("/settings/../dashboard")).toBe("/dashboard");
+  });
+});
+
+describe("getAuthCallbackUrl", () => {
+  it("adds a sanitized next path and the link type", () => {
+    const url = new URL(getAuthCallbackUrl("/settings", "recovery"));
+
+    expect(url.origin).toBe("https://app.example.com");
+    expect(url.pathname).toBe("/auth/callback");
+    expect(url.searchParams.get("type")).toBe("recovery");
+    expect(url.searchParams.get("next")).toBe("/settings");
+  });
+
+  it("replaces an unsafe next path", () => {
+    const url = new URL(getAuthCallbackUrl("//evil.com"));
+
+    expect(url.searchParams.get("next")).toBe("/dashboard");
+    expect(url.searchParams.has("type")).toBe(false);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchRoute,
+  type RouteRule,
+  type RouteUser,
+  resolveRoute,
+} from "@/lib/auth/routes";
+
+function routeUser(overrides: Partial<RouteUser> = {}): RouteUser {
+  return {
+    role: "user",
+    isActive: true,
+    emailVerified: true,
+    currentLevel: "aal1",
+    nextLevel: "aal1",
+    isImpersonated: false,
+    ...overrides,
+  };
+}
+
+const admin = routeUser({
+  role: "admin",
+  currentLevel: "aal2",
+  nextLevel: "aal2",
+});
+
+describe("matchRoute", () => {
+  it("matches a prefix pattern on segment boundaries only", () => {
+    expect(matchRoute("/admin/**", "/admin")).toBe(true);
+    expect(matchRoute("/admin/**", "/admin/users/1")).toBe(true);
+    expect(matchRoute("/admin/**", "/administrator")).toBe(false);
+  });
+
+  it("matches a single segment with *", () => {
+    expect(matchRoute("/blog/*", "/blog/hello")).toBe(true);
+    expect(matchRoute("/blog/*", "/blog")).toBe(false);
+    expect(matchRoute("/blog/*", "/blog/hello/comments")).toBe(false);
+  });
+
+  it("decodes segments before matching", () => {
+    expect(matchRoute("/admin/**", "/%61dmin")).toBe(true);
+  });
+});
+
+describe("resolveRoute", () => {
+  it("does not apply the /admin rule to /administrator", () => {
+    expect(resolveRoute("/administrator", null)).toEqual({ action: "allow" });
+    expect(resolveRoute("/admin", null)).toEqual({
+      action: "redirect",
+      destination: "/login",
+      reason: "unauthenticated",
+      returnTo: true,
+    });
+  });
+
+  it("allows public pages for everyone", () => {
+    expect(resolveRoute("/", null)).toEqual({ action: "allow" });
+    expect(resolveRoute("/auth/callback", routeUser())).toEqual({
+      action: "allow",
+    });
+  });
+
+  it("treats paths without a rule as public", () => {
+    expect(resolveRoute("/unknown/page", null)).toEqual({ action: "allow" });
+  });
+
+  describe("anonymous-only pages", () => {
+    it("allows signed-out visitors", () => {
+      expect(resolveRoute("/login", null)).toEqual({ action: "allow" });
+      expect(resolveRoute("/login/otp", null)).toEqual({ action: "allow" });
+      expect(resolveRoute("/signup", null)).toEqual({ action: "allow" });
+    });
+
+    it("sends signed-in users to the dashboard", () => {
+      expect(resolveRoute("/login", routeUser())).toEqual({
+        action: "redirect",
+        destination: "/dashboard",
+        reason: "authenticated",
+        returnTo: false,
+      });
+    });
+  });
+
+  describe("authenticated pages", () => {
+    it("sends visitors to sign in and back", () => {
+      expect(resolveRoute("/dashboard/stats", null)).toMatchObject({
+        destination: "/login",
+        reason: "unauthenticated",
+        returnTo: true,
+      });
+    });
+
+    it("allows signed-in users", () => {
+      expect(resolveRoute("/dashboard", routeUser())).toEqual({
+        action: "allow",
+      });
+    });
+  });
+
+  describe("minRole", () => {
+    it("rejects roles below the minimum", () => {
+      for (const role of ["user", "moderator"] as const) {
+        expect(
+          resolveRoute(
+            "/admin",
+            routeUser({ role, currentLevel: "aal2", nextLevel: "aal2" }),
+          ),
+        ).toMatchObject({ destination: "/dashboard", reason: "forbidden" });
+      }
+    });
+
+    it("rejects users without a role claim", () => {
+      expect(resolveRoute("/admin", { ...admin, role: null })).toMatchObject({
+        reason: "forbidden",
+      });
+    });
+
+    it("uses the role hierarchy", () => {
+      const manifest: RouteRule[] = [
+        {
+          pattern: "/moderation/**",
+          access: "authenticated",
+          minRole: "moderator",
+        },
+      ];
+
+      expect(
+        resolveRoute("/moderation", routeUser({ role: "admin" }), manifest),
+      ).toEqual({ action: "allow" });
+      expect(
+        resolveRoute("/moderation", routeUser({ role: "moderator" }), manifest),
+      ).toEqual({ action: "allow" });
+      expect(
+        resolveRoute("/moderation", routeUser({ role: "user" }), manifest),
+      ).toMatchObject({ reason: "forbidden" });
+    });
+  });
+
+  describe("mfa", () => {
+    it("allows admins with an AAL2 session", () => {
+      expect(resolveRoute("/admin/users", admin)).toEqual({ action: "allow" });
+    });
+
+    it("sends users with a pending challenge to /mfa", () => {
+      const pending = { ...admin, currentLevel: "aal1" as const };
+
+      expect(resolveRoute("/admin", pending)).toEqual({
+        action: "redirect",
+        destination: "/mfa",
+        reason: "mfa_challenge",
+        returnTo: true,
+      });
+      expect(resolveRoute("/dashboard", pending)).toMatchObject({
+        reason: "mfa_challenge",
+      });
+      expect(resolveRoute("/mfa", pending)).toEqual({ action: "allow" });
+    });
+
+    it("sends users without an authenticator to set one up", () => {
+      expect(
+        resolveRoute("/admin", {
+          ...admin,
+          currentLevel: "aal1",
+          nextLevel: "aal1",
+        }),
+      ).toEqual({
+        action: "redirect",
+        destination: "/settings/mfa",
+        reason: "mfa_setup",
+        returnTo: true,
+      });
+    });
+
+    it("does not require AAL2 on pages without the flag", () => {
+      expect(resolveRoute("/settings", routeUser())).toEqual({
+        action: "allow",
+      });
+    });
+  });
+
+  describe("activeAccount", () => {
+    const suspended = routeUser({ isActive: false });
+
+    it("sends suspended users to /suspended", () => {
+      expect(resolveRoute("/dashboard", suspended)).toEqual({
+        action: "redirect",
+        destination: "/suspended",
+        reason: "inactive",
+        returnTo: false,
+      });
+      expect(
+        resolveRoute("/admin", { ...admin, isActive: false }),
+      ).toMatchObject({ reason: "inactive" });
+    });
+
+    it("keeps /suspended and public pages reachable", () => {
+      expect(resolveRoute("/suspended", suspended)).toEqual({
+        action: "allow",
+      });
+      expect(resolveRoute("/", suspended)).toEqual({ action: "allow" });
+    });
+
+    it("checks the account before the email address", () => {
+      expect(
+        resolveRoute("/admin", {
+          ...admin,
+          isActive: false,
+          emailVerified: false,
+        }),
+      ).toMatchObject({ reason: "inactive" });
+    });
+  });
+
+  it("requires a verified email where the rule asks for one", () => {
+    expect(
+      resolveRoute("/admin", { ...admin, emailVerified: false }),
+    ).toMatchObject({
+      destination: "/auth/error?reason=email_not_verified",
+      reason: "unverified",
+    });
+  });
+
+  describe("impersonated sessions", () => {
+    it("skip the TOTP challenge of the impersonated user", () => {
+      expect(
+        resolveRoute(
+          "/dashboard",
+          routeUser({ nextLevel: "aal2", isImpersonated: true }),
+        ),
+      ).toEqual({ action: "allow" });
+    });
+
+    it("still apply the other requirements", () => {
+      expect(
+        resolveRoute("/admin", routeUser({ isImpersonated: true })),
+      ).toMatchObject({ reason: "forbidden" });
+      expect(
+        resolveRoute(
+          "/dashboard",
+          routeUser({ isImpersonated: true, isActive: false }),
+        ),
+      ).toMatchObject({ reason: "inactive" });
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { hasRequiredRole } from "@/lib/auth/utils";
+import type { AssuranceLevel, UserRole } from "@/types/supabase";
+
+/**
+ * Route Policy
+ *
+ * One manifest describes who may open which page. `middleware.ts` asks
+ * `resolveRoute` for a decision and only turns it into a response, so
+ * adding an area (e.g. a moderator-only `/moderation`) is a one-line
+ * change here.
+ *
+ * Patterns are matched segment by segment:
+ * - `/login` matches exactly `/login`
+ * - `/blog/*` matches one segment below `/blog`
+ * - `/admin/**` matches `/admin` and everything below it, but not
+ *   `/administrator`
+ *
+ * Rules are checked in order and the first match wins, so list specific
+ * patterns before broader ones. Paths without a rule are public.
+ *
+ * This file is used by middleware and must stay Edge compatible.
+ */
+
+export type RouteAccess =
+  /** Everyone, signed in or not */
+  | "public"
+  /** Only signed-out visitors, e.g. sign-in pages */
+  | "anonymous"
+  /** Only signed-in users */
+  | "authenticated";
+
+export interface RouteRule {
+  pattern: string;
+  access: RouteAccess;
+  /** Minimum role, using the user < moderator < admin hierarchy */
+  minRole?: UserRole;
+  /** Require a confirmed email address */
+  verifiedEmail?: boolean;
+  /** Block deactivated and suspended accounts */
+  activeAccount?: boolean;
+  /** Require a session that passed a TOTP challenge (AAL2) */
+  mfa?: boolean;
+  /** Reachable while the TOTP challenge is still pending */
+  allowPendingMfa?: boolean;
+}
+
+/**
+ * What middleware knows about the signed-in user
+ */
+export interface RouteUser {
+  role: UserRole | null;
+  isActive: boolean;
+  emailVerified: boolean;
+  currentLevel: AssuranceLevel | null;
+  nextLevel: AssuranceLevel | null;
+  /** An admin is signed in as this user */
+  isImpersonated: boolean;
+}
+
+export type RouteDecision =
+  | { action: "allow" }
+  | {
+      action: "redirect";
+      destination: string;
+      reason: RouteDenialReason;
+      /** Append the requested path as `redirectTo` */
+      returnTo: boolean;
+    };
+
+export type RouteDenialReason =
+  | "unauthenticated"
+  | "authenticated"
+  | "mfa_challenge"
+  | "mfa_setup"
+  | "inactive"
+  | "unverified"
+  | "forbidden";
+
+/**
+ * Route Manifest
+ */
+export const routes: readonly RouteRule[] = [
+  // Auth flows complete here and must never be redirected
+  { pattern: "/auth/**", access: "public" },
+
+  // Explains a suspension; reachable signed in or out
+  { pattern: "/suspended", access: "public" },
+
+  // Sign-in pages
+  { pattern: "/login/**", access: "anonymous" },
+  { pattern: "/signup", access: "anonymous" },
+  { pattern: "/forgot-password", access: "anonymous" },
+
+  // TOTP challenge after a first-factor sign-in
+  {
+    pattern: "/mfa",
+    access: "authenticated",
+    allowPendingMfa: true,
+    activeAccount: true,
+  },
+
+  // Reached through /auth/callback with a recovery session
+  { pattern: "/reset-password", access: "authenticated", activeAccount: true },
+
+  // App
+  { pattern: "/dashboard/**", access: "authenticated", activeAccount: true },
+  { pattern: "/profile/**", access: "authenticated", activeAccount: true },
+  { pattern: "/settings/**", access: "authenticated", activeAccount: true },
+  {
+    pattern: "/admin/**",
+    access: "authenticated",
+    minRole: "admin",
+    verifiedEmail: true,
+    activeAccount: true,
+    mfa: true,
+  },
+
+  // Marketing pages
+  { pattern: "/", access: "public" },
+  { pattern: "/about", access: "public" },
+  { pattern: "/contact", access: "public" },
+  { pattern: "/pricing", access: "public" },
+  { pattern: "/blog/**", access: "public" },
+];
+
+const defaultRule: RouteRule = { pattern: "/**", access: "public" };
+
+function toSegments(path: string): string[] {
+  return path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      // `/%61dmin` must not slip past the `/admin/**` rule
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+}
+
+function matchSegments(pattern: string[], path: string[]): boolean {
+  const [head, ...rest] = pattern;
+
+  if (head === undefined) {
+    return path.length === 0;
+  }
+
+  if (head === "**") {
+    return (
+      path.some((_, i) => matchSegments(rest, path.slice(i))) ||
+      matchSegments(rest, [])
+    );
+  }
+
+  if (path.length === 0) {
+    return false;
+  }
+
+  return (
+    (head === "*" || head === path[0]) && matchSegments(rest, path.slice(1))
+  );
+}
+
+/**
+ * Checks a pathname against a manifest pattern
+ *
+ * @param pattern - Pattern such as `/admin/**` or `/blog/*`
+ * @param pathname - Request pathname
+ */
+export function matchRoute(pattern: string, pathname: string): boolean {
+  return matchSegments(toSegments(pattern), toSegments(pathname));
+}
+
+/**
+ * Finds the first manifest rule for a pathname
+ *
+ * @param pathname - Request pathname
+ * @param manifest - Rules to search, defaults to `routes`
+ */
+export function findRouteRule(
+  pathname: string,
+  manifest: readonly RouteRule[] = routes,
+): RouteRule {
+  return (
+    manifest.find((rule) => matchRoute(rule.pattern, pathname)) ?? defaultRule
+  );
+}
+
+function redirect(
+  destination: string,
+  reason: RouteDenialReason,
+  returnTo = false,
+): RouteDecision {
+  return { action: "redirect", destination, reason, returnTo };
+}
+
+/**
+ * Resolve Route
+ *
+ * Decides whether `user` may open `pathname`. Pure function: it reads no
+ * cookies and makes no requests.
+ *
+ * Requirements are checked in this order: sign-in, pending TOTP
+ * challenge, account status, email verification, role, MFA enrollment.
+ *
+ * @param pathname - Request pathname
+ * @param user - Signed-in user, or null for visitors
+ * @param manifest - Rules to apply, defaults to `routes`
+ * @returns `allow`, or where to redirect and why
+ */
+export function resolveRoute(
+  pathname: string,
+  user: RouteUser | null,
+  manifest: readonly RouteRule[] = routes,
+): RouteDecision {
+  const rule = findRouteRule(pathname, manifest);
+
+  if (rule.access === "public") {
+    return { action: "allow" };
+  }
+
+  if (rule.access === "anonymous") {
+    return user ? redirect("/dashboard", "authenticated") : { action: "allow" };
+  }
+
+  if (!user) {
+    return redirect("/login", "unauthenticated", true);
+  }
+
+  const hasPassedMfa = user.currentLevel === "aal2";
+
+  // Users with a verified authenticator must finish the TOTP challenge
+  // before they can reach any protected page. Impersonating admins can't,
+  // and passed their own challenge to start the impersonation.
+  if (
+    user.nextLevel === "aal2" &&
+    !hasPassedMfa &&
+    !rule.allowPendingMfa &&
+    !user.isImpersonated
+  ) {
+    return redirect("/mfa", "mfa_challenge", true);
+  }
+
+  if (rule.activeAccount && !user.isActive) {
+    return redirect("/suspended", "inactive");
+  }
+
+  if (rule.verifiedEmail && !user.emailVerified) {
+    return redirect("/auth/error?reason=email_not_verified", "unverified");
+  }
+
+  if (
+    rule.minRole &&
+    !(user.role && hasRequiredRole(user.role, rule.minRole))
+  ) {
+    return redirect("/dashboard", "forbidden");
+  }
+
+  // Only users without an authenticator get here with an AAL1 session,
+  // so send them to set one up
+  if (rule.mfa && !hasPassedMfa) {
+    return redirect("/settings/mfa", "mfa_setup", true);
+  }
+
+  return { action: "allow" };
+}
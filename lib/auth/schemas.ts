@@ -0,0 +1,179 @@
+import { z } from "zod";
+import {
+  type PasswordContext,
+  validatePassword,
+} from "@/lib/auth/password-policy";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+import type { AccessTokenScope, OrgRole } from "@/types/supabase";
+
+/**
+ * Authentication Form Schemas
+ *
+ * Zod schemas for the `FormData` submitted to the server actions in
+ * `@/lib/auth/server`. `redirectTo` is always sanitized here, so actions
+ * can redirect to the parsed value without further checks.
+ */
+
+const email = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email("Enter a valid email address");
+
+const redirectTo = z
+  .string()
+  .optional()
+  .transform((value) => getSafeRedirectPath(value));
+
+/**
+ * Reports every rule of the password policy that `password` breaks
+ */
+function checkNewPassword(
+  ctx: z.RefinementCtx,
+  password: string,
+  context: PasswordContext,
+) {
+  for (const message of validatePassword(password, context).errors) {
+    ctx.addIssue({ code: "custom", message, path: ["password"] });
+  }
+}
+
+export const signInSchema = z.object({
+  email,
+  password: z.string().min(1, "Enter your password"),
+  redirectTo,
+});
+
+export const signUpSchema = z
+  .object({
+    name: z.string().trim().max(100, "Name is too long").optional(),
+    email,
+    password: z.string(),
+    /** Token from an invite link, see `@/lib/auth/invitations` */
+    invite: z
+      .string()
+      .trim()
+      .optional()
+      .transform((value) => value || null),
+    redirectTo,
+  })
+  .superRefine((data, ctx) => checkNewPassword(ctx, data.password, data));
+
+export const resetPasswordSchema = z.object({
+  email,
+  redirectTo,
+});
+
+/**
+ * The password policy needs the signed-in user's email and name, so this
+ * schema is created per request
+ *
+ * @param context - Email and name of the user changing their password
+ */
+export function createUpdatePasswordSchema(context: PasswordContext) {
+  return z
+    .object({
+      password: z.string(),
+      confirmPassword: z.string(),
+      redirectTo,
+    })
+    .superRefine((data, ctx) => checkNewPassword(ctx, data.password, context))
+    .refine((data) => data.password === data.confirmPassword, {
+      message: "Passwords do not match",
+      path: ["confirmPassword"],
+    });
+}
+
+export const passwordlessSchema = z.object({
+  email,
+  method: z.enum(["code", "link"]).default("code"),
+  redirectTo,
+});
+
+export const verifyOtpSchema = z.object({
+  email,
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "Enter the 6-digit code from the email"),
+  redirectTo,
+});
+
+/**
+ * Which sessions `signOut` ends. Anything else falls back to `local`.
+ */
+export const signOutScopeSchema = z
+  .enum(["local", "others", "global"])
+  .catch("local");
+
+/**
+ * Scopes a personal access token can be granted, in display order
+ */
+export const ACCESS_TOKEN_SCOPES = [
+  "posts:read",
+  "posts:write",
+  "comments:read",
+  "comments:write",
+] as const satisfies readonly AccessTokenScope[];
+
+/**
+ * Expiry choices for new tokens, in days
+ */
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365] as const;
+
+export const createAccessTokenSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name is too long"),
+  scopes: z
+    .array(z.enum(ACCESS_TOKEN_SCOPES))
+    .min(1, "Select at least one scope"),
+  /** `null` creates a token that never expires */
+  expiresInDays: z
+    .union(
+      ACCESS_TOKEN_EXPIRY_DAYS.map((days) => z.literal(days)),
+      { error: "Choose when the token expires" },
+    )
+    .nullable(),
+});
+
+export type CreateAccessTokenInput = z.input<typeof createAccessTokenSchema>;
+
+/**
+ * Organization roles, highest first
+ */
+export const ORG_ROLES = [
+  "owner",
+  "admin",
+  "member",
+] as const satisfies readonly OrgRole[];
+
+export const createOrganizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name is too long"),
+  /** Derived from the name when left empty */
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(
+      /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      "Use lowercase letters, numbers and single hyphens",
+    )
+    .max(64, "Slug is too long")
+    .optional(),
+});
+
+export type CreateOrganizationInput = z.input<typeof createOrganizationSchema>;
+
+export const inviteOrgMemberSchema = z.object({
+  email,
+  role: z.enum(ORG_ROLES, { error: "Choose a role" }),
+});
+
+export type InviteOrgMemberInput = z.input<typeof inviteOrgMemberSchema>;
@@ -0,0 +1,226 @@
+import { headers } from "next/headers";
+import { after } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { failure, fromSupabaseError, success } from "@/lib/auth/errors";
+import { describeUserAgent } from "@/lib/auth/session-activity";
+import { getIpRange, getRequestIp } from "@/lib/auth/utils";
+import { sendEmail } from "@/lib/email";
+import { env } from "@/lib/env";
+import { createAdminClient } from "@/lib/supabase/server";
+import type {
+  ApiResponse,
+  SecurityEvent,
+  SecurityEventType,
+} from "@/types/supabase";
+
+/**
+ * Security Activity Log
+ *
+ * Records sign-ins, failed attempts, password changes, MFA changes, OAuth
+ * links and access token changes per user, together with the device and
+ * IP address of the request. The auth flows call `recordSecurityEvent`;
+ * users see their log on `/settings/security`.
+ *
+ * When a sign-in comes from a device or IP range (see `getIpRange`) that
+ * none of the user's earlier sign-ins used, the user is emailed about it
+ * after the response has been sent. The very first sign-in of an account
+ * sends no alert.
+ *
+ * This module is deliberately not a `"use server"` file: events must only
+ * be written by the server itself. Recording never throws, so a logging
+ * failure can't break a sign-in.
+ */
+
+/**
+ * Event details, e.g. `{ method: "password" }` or `{ provider: "github" }`
+ */
+export type SecurityEventMetadata = Record<string, string>;
+
+/**
+ * Number of events shown on the security page
+ */
+const SECURITY_EVENT_PAGE_SIZE = 50;
+
+/**
+ * Record Security Event
+ *
+ * Stores an event for `userId` with the client details of the current
+ * request. Call it from Server Actions and Route Handlers only.
+ *
+ * @param userId - Account the event belongs to
+ * @param type - What happened
+ * @param metadata - Event details shown in the log
+ */
+export async function recordSecurityEvent(
+  userId: string,
+  type: SecurityEventType,
+  metadata: SecurityEventMetadata = {},
+): Promise<void> {
+  try {
+    const headerList = await headers();
+    const userAgent = headerList.get("user-agent");
+    const ipAddress = getRequestIp(headerList);
+
+    const admin = await createAdminClient();
+    const { data: event, error } = await admin
+      .from("security_events")
+      .insert({
+        user_id: userId,
+        type,
+        ip_address: ipAddress,
+        ip_range: getIpRange(ipAddress),
+        user_agent: userAgent,
+        device: userAgent ? describeUserAgent(userAgent).description : null,
+        metadata,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (type === "sign_in") {
+      after(() => alertOnNewDevice(event));
+    }
+  } catch (error) {
+    console.error("Error recording security event:", error);
+  }
+}
+
+/**
+ * Record Failed Sign-In
+ *
+ * Logs a rejected sign-in for the account with this email address.
+ * Unknown addresses are ignored.
+ *
+ * @param email - Email address the attempt was made for
+ * @param metadata - Event details such as the sign-in method
+ */
+export async function recordFailedSignIn(
+  email: string,
+  metadata: SecurityEventMetadata = {},
+): Promise<void> {
+  try {
+    const admin = await createAdminClient();
+    const { data: user } = await admin
+      .from("users")
+      .select("id")
+      .eq("email", email)
+      .maybeSingle();
+
+    if (user) {
+      await recordSecurityEvent(user.id, "sign_in_failed", metadata);
+    }
+  } catch (error) {
+    console.error("Error recording security event:", error);
+  }
+}
+
+/**
+ * Emails the user when a sign-in used a device or IP range that none of
+ * their earlier sign-ins did
+ */
+async function alertOnNewDevice(event: SecurityEvent): Promise<void> {
+  try {
+    const admin = await createAdminClient();
+
+    const countEarlierSignIns = async (
+      column?: "device" | "ip_range",
+      value?: string,
+    ) => {
+      let query = admin
+        .from("security_events")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", event.user_id)
+        .eq("type", "sign_in")
+        .neq("id", event.id);
+
+      if (column && value) {
+        query = query.eq(column, value);
+      }
+
+      const { count } = await query;
+      return count ?? 0;
+    };
+
+    if ((await countEarlierSignIns()) === 0) {
+      return;
+    }
+
+    // Missing details can't be compared, so they never trigger an alert
+    const isNewDevice =
+      event.device !== null &&
+      (await countEarlierSignIns("device", event.device)) === 0;
+    const isNewRange =
+      event.ip_range !== null &&
+      (await countEarlierSignIns("ip_range", event.ip_range)) === 0;
+
+    if (!isNewDevice && !isNewRange) {
+      return;
+    }
+
+    const { data: user } = await admin
+      .from("users")
+      .select("email")
+      .eq("id", event.user_id)
+      .maybeSingle();
+
+    if (!user) {
+      return;
+    }
+
+    const appUrl = env.NEXT_PUBLIC_APP_URL;
+
+    await sendEmail({
+      to: user.email,
+      subject: "New sign-in to your account",
+      text: [
+        "Your account was just signed in to from a new device or location.",
+        "",
+        `Device: ${event.device ?? "Unknown"}`,
+        `IP address: ${event.ip_address ?? "Unknown"}`,
+        `Time: ${new Date(event.created_at).toUTCString()}`,
+        "",
+        "If this was you, you can ignore this email.",
+        "",
+        "If it wasn't, sign out the session and reset your password:",
+        `${appUrl}/settings/sessions`,
+        `${appUrl}/forgot-password`,
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error("Error sending new sign-in alert:", error);
+  }
+}
+
+/**
+ * List Security Events
+ *
+ * Returns the current user's most recent security events, newest first.
+ *
+ * @returns Promise with events or error
+ */
+export async function listSecurityEvents(): Promise<
+  ApiResponse<SecurityEvent[]>
+> {
+  try {
+    const user = await requireAuth();
+    const admin = await createAdminClient();
+
+    const { data, error } = await admin
+      .from("security_events")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(SECURITY_EVENT_PAGE_SIZE);
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return success(data);
+  } catch (error) {
+    return failure(error, "Failed to load security activity");
+  }
+}
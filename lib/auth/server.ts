@@ -0,0 +1,608 @@
+"use server";
+
+import type { SignOutScope, User } from "@supabase/supabase-js";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import type { z } from "zod";
+import {
+  createUserProfile,
+  getAuthAdapter,
+  getCurrentClaims,
+  requireNotImpersonating,
+} from "@/lib/auth";
+import type { AuthAdapter } from "@/lib/auth/adapter";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  fromZodError,
+  success,
+  toFormState,
+} from "@/lib/auth/errors";
+import { stopImpersonation } from "@/lib/auth/impersonation";
+import {
+  claimInvitation,
+  completeInvitation,
+  releaseInvitation,
+} from "@/lib/auth/invitations";
+import {
+  getProviderLabel,
+  isOAuthProviderEnabled,
+} from "@/lib/auth/oauth-providers";
+import {
+  consumeRateLimit,
+  getClientIp,
+  getRateLimitMessage,
+  type RateLimitResult,
+  reserveRateLimitAttempt,
+  resetRateLimit,
+} from "@/lib/auth/rate-limit";
+import { getAuthCallbackUrl } from "@/lib/auth/redirect";
+import {
+  createUpdatePasswordSchema,
+  passwordlessSchema,
+  resetPasswordSchema,
+  signInSchema,
+  signOutScopeSchema,
+  signUpSchema,
+  verifyOtpSchema,
+} from "@/lib/auth/schemas";
+import {
+  recordFailedSignIn,
+  recordSecurityEvent,
+} from "@/lib/auth/security-events";
+import { env } from "@/lib/env";
+import { createActionClient } from "@/lib/supabase/server";
+import type { ApiResponse, FormState, Invitation } from "@/types/supabase";
+
+/**
+ * Authentication Server Actions
+ *
+ * Form actions for the email based sign-in flows. Every action takes the
+ * previous state and the submitted `FormData`, so it can be passed to
+ * `useActionState` directly:
+ *
+ * ```tsx
+ * const [state, formAction, pending] = useActionState(signIn, initialFormState)
+ * return <form action={formAction}>...</form>
+ * ```
+ *
+ * Input is validated with the schemas in `@/lib/auth/schemas`. Actions
+ * that end with a session redirect instead of returning, either to the
+ * sanitized `redirectTo` field or to `/mfa` when a TOTP challenge is due.
+ * Sign-ins rejected because the account is banned go to `/suspended`.
+ *
+ * Every action is throttled by email and IP address (see
+ * `@/lib/auth/rate-limit`). Blocked attempts return `retryAfter` so the
+ * form can show a countdown. Sign-ins, failed attempts and password
+ * changes are written to the security log (`@/lib/auth/security-events`).
+ *
+ * Sign-up, password sign-in, OAuth, password reset and sign-out go
+ * through the auth adapter (`@/lib/auth/adapter`); the one-time code
+ * flows are Supabase only.
+ *
+ * Flows that need browser APIs (OAuth redirects, WebAuthn) live in
+ * `@/lib/auth/client`.
+ */
+
+/**
+ * Copies non-secret inputs into the form state so they survive the reset
+ */
+function getFields(
+  formData: FormData,
+  names: string[],
+): Record<string, string> {
+  return Object.fromEntries(
+    names.map((name) => [name, String(formData.get(name) ?? "")]),
+  );
+}
+
+function invalid(error: z.ZodError, fields: Record<string, string>): FormState {
+  return toFormState(
+    failure(
+      fromZodError(error, "Please correct the highlighted fields"),
+      "Invalid input",
+    ),
+    fields,
+  );
+}
+
+function failed(
+  error: unknown,
+  fallback: string,
+  fields: Record<string, string>,
+): FormState {
+  return toFormState(failure(error, fallback), fields);
+}
+
+/**
+ * Form state for an attempt blocked by the rate limiter. Lockouts get
+ * their own message; short delays keep the error of the attempt itself.
+ */
+function rateLimited(
+  result: Extract<RateLimitResult, { limited: true }>,
+  fields: Record<string, string>,
+  message = getRateLimitMessage(result),
+): FormState {
+  return {
+    status: "error",
+    code: "RATE_LIMITED",
+    message: result.locked ? getRateLimitMessage(result) : message,
+    retryAfter: result.retryAfter,
+    fields,
+  };
+}
+
+/**
+ * Where to go after a first-factor sign-in: the TOTP challenge when the
+ * user has a verified authenticator, otherwise the requested page
+ */
+async function getPostSignInPath(
+  adapter: AuthAdapter,
+  redirectTo: string,
+): Promise<string> {
+  const session = await adapter.getSession();
+
+  if (session?.nextLevel === "aal2" && session.currentLevel !== "aal2") {
+    return `/mfa?redirectTo=${encodeURIComponent(redirectTo)}`;
+  }
+
+  return redirectTo;
+}
+
+/**
+ * User Sign In
+ *
+ * Authenticates the user with email and password.
+ *
+ * Form fields: `email`, `password`, `redirectTo`
+ */
+export async function signIn(
+  _prevState: FormState,
+  formData: FormData,
+): Promise<FormState> {
+  const fields = getFields(formData, ["email"]);
+  const parsed = signInSchema.safeParse(Object.fromEntries(formData));
+
+  if (!parsed.success) {
+    return invalid(parsed.error, fields);
+  }
+
+  let destination: string;
+
+  try {
+    const { email, password, redirectTo } = parsed.data;
+    const subject = { email, ip: await getClientIp() };
+
+    // Counted before the attempt, so parallel guesses can't all pass
+    const limit = await reserveRateLimitAttempt("signIn", subject);
+    if (limit.result.limited) {
+      return rateLimited(limit.result, fields);
+    }
+
+    const adapter = await getAuthAdapter();
+    let user: User | null = null;
+
+    try {
+      user = await adapter.signInWithPassword({ email, password });
+    } catch (error) {
+      if (!(error instanceof AuthError && error.code === "ACCOUNT_SUSPENDED")) {
+        await recordFailedSignIn(email, { method: "password" });
+
+        if (limit.next.limited) {
+          return rateLimited(limit.next, fields, (error as Error).message);
+        }
+
+        throw error;
+      }
+    }
+
+    // The password was right, so the attempt doesn't count
+    await resetRateLimit("signIn", subject);
+
+    // Suspended users get an explanation instead of a form error
+    if (!user) {
+      destination = "/suspended";
+    } else {
+      await recordSecurityEvent(user.id, "sign_in", {
+        method: "password",
+      });
+      destination = await getPostSignInPath(adapter, redirectTo);
+    }
+  } catch (error) {
+    return failed(error, "Failed to sign in", fields);
+  }
+
+  redirect(destination);
+}
+
+/**
+ * OAuth Sign In URL
+ *
+ * Starts an OAuth sign-in and returns the provider URL for the browser
+ * to open (`signInWithOAuth` in `@/lib/auth/client` does that). The
+ * provider returns to `/auth/callback`, which then opens `redirectTo`.
+ * Only providers listed in `NEXT_PUBLIC_OAUTH_PROVIDERS` are accepted.
+ *
+ * @param provider - OAuth provider ID (google, github, etc.)
+ * @param redirectTo - Relative path to open after authentication
+ * @returns Promise with the provider URL, or error
+ */
+export async function getOAuthSignInUrl(
+  provider: string,
+  redirectTo?: string,
+): Promise<ApiResponse<{ url: string }>> {
+  try {
+    if (!isOAuthProviderEnabled(provider)) {
+      throw new AuthError(
+        `Sign-in with ${getProviderLabel(provider)} is not available`,
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const adapter = await getAuthAdapter();
+    const url = await adapter.getOAuthSignInUrl({
+      provider,
+      redirectTo: getAuthCallbackUrl(redirectTo),
+    });
+
+    return success({ url }, `Redirecting to ${getProviderLabel(provider)}...`);
+  } catch (error) {
+    return failure(error, "Failed to authenticate with OAuth");
+  }
+}
+
+/**
+ * User Sign Up
+ *
+ * Creates a new account. The profile record is created by the database
+ * trigger on `auth.users`, which reads `name` from the user metadata.
+ * When the project auto-confirms emails the user is signed in and redirected right away,
+ * otherwise the state asks them to confirm their email.
+ *
+ * `SIGN_UP_MODE` can require an invitation or close sign-up entirely.
+ * With an `invite` token the invitation is redeemed and its role set on
+ * the new profile (see `@/lib/auth/invitations`). The database enforces
+ * the mode as well, for accounts created through the Auth API directly.
+ *
+ * Form fields: `name`, `email`, `password`, `invite`, `redirectTo`
+ */
+export async function signUp(
+  _prevState: FormState,
+  formData: FormData,
+): Promise<FormState> {
+  const fields = getFields(formData, ["name", "email"]);
+  const parsed = signUpSchema.safeParse(Object.fromEntries(formData));
+
+  if (!parsed.success) {
+    return invalid(parsed.error, fields);
+  }
+
+  const { name, email, password, invite, redirectTo } = parsed.data;
+  let invitation: Invitation | null = null;
+
+  try {
+    if (env.SIGN_UP_MODE === "closed") {
+      throw new AuthError("Sign-up is closed", "SIGN_UP_DISABLED");
+    }
+
+    if (env.SIGN_UP_MODE === "invite_only" && !invite) {
+      throw new AuthError("Sign-up is by invitation only", "SIGN_UP_DISABLED");
+    }
+
+    const limit = await consumeRateLimit("signUp", {
+      email,
+      ip: await getClientIp(),
+    });
+    if (limit.limited) {
+      return rateLimited(limit, fields);
+    }
+
+    if (invite) {
+      invitation = await claimInvitation(invite, email);
+    }
+
+    const adapter = await getAuthAdapter();
+    const { user, hasSession } = await adapter.signUp({
+      email,
+      password,
+      name: name || null,
+      emailRedirectTo: getAuthCallbackUrl(redirectTo, "signup"),
+    });
+
+    // No user means the address is already registered
+    if (invitation && !user) {
+      await releaseInvitation(invitation.id);
+    } else if (invitation && user) {
+      const profile = await createUserProfile(user.id, {
+        email,
+        name: name || null,
+        role: invitation.role,
+      });
+
+      if (!profile.ok) {
+        throw new AuthError(profile.message, profile.code);
+      }
+
+      await completeInvitation(invitation.id, user.id);
+    }
+
+    if (!hasSession) {
+      return {
+        status: "success",
+        message:
+          "Account created successfully. Please check your email to verify your account.",
+        fields,
+      };
+    }
+  } catch (error) {
+    if (invitation) {
+      await releaseInvitation(invitation.id);
+    }
+    return failed(error, "Failed to create account", fields);
+  }
+
+  redirect(redirectTo);
+}
+
+/**
+ * Reset Password
+ *
+ * Sends a password reset email. The link goes through `/auth/callback`,
+ * which creates a recovery session and forwards the user to
+ * `/reset-password`.
+ *
+ * Form fields: `email`, `redirectTo`
+ */
+export async function resetPassword(
+  _prevState: FormState,
+  formData: FormData,
+): Promise<FormState> {
+  const fields = getFields(formData, ["email"]);
+  const parsed = resetPasswordSchema.safeParse(Object.fromEntries(formData));
+
+  if (!parsed.success) {
+    return invalid(parsed.error, fields);
+  }
+
+  try {
+    const { email, redirectTo } = parsed.data;
+
+    const limit = await consumeRateLimit("passwordReset", {
+      email,
+      ip: await getClientIp(),
+    });
+    if (limit.limited) {
+      return rateLimited(limit, fields);
+    }
+
+    const adapter = await getAuthAdapter();
+    await adapter.sendPasswordReset({
+      email,
+      redirectTo: getAuthCallbackUrl(redirectTo, "recovery"),
+    });
+
+    return {
+      status: "success",
+      message: "Password reset email sent. Please check your inbox.",
+      fields,
+    };
+  } catch (error) {
+    return failed(error, "Failed to send reset email", fields);
+  }
+}
+
+/**
+ * Update Password
+ *
+ * Sets a new password for the signed-in user, e.g. from a recovery
+ * session, then redirects. The password may not contain the user's own
+ * name or email address.
+ *
+ * Form fields: `password`, `confirmPassword`, `redirectTo`
+ */
+export async function updatePassword(
+  _prevState: FormState,
+  formData: FormData,
+): Promise<FormState> {
+  let destination: string;
+
+  try {
+    const adapter = await getAuthAdapter();
+    const user = (await adapter.getSession())?.user;
+
+    if (!user) {
+      return failed(null, "Your session has expired. Request a new link.", {});
+    }
+
+    const parsed = createUpdatePasswordSchema({
+      email: user.email,
+      name: user.user_metadata?.name,
+    }).safeParse(Object.fromEntries(formData));
+
+    if (!parsed.success) {
+      return invalid(parsed.error, {});
+    }
+
+    await requireNotImpersonating();
+
+    await adapter.updatePassword(parsed.data.password);
+    await recordSecurityEvent(user.id, "password_changed");
+    destination = parsed.data.redirectTo;
+  } catch (error) {
+    return failed(error, "Failed to update password", {});
+  }
+
+  redirect(destination);
+}
+
+/**
+ * Passwordless Sign In
+ *
+ * Emails the user a 6-digit code (`method=code`, complete it with
+ * `verifyOtp`) or a magic link (`method=link`) that goes through
+ * `/auth/callback`. Accounts are created on first use while
+ * `SIGN_UP_MODE` is `open`; otherwise only existing accounts get an email.
+ *
+ * Form fields: `email`, `method`, `redirectTo`
+ */
+export async function sendPasswordlessEmail(
+  _prevState: FormState,
+  formData: FormData,
+): Promise<FormState> {
+  const fields = getFields(formData, ["email", "method"]);
+  const parsed = passwordlessSchema.safeParse(Object.fromEntries(formData));
+
+  if (!parsed.success) {
+    return invalid(parsed.error, fields);
+  }
+
+  try {
+    const { email, method, redirectTo } = parsed.data;
+
+    const limit = await consumeRateLimit("sendOtp", {
+      email,
+      ip: await getClientIp(),
+    });
+    if (limit.limited) {
+      return rateLimited(limit, fields);
+    }
+
+    const supabase = await createActionClient();
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo:
+          method === "link"
+            ? getAuthCallbackUrl(redirectTo, "magiclink")
+            : undefined,
+        shouldCreateUser: env.SIGN_UP_MODE === "open",
+      },
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    return {
+      status: "success",
+      message:
+        method === "link"
+          ? "Check your email for a sign-in link."
+          : "We sent a 6-digit code to your email.",
+      fields: { email, method },
+    };
+  } catch (error) {
+    return failed(error, "Failed to send sign-in email", fields);
+  }
+}
+
+/**
+ * Verify One-Time Code
+ *
+ * Exchanges the emailed 6-digit code for a session.
+ *
+ * Form fields: `email`, `code`, `redirectTo`
+ */
+export async function verifyOtp(
+  _prevState: FormState,
+  formData: FormData,
+): Promise<FormState> {
+  const fields = getFields(formData, ["email"]);
+  const parsed = verifyOtpSchema.safeParse(Object.fromEntries(formData));
+
+  if (!parsed.success) {
+    return invalid(parsed.error, fields);
+  }
+
+  let destination: string;
+
+  try {
+    const { email, code, redirectTo } = parsed.data;
+    const subject = { email, ip: await getClientIp() };
+
+    const limit = await reserveRateLimitAttempt("verifyOtp", subject);
+    if (limit.result.limited) {
+      return rateLimited(limit.result, fields);
+    }
+
+    const supabase = await createActionClient();
+    const { data, error } = await supabase.auth.verifyOtp({
+      email,
+      token: code,
+      type: "email",
+    });
+
+    if (error && error.code !== "user_banned") {
+      await recordFailedSignIn(email, { method: "email_code" });
+
+      if (limit.next.limited) {
+        return rateLimited(limit.next, fields, error.message);
+      }
+
+      throw fromSupabaseError(error);
+    }
+
+    await resetRateLimit("verifyOtp", subject);
+
+    // Suspended users get an explanation instead of a form error
+    if (error) {
+      destination = "/suspended";
+    } else {
+      if (data.user) {
+        await recordSecurityEvent(data.user.id, "sign_in", {
+          method: "email_code",
+        });
+      }
+      destination = await getPostSignInPath(await getAuthAdapter(), redirectTo);
+    }
+  } catch (error) {
+    return failed(error, "Failed to verify code", fields);
+  }
+
+  redirect(destination);
+}
+
+/**
+ * User Sign Out
+ *
+ * Ends sessions of the current user. Can be used as a form action
+ * directly, with the scope in a `scope` field.
+ *
+ * - `local` (default): this session only
+ * - `others`: every session except this one; the user stays signed in
+ *   and on the current page
+ * - `global`: every session, including this one
+ *
+ * Unless the scope is `others`, the session cookies are cleared and the
+ * user is redirected to `/login`. During an impersonation, any scope ends
+ * the impersonation instead (see `stopImpersonation`).
+ *
+ * @param input - Scope, or the submitted `FormData`
+ */
+export async function signOut(
+  input: SignOutScope | FormData = "local",
+): Promise<void> {
+  const scope = signOutScopeSchema.parse(
+    input instanceof FormData ? input.get("scope") : input,
+  );
+
+  // Never sign the impersonated user out of their own devices
+  if ((await getCurrentClaims())?.impersonation) {
+    return stopImpersonation();
+  }
+
+  try {
+    const adapter = await getAuthAdapter();
+    await adapter.signOut(scope);
+  } catch (error) {
+    console.error("Error signing out:", error);
+  }
+
+  if (scope === "others") {
+    revalidatePath("/settings/sessions");
+    return;
+  }
+
+  redirect("/login");
+}
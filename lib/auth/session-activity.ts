@@ -0,0 +1,100 @@
+import type { ActiveSession } from "@/types/supabase";
+
+/**
+ * Session Activity
+ *
+ * Helpers for recording which device a session runs on and when it was
+ * last seen. Middleware calls `record_session_activity` at most once per
+ * interval per session and remembers the last call in a cookie, so most
+ * requests cost no database round trip.
+ *
+ * This file is used by middleware and must stay Edge compatible.
+ */
+
+/**
+ * Cookie holding `<session id>.<timestamp>` of the last recorded request
+ */
+export const SESSION_ACTIVITY_COOKIE = "session_activity";
+
+/**
+ * Minimum time between two activity records of the same session
+ */
+export const SESSION_ACTIVITY_INTERVAL_SECONDS = 5 * 60;
+
+/**
+ * Checks whether the current request should be recorded
+ *
+ * @param cookieValue - Value of `SESSION_ACTIVITY_COOKIE`, if any
+ * @param sessionId - `session_id` claim of the access token
+ * @param now - Current time in milliseconds
+ */
+export function shouldRecordSessionActivity(
+  cookieValue: string | undefined,
+  sessionId: string,
+  now = Date.now(),
+): boolean {
+  const [recordedSessionId, recordedAt] = cookieValue?.split(".") ?? [];
+
+  return (
+    recordedSessionId !== sessionId ||
+    !(now - Number(recordedAt) < SESSION_ACTIVITY_INTERVAL_SECONDS * 1000)
+  );
+}
+
+/**
+ * Value for `SESSION_ACTIVITY_COOKIE` after recording a request
+ */
+export function getSessionActivityCookie(
+  sessionId: string,
+  now = Date.now(),
+): string {
+  return `${sessionId}.${now}`;
+}
+
+const browsers: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const operatingSystems: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Describe User Agent
+ *
+ * Turns a user agent string into a short label such as "Chrome on macOS".
+ * Only recognizes common browsers; anything else is "Unknown browser".
+ *
+ * @param userAgent - `User-Agent` header of the session
+ */
+export function describeUserAgent(
+  userAgent: string | null,
+): Pick<ActiveSession, "description" | "device"> {
+  const ua = userAgent ?? "";
+  const browser =
+    browsers.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown browser";
+  const os = operatingSystems.find(([pattern]) => pattern.test(ua))?.[1];
+
+  // Android tablets leave "Mobile" out of their user agent
+  const device =
+    /iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))
+      ? "tablet"
+      : /Mobi|iPhone/.test(ua)
+        ? "mobile"
+        : "desktop";
+
+  return {
+    description: os ? `${browser} on ${os}` : browser,
+    device,
+  };
+}
@@ -0,0 +1,144 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireAuth, requireNotImpersonating } from "@/lib/auth";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  success,
+} from "@/lib/auth/errors";
+import { describeUserAgent } from "@/lib/auth/session-activity";
+import { createActionClient } from "@/lib/supabase/server";
+import type { ActiveSession, ApiResponse } from "@/types/supabase";
+
+/**
+ * Session Management
+ *
+ * Server Actions behind `/settings/sessions`. Sessions are read from and
+ * revoked in `auth.sessions` through the `list_user_sessions` and
+ * `revoke_user_session` functions (`drizzle/0007_session_functions.sql`),
+ * which only ever see the caller's own sessions. Device and last-seen
+ * details are recorded by middleware.
+ *
+ * A revoked session can keep using its access token until it expires
+ * (one hour by default), but it can no longer be refreshed.
+ */
+
+async function getCurrentSessionId(
+  supabase: Awaited<ReturnType<typeof createActionClient>>,
+): Promise<string | null> {
+  const { data } = await supabase.auth.getClaims();
+  return data?.claims.session_id ?? null;
+}
+
+/**
+ * List Sessions
+ *
+ * Returns every active session of the current user, the current one
+ * first and the rest by last activity.
+ *
+ * @returns Promise with sessions or error
+ */
+export async function listSessions(): Promise<ApiResponse<ActiveSession[]>> {
+  try {
+    await requireAuth();
+    const supabase = await createActionClient();
+    const currentSessionId = await getCurrentSessionId(supabase);
+
+    const { data, error } = await supabase.rpc("list_user_sessions");
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    const sessions = data.map(
+      (session): ActiveSession => ({
+        id: session.id,
+        ...describeUserAgent(session.user_agent),
+        ipAddress: session.ip_address,
+        createdAt: session.created_at,
+        lastSeenAt: session.last_seen_at,
+        isCurrent: session.id === currentSessionId,
+      }),
+    );
+
+    return success(
+      sessions.sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent)),
+    );
+  } catch (error) {
+    return failure(error, "Failed to load sessions");
+  }
+}
+
+/**
+ * Revoke Session
+ *
+ * Signs out one of the current user's other sessions. The current
+ * session is ended with `signOut` instead.
+ *
+ * @param sessionId - Session to revoke
+ * @returns Promise with success message or error
+ */
+export async function revokeSession(
+  sessionId: string,
+): Promise<ApiResponse<null>> {
+  try {
+    await requireAuth();
+    await requireNotImpersonating();
+    const supabase = await createActionClient();
+
+    if (sessionId === (await getCurrentSessionId(supabase))) {
+      throw new AuthError(
+        "Use sign out to end the session on this device",
+        "OPERATION_NOT_ALLOWED",
+      );
+    }
+
+    const { data: revoked, error } = await supabase.rpc("revoke_user_session", {
+      target_session_id: sessionId,
+    });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    if (!revoked) {
+      throw new AuthError("Session not found", "NOT_FOUND");
+    }
+
+    revalidatePath("/settings/sessions");
+
+    return success(null, "Session signed out");
+  } catch (error) {
+    return failure(error, "Failed to revoke session");
+  }
+}
+
+/**
+ * Revoke Other Sessions
+ *
+ * Signs out every session of the current user except this one, e.g.
+ * after noticing an unknown device.
+ *
+ * @returns Promise with success message or error
+ */
+export async function revokeOtherSessions(): Promise<ApiResponse<null>> {
+  try {
+    await requireAuth();
+    await requireNotImpersonating();
+    const supabase = await createActionClient();
+
+    const { error } = await supabase.auth.signOut({ scope: "others" });
+
+    if (error) {
+      throw fromSupabaseError(error);
+    }
+
+    revalidatePath("/settings/sessions");
+
+    return success(null, "Signed out of all other sessions");
+  } catch (error) {
+    return failure(error, "Failed to sign out other sessions");
+  }
+}
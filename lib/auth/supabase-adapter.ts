@@ -0,0 +1,180 @@
+import { type CookieMethodsServer, createServerClient } from "@supabase/ssr";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuthAdapter } from "@/lib/auth/adapter";
+import {
+  decodeAccessToken,
+  getAppClaims,
+  hasStaleClaims,
+} from "@/lib/auth/claims";
+import { fromSupabaseError } from "@/lib/auth/errors";
+import { env } from "@/lib/env";
+import { authCookieOptions } from "@/lib/supabase/cookies";
+import type { Database } from "@/types/supabase";
+
+/**
+ * Supabase Auth Adapter
+ *
+ * The production `AuthAdapter`. Sessions live in the `@supabase/ssr`
+ * cookies and every call goes to Supabase Auth. OAuth and email links
+ * use PKCE, so the code verifier cookie is written when the flow starts.
+ *
+ * Pass `supabase` to build on a client that already reads `cookies`, such
+ * as the per-request `createClient()` of `@/lib/supabase/server`.
+ *
+ * This file is used by middleware and must stay Edge compatible.
+ */
+export function createSupabaseAuthAdapter(
+  cookies: CookieMethodsServer,
+  supabase: SupabaseClient<Database> = createServerClient<Database>(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    { cookieOptions: authCookieOptions, cookies },
+  ),
+): AuthAdapter {
+  return {
+    name: "supabase",
+
+    async signUp({ email, password, name, emailRedirectTo }) {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: {
+          emailRedirectTo,
+          data: { name },
+        },
+      });
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+
+      // Supabase returns a user without identities for an existing address
+      return {
+        user: data.user?.identities?.length ? data.user : null,
+        hasSession: Boolean(data.session),
+      };
+    },
+
+    async signInWithPassword({ email, password }) {
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+
+      return data.user;
+    },
+
+    async getSession(options) {
+      // IMPORTANT: getUser() must be the first call on the client, or
+      // refreshed tokens may not reach the cookies
+      const {
+        data: { user },
+        error,
+      } = await supabase.auth.getUser();
+
+      if (error && process.env.NODE_ENV === "development") {
+        console.warn("Error getting user:", error.message);
+      }
+
+      if (!user) {
+        return null;
+      }
+
+      // The token getUser() just validated, read from the cookies.
+      // getClaims() would verify it again, with another getUser() on
+      // projects that sign with a shared secret.
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      let token = decodeAccessToken(session?.access_token);
+      let claims = getAppClaims(token);
+
+      // The role changed after the token was issued - refresh it so this
+      // request and RLS policies see the new claims
+      if (options?.refreshStaleClaims && hasStaleClaims(user, claims)) {
+        const { data: refreshed } = await supabase.auth.refreshSession();
+
+        if (refreshed.session) {
+          token = decodeAccessToken(refreshed.session.access_token);
+          claims = getAppClaims(token);
+        }
+      }
+
+      // Read from the session JWT, no network request
+      const { data: aal } =
+        await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+      return {
+        user,
+        claims,
+        sessionId: token?.session_id ?? null,
+        currentLevel: aal?.currentLevel ?? null,
+        nextLevel: aal?.nextLevel ?? null,
+      };
+    },
+
+    async getOAuthSignInUrl({ provider, redirectTo }) {
+      const { data, error } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: { redirectTo, skipBrowserRedirect: true },
+      });
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+
+      return data.url;
+    },
+
+    async exchangeCodeForSession(code) {
+      const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+
+      return data.user;
+    },
+
+    async sendPasswordReset({ email, redirectTo }) {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo,
+      });
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+    },
+
+    async updatePassword(password) {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+    },
+
+    async signOut(scope) {
+      const { error } = await supabase.auth.signOut({ scope });
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+    },
+
+    async recordSessionActivity({ userAgent, ip }) {
+      const { error } = await supabase.rpc("record_session_activity", {
+        client_user_agent: userAgent,
+        client_ip: ip,
+      });
+
+      if (error) {
+        throw fromSupabaseError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import type { FormState, OrgRole, UserRole } from "@/types/supabase";
+
+/**
+ * Shared Authentication Utilities
+ *
+ * Pure helpers used by both the server actions in `@/lib/auth/server`
+ * and the browser helpers in `@/lib/auth/client`. Nothing in this file
+ * may touch cookies, `window` or a Supabase client.
+ */
+
+/**
+ * Role hierarchy - each role includes the permissions of the ones below
+ */
+const roleHierarchy: Record<UserRole, number> = {
+  user: 1,
+  moderator: 2,
+  admin: 3,
+};
+
+/**
+ * Checks whether `role` is `requiredRole` or higher
+ *
+ * @param role - Role of the user
+ * @param requiredRole - Minimum role
+ */
+export function hasRequiredRole(
+  role: UserRole,
+  requiredRole: UserRole,
+): boolean {
+  return roleHierarchy[role] >= roleHierarchy[requiredRole];
+}
+
+/**
+ * Organization role hierarchy, separate from the account roles above
+ */
+const orgRoleHierarchy: Record<OrgRole, number> = {
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * Checks whether an organization `role` is `requiredRole` or higher
+ *
+ * @param role - Role of the member
+ * @param requiredRole - Minimum role
+ */
+export function hasRequiredOrgRole(
+  role: OrgRole,
+  requiredRole: OrgRole,
+): boolean {
+  return orgRoleHierarchy[role] >= orgRoleHierarchy[requiredRole];
+}
+
+/**
+ * Checks whether a user is currently banned in Supabase Auth
+ *
+ * `banUser` sets the native ban together with the ban record, and Supabase
+ * clears it by itself once `banned_until` has passed. The field is
+ * returned by `getUser()` but missing from the `User` type.
+ *
+ * @param user - User returned by `getUser()`
+ * @param now - Time to compare against, in milliseconds
+ */
+export function isBanned(user: object, now = Date.now()): boolean {
+  const { banned_until: bannedUntil } = user as {
+    banned_until?: string | null;
+  };
+
+  return Boolean(bannedUntil) && Date.parse(bannedUntil as string) > now;
+}
+
+/**
+ * Client IP Address
+ *
+ * Reads the first address of `x-forwarded-for`, as set by Vercel and most
+ * proxies, or `x-real-ip`. Only trust these headers behind a proxy that
+ * overwrites them.
+ *
+ * @param headers - Request headers
+ * @returns IP address, or null when the request has none
+ */
+export function getRequestIp(headers: Headers): string | null {
+  const forwardedFor = headers.get("x-forwarded-for");
+
+  return (
+    forwardedFor?.split(",")[0]?.trim() || headers.get("x-real-ip") || null
+  );
+}
+
+/**
+ * Network of an IP address: the /24 of an IPv4 address or the /48 of an
+ * IPv6 address. Addresses in the same range usually belong to the same
+ * provider and location.
+ *
+ * @param ip - IPv4 or IPv6 address
+ * @returns CIDR range such as "203.0.113.0/24", or null if `ip` is invalid
+ */
+export function getIpRange(ip: string | null): string | null {
+  if (!ip) {
+    return null;
+  }
+
+  // IPv4-mapped IPv6 addresses (::ffff:203.0.113.7)
+  const ipv4 = ip.replace(/^::ffff:/i, "");
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(ipv4)) {
+    const [a, b, c] = ipv4.split(".");
+    return `${a}.${b}.${c}.0/24`;
+  }
+
+  if (!/^[\da-f:]+$/i.test(ip) || ip.split("::").length > 2) {
+    return null;
+  }
+
+  // Expand "::" so the first three groups are always present
+  const [head, tail] = ip.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array(Math.max(8 - headGroups.length - tailGroups.length, 0)).fill(
+            "0",
+          ),
+          ...tailGroups,
+        ];
+
+  if (groups.length !== 8 || groups.some((group) => group.length > 4)) {
+    return null;
+  }
+
+  const prefix = groups
+    .slice(0, 3)
+    .map((group) => Number.parseInt(group || "0", 16).toString(16))
+    .join(":");
+
+  return `${prefix}::/48`;
+}
+
+/**
+ * Initial state for forms driven by `useActionState`
+ */
+export const initialFormState: FormState = { status: "idle" };
+
+/**
+ * Minimum delay between two passwordless emails to the same address.
+ * Matches the default Supabase rate limit for OTP and magic link emails.
+ */
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Passwordless Retry Delay
+ *
+ * Reads the wait time out of a Supabase rate limit message such as
+ * "For security purposes, you can only request this after 42 seconds."
+ *
+ * @param message - Error message returned by a passwordless flow
+ * @returns Seconds to wait, or null if the error is not a rate limit
+ */
+export function getOtpRetryDelay(message: string): number | null {
+  const match = message.match(/after (\d+) seconds?/i);
+  return match ? Number(match[1]) : null;
+}
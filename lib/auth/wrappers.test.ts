@@ -0,0 +1,451 @@
+import { redirect } from "next/navigation";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { AuthError, success } from "@/lib/auth/errors";
+import {
+  withAuth,
+  withAuthAction,
+  withRole,
+  withRoleAction,
+} from "@/lib/auth/wrappers";
+
+const { auth, profiles, request } = vi.hoisted(() => {
+  const user = { id: "user-1", email: "user@example.com" };
+
+  return {
+    auth: {
+      user,
+      requireAuth: vi.fn(async (_options?: object) => user),
+      requireRole: vi.fn(async (_role: string, _options?: object) => user),
+    },
+    profiles: {
+      single: vi.fn(async () => ({
+        data: { id: user.id, role: "user" },
+        error: null as object | null,
+      })),
+    },
+    request: { referer: null as string | null },
+  };
+});
+
+vi.mock("next/headers", () => ({
+  headers: async () =>
+    new Headers(request.referer ? { referer: request.referer } : {}),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: auth.requireAuth,
+  requireRole: auth.requireRole,
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => ({
+    from: () => ({
+      select: () => ({ eq: () => ({ single: profiles.single }) }),
+    }),
+  }),
+}));
+
+vi.mock("@/lib/env", () => ({
+  env: {
+    NODE_ENV: "test",
+    NEXT_PUBLIC_APP_URL: "https://app.example.com",
+  },
+}));
+
+const postSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  tags: z.array(z.string()).optional(),
+});
+
+const segment = { params: Promise.resolve({ id: "post-1" }) };
+
+function post(body: BodyInit, contentType = "application/json") {
+  return new Request("https://app.example.com/api/posts", {
+    method: "POST",
+    headers: { "content-type": contentType },
+    body,
+  });
+}
+
+/** Runs an action and returns where it redirected, or null */
+async function redirectOf(action: Promise<unknown>) {
+  try {
+    await action;
+    return null;
+  } catch (error) {
+    // `redirect()` throws an error whose digest holds the destination
+    const digest = (error as { digest?: string }).digest ?? "";
+
+    if (!digest.startsWith("NEXT_REDIRECT")) {
+      throw error;
+    }
+
+    return digest.split(";")[2];
+  }
+}
+
+beforeEach(() => {
+  request.referer = null;
+  vi.clearAllMocks();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("withAuth", () => {
+  it("passes the user, input and params to the handler", async () => {
+    const handler = vi.fn(async () => success({ created: true }));
+    const response = await withAuth(handler, {
+      input: postSchema,
+      scope: "posts:write",
+    })(post(JSON.stringify({ title: "Hello" })), segment);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ok: true,
+      data: { created: true },
+    });
+    expect(auth.requireAuth).toHaveBeenCalledWith({ scope: "posts:write" });
+    expect(handler).toHaveBeenCalledWith(expect.any(Request), {
+      user: auth.user,
+      profile: null,
+      input: { title: "Hello" },
+      params: { id: "post-1" },
+    });
+  });
+
+  it("reads the query string of GET requests and repeated keys as arrays", async () => {
+    const handler = vi.fn(async () => success(null));
+    const response = await withAuth(handler, { input: postSchema })(
+      new Request("https://app.example.com/api/posts?title=Hi&tags=a&tags=b"),
+      segment,
+    );
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(Request),
+      expect.objectContaining({ input: { title: "Hi", tags: ["a", "b"] } }),
+    );
+  });
+
+  it("reads form bodies", async () => {
+    const handler = vi.fn(async () => success(null));
+
+    await withAuth(handler, { input: postSchema })(
+      post("title=Hi", "application/x-www-form-urlencoded"),
+      segment,
+    );
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(Request),
+      expect.objectContaining({ input: { title: "Hi" } }),
+    );
+  });
+
+  it("loads the profile when asked", async () => {
+    const handler = vi.fn(async () => success(null));
+
+    await withAuth(handler, { profile: true })(
+      new Request("https://app.example.com/api/me"),
+      segment,
+    );
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(Request),
+      expect.objectContaining({ profile: { id: "user-1", role: "user" } }),
+    );
+  });
+
+  it("answers a missing profile with 404", async () => {
+    profiles.single.mockResolvedValueOnce({
+      data: null as never,
+      error: { message: "No rows found", code: "PGRST116" },
+    });
+    const handler = vi.fn(async () => success(null));
+    const response = await withAuth(handler, { profile: true })(
+      new Request("https://app.example.com/api/me"),
+      segment,
+    );
+
+    expect(response.status).toBe(404);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("answers signed-out requests with 401", async () => {
+    auth.requireAuth.mockRejectedValueOnce(
+      new AuthError("Authentication required", "UNAUTHORIZED"),
+    );
+    const handler = vi.fn(async () => success(null));
+    const response = await withAuth(handler)(
+      new Request("https://app.example.com/api/me"),
+      segment,
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      ok: false,
+      code: "UNAUTHORIZED",
+      message: "Authentication required",
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("answers suspended users and missing scopes with 403", async () => {
+    const handler = vi.fn(async () => success(null));
+    const route = withAuth(handler, { scope: "posts:write" });
+
+    for (const code of ["ACCOUNT_SUSPENDED", "INSUFFICIENT_SCOPE"] as const) {
+      auth.requireAuth.mockRejectedValueOnce(new AuthError("Denied", code));
+      const response = await route(
+        new Request("https://app.example.com/api/me"),
+        segment,
+      );
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).code).toBe(code);
+    }
+  });
+
+  it("answers invalid input with 422 and the field errors", async () => {
+    const handler = vi.fn(async () => success(null));
+    const response = await withAuth(handler, { input: postSchema })(
+      post(JSON.stringify({ title: "" })),
+      segment,
+    );
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      ok: false,
+      code: "VALIDATION_FAILED",
+      message: "Title is required",
+      fieldErrors: { title: ["Title is required"] },
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("answers malformed JSON with 422", async () => {
+    const response = await withAuth(async () => success(null), {
+      input: postSchema,
+    })(post("{"), segment);
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).message).toBe(
+      "Request body is not valid JSON",
+    );
+  });
+
+  it("uses the status of errors thrown by the handler", async () => {
+    const response = await withAuth(async () => {
+      throw new AuthError("Post not found", "NOT_FOUND");
+    })(new Request("https://app.example.com/api/posts/1"), segment);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("hides unexpected errors behind the fallback message", async () => {
+    const response = await withAuth(
+      async () => {
+        throw new Error("connection reset");
+      },
+      { fallback: "Could not load posts" },
+    )(new Request("https://app.example.com/api/posts"), segment);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      ok: false,
+      code: "INTERNAL_ERROR",
+      message: "Could not load posts",
+    });
+  });
+
+  it("returns a Response from the handler as is", async () => {
+    const response = await withAuth(
+      async () => new Response(null, { status: 204 }),
+    )(new Request("https://app.example.com/api/posts"), segment);
+
+    expect(response.status).toBe(204);
+  });
+});
+
+describe("withRole", () => {
+  it("requires the role and assurance level", async () => {
+    const response = await withRole("admin", async () => success(null), {
+      aal: "aal2",
+    })(new Request("https://app.example.com/api/admin"), segment);
+
+    expect(response.status).toBe(200);
+    expect(auth.requireRole).toHaveBeenCalledWith("admin", { aal: "aal2" });
+    expect(auth.requireAuth).not.toHaveBeenCalled();
+  });
+
+  it("answers a missing role or MFA with 403", async () => {
+    const route = withRole("admin", async () => success(null));
+
+    for (const code of ["INSUFFICIENT_PERMISSIONS", "MFA_REQUIRED"] as const) {
+      auth.requireRole.mockRejectedValueOnce(new AuthError("Denied", code));
+      const response = await route(
+        new Request("https://app.example.com/api/admin"),
+        segment,
+      );
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).code).toBe(code);
+    }
+  });
+});
+
+describe("withAuthAction", () => {
+  it("passes the user and parsed input to the handler", async () => {
+    const handler = vi.fn(async () => success("saved"));
+    const action = withAuthAction(handler, { input: postSchema });
+
+    expect(await action({ title: "Hello" })).toEqual({
+      ok: true,
+      data: "saved",
+    });
+    expect(handler).toHaveBeenCalledWith({
+      user: auth.user,
+      profile: null,
+      input: { title: "Hello" },
+    });
+  });
+
+  it("accepts FormData", async () => {
+    const handler = vi.fn(async () => success(null));
+    const form = new FormData();
+    form.append("title", "Hello");
+    form.append("tags", "a");
+    form.append("tags", "b");
+
+    await withAuthAction(handler, { input: postSchema })(form);
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ input: { title: "Hello", tags: ["a", "b"] } }),
+    );
+  });
+
+  it("returns validation failures with the field errors", async () => {
+    const handler = vi.fn(async () => success(null));
+    const response = await withAuthAction(handler, { input: postSchema })({
+      title: "",
+    });
+
+    expect(response).toEqual({
+      ok: false,
+      code: "VALIDATION_FAILED",
+      message: "Title is required",
+      fieldErrors: { title: ["Title is required"] },
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("returns the failure without a redirect", async () => {
+    auth.requireAuth.mockRejectedValueOnce(
+      new AuthError("Authentication required", "UNAUTHORIZED"),
+    );
+
+    expect(await withAuthAction(async () => success(null))()).toMatchObject({
+      ok: false,
+      code: "UNAUTHORIZED",
+    });
+  });
+
+  it("sends signed-out users to sign in and back to the page", async () => {
+    request.referer = "https://app.example.com/settings/profile?tab=email";
+    auth.requireAuth.mockRejectedValueOnce(
+      new AuthError("Authentication required", "UNAUTHORIZED"),
+    );
+    const action = withAuthAction(async () => success(null), {
+      redirect: true,
+    });
+
+    expect(await redirectOf(action())).toBe(
+      `/login?redirectTo=${encodeURIComponent("/settings/profile?tab=email")}`,
+    );
+  });
+
+  it("drops a referer from another origin", async () => {
+    request.referer = "https://evil.example.net/phish";
+    auth.requireAuth.mockRejectedValueOnce(
+      new AuthError("Authentication required", "UNAUTHORIZED"),
+    );
+    const action = withAuthAction(async () => success(null), {
+      redirect: true,
+    });
+
+    expect(await redirectOf(action())).toBe("/login");
+  });
+
+  it("sends suspended users to the suspension page", async () => {
+    request.referer = "https://app.example.com/dashboard";
+    auth.requireAuth.mockRejectedValueOnce(
+      new AuthError("Your account has been suspended", "ACCOUNT_SUSPENDED"),
+    );
+    const action = withAuthAction(async () => success(null), {
+      redirect: true,
+    });
+
+    expect(await redirectOf(action())).toBe("/suspended");
+  });
+
+  it("returns failures that no page resolves", async () => {
+    const action = withAuthAction(
+      async () => {
+        throw new AuthError("Already taken", "CONFLICT");
+      },
+      { redirect: true },
+    );
+
+    expect(await action()).toMatchObject({ ok: false, code: "CONFLICT" });
+  });
+
+  it("does not catch a redirect thrown by the handler", async () => {
+    const action = withAuthAction(async () => redirect("/dashboard/posts"));
+
+    expect(await redirectOf(action())).toBe("/dashboard/posts");
+  });
+});
+
+describe("withRoleAction", () => {
+  it("requires the role and assurance level", async () => {
+    const handler = vi.fn(async () => success(null));
+
+    await withRoleAction("moderator", handler, { aal: "aal2" })();
+
+    expect(auth.requireRole).toHaveBeenCalledWith("moderator", {
+      aal: "aal2",
+    });
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it("returns a missing role as a failure", async () => {
+    auth.requireRole.mockRejectedValueOnce(
+      new AuthError(
+        "Access denied. Required role: admin",
+        "INSUFFICIENT_PERMISSIONS",
+      ),
+    );
+    const response = await withRoleAction("admin", async () => success(null), {
+      redirect: true,
+    })();
+
+    expect(response).toMatchObject({
+      ok: false,
+      code: "INSUFFICIENT_PERMISSIONS",
+    });
+  });
+
+  it("sends sessions without MFA to the challenge", async () => {
+    request.referer = "https://app.example.com/admin/users";
+    auth.requireRole.mockRejectedValueOnce(
+      new AuthError("Multi-factor authentication required", "MFA_REQUIRED"),
+    );
+    const action = withRoleAction("admin", async () => success(null), {
+      aal: "aal2",
+      redirect: true,
+    });
+
+    expect(await redirectOf(action())).toBe(
+      `/mfa?redirectTo=${encodeURIComponent("/admin/users")}`,
+    );
+  });
+});
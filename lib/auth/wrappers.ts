@@ -0,0 +1,419 @@
+import { headers } from "next/headers";
+import { redirect, unstable_rethrow } from "next/navigation";
+import type { z } from "zod";
+import { requireAuth, requireRole } from "@/lib/auth";
+import {
+  AuthError,
+  failure,
+  fromSupabaseError,
+  fromZodError,
+  toHttpResponse,
+} from "@/lib/auth/errors";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+import { createAdminClient } from "@/lib/supabase/server";
+import type {
+  AccessTokenScope,
+  ApiResponse,
+  AssuranceLevel,
+  AuthErrorCode,
+  AuthUser,
+  User,
+  UserRole,
+} from "@/types/supabase";
+
+/**
+ * Route Handler and Server Action Wrappers
+ *
+ * `withAuth` and `withRole` wrap route handlers; `withAuthAction` and
+ * `withRoleAction` wrap Server Actions. The wrapper authenticates the
+ * request, loads the profile if asked, validates the input with a zod
+ * schema and passes all of it to the handler. Handlers return
+ * `success(...)` (route handlers may also return any `Response`) and
+ * throw `AuthError` for anything else:
+ *
+ * ```typescript
+ * export const POST = withAuth(
+ *   async (request, { user, input }) => success(await createPost(user.id, input)),
+ *   { scope: 'posts:write', input: createPostSchema }
+ * )
+ * ```
+ *
+ * Route handlers answer failures with the JSON `ApiResponse` and the
+ * status of its code (401 signed out, 403 missing role or scope, 422
+ * invalid input). Actions return the failure, or redirect to the sign-in,
+ * suspension or MFA page with `{ redirect: true }`.
+ *
+ * `withRole` reads the role from the session's access token, so it only
+ * accepts cookie sessions. Requests with a personal access token need
+ * `withAuth` with a `scope`; they carry no Supabase session, so query
+ * with the admin client and filter by `user.id` (see `@/lib/auth/bearer`).
+ *
+ * This module is not a `"use server"` file: it exports factories, not
+ * actions. Export the wrapped action from your own `"use server"` file.
+ */
+
+export interface AuthOptions<
+  TSchema extends z.ZodType = z.ZodType<undefined>,
+  TProfile extends boolean = false,
+> {
+  /** Schema for the request body, query string or action argument */
+  input?: TSchema;
+  /** Load the user's row from `users` into `profile` */
+  profile?: TProfile;
+  /** Message for unexpected errors, which are logged on the server */
+  fallback?: string;
+}
+
+export interface RouteAuthOptions<
+  TSchema extends z.ZodType = z.ZodType<undefined>,
+  TProfile extends boolean = false,
+> extends AuthOptions<TSchema, TProfile> {
+  /** Also accept personal access tokens that grant this scope */
+  scope?: AccessTokenScope;
+}
+
+export interface ActionAuthOptions<
+  TSchema extends z.ZodType = z.ZodType<undefined>,
+  TProfile extends boolean = false,
+> extends AuthOptions<TSchema, TProfile> {
+  /**
+   * Redirect signed-out, suspended and MFA-pending users to the page that
+   * resolves it instead of returning the failure. Signed-out users come
+   * back to the page they submitted from.
+   */
+  redirect?: boolean;
+}
+
+export interface RoleOptions {
+  /** Also require a session that passed an MFA challenge */
+  aal?: AssuranceLevel;
+}
+
+export interface AuthContext<TInput, TProfile extends boolean> {
+  user: AuthUser;
+  profile: TProfile extends true ? User : null;
+  input: TInput;
+}
+
+export type RouteParams = Record<string, string | string[]>;
+
+export interface RouteAuthContext<TInput, TProfile extends boolean>
+  extends AuthContext<TInput, TProfile> {
+  /** Dynamic segments of the route, e.g. `{ id }` for `[id]` */
+  params: RouteParams;
+}
+
+export type RouteHandler<TInput, TProfile extends boolean, T> = (
+  request: Request,
+  context: RouteAuthContext<TInput, TProfile>,
+) => Promise<Response | ApiResponse<T>>;
+
+export type ActionHandler<TInput, TProfile extends boolean, T> = (
+  context: AuthContext<TInput, TProfile>,
+) => Promise<ApiResponse<T>>;
+
+/**
+ * Pages that resolve an error code, for actions with `{ redirect: true }`
+ */
+const errorRedirects: Partial<Record<AuthErrorCode, string>> = {
+  UNAUTHORIZED: "/login",
+  ACCOUNT_SUSPENDED: "/suspended",
+  MFA_REQUIRED: "/mfa",
+};
+
+const methodsWithoutBody = new Set(["GET", "HEAD", "DELETE"]);
+
+/**
+ * Collects form fields or query parameters; repeated keys become arrays
+ */
+function toObject(
+  entries: Iterable<[string, FormDataEntryValue]>,
+): Record<string, FormDataEntryValue | FormDataEntryValue[]> {
+  const result: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {};
+
+  for (const [key, value] of entries) {
+    const existing = result[key];
+
+    if (existing === undefined) {
+      result[key] = value;
+    } else {
+      result[key] = Array.isArray(existing)
+        ? [...existing, value]
+        : [existing, value];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reads the query string of body-less requests, and the form or JSON
+ * body of the others
+ */
+async function readRequestInput(request: Request): Promise<unknown> {
+  if (methodsWithoutBody.has(request.method)) {
+    return toObject(new URL(request.url).searchParams);
+  }
+
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (
+    contentType.startsWith("multipart/form-data") ||
+    contentType.startsWith("application/x-www-form-urlencoded")
+  ) {
+    return toObject(await request.formData());
+  }
+
+  const body = await request.text();
+
+  if (!body) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new AuthError("Request body is not valid JSON", "VALIDATION_FAILED");
+  }
+}
+
+function parseInput<TSchema extends z.ZodType>(
+  schema: TSchema | undefined,
+  value: unknown,
+): z.output<TSchema> {
+  if (!schema) {
+    return undefined as z.output<TSchema>;
+  }
+
+  const parsed = schema.safeParse(value);
+
+  if (!parsed.success) {
+    throw fromZodError(parsed.error);
+  }
+
+  return parsed.data;
+}
+
+async function loadProfile<TProfile extends boolean>(
+  user: AuthUser,
+  load: TProfile | undefined,
+): Promise<TProfile extends true ? User : null> {
+  if (!load) {
+    return null as TProfile extends true ? User : null;
+  }
+
+  // Token requests have no session for the RLS-scoped client
+  const supabase = await createAdminClient();
+  const { data: profile, error } = await supabase
+    .from("users")
+    .select("*")
+    .eq("id", user.id)
+    .single();
+
+  if (error) {
+    throw fromSupabaseError(error);
+  }
+
+  return profile as TProfile extends true ? User : null;
+}
+
+function createRouteHandler<
+  TSchema extends z.ZodType,
+  TProfile extends boolean,
+  T,
+>(
+  authenticate: () => Promise<AuthUser>,
+  handler: RouteHandler<z.output<TSchema>, TProfile, T>,
+  options: RouteAuthOptions<TSchema, TProfile>,
+) {
+  return async (
+    request: Request,
+    segment: { params: Promise<RouteParams> },
+  ): Promise<Response> => {
+    try {
+      const user = await authenticate();
+      const [profile, input, params] = await Promise.all([
+        loadProfile(user, options.profile),
+        options.input
+          ? readRequestInput(request).then((value) =>
+              parseInput(options.input, value),
+            )
+          : undefined,
+        segment?.params ?? {},
+      ]);
+
+      const response = await handler(request, {
+        user,
+        profile,
+        input: input as z.output<TSchema>,
+        params,
+      });
+
+      return response instanceof Response ? response : toHttpResponse(response);
+    } catch (error) {
+      unstable_rethrow(error);
+      return toHttpResponse(
+        failure(error, options.fallback ?? "Request failed"),
+      );
+    }
+  };
+}
+
+/**
+ * Where a failed action sends the user, or null to return the failure
+ */
+async function getErrorRedirect(code: AuthErrorCode): Promise<string | null> {
+  const destination = errorRedirects[code];
+
+  if (!destination || code === "ACCOUNT_SUSPENDED") {
+    return destination ?? null;
+  }
+
+  // Actions run on the page that submitted them
+  const referer = (await headers()).get("referer");
+  const returnTo = referer ? getSafeRedirectPath(referer, "") : "";
+
+  return returnTo
+    ? `${destination}?redirectTo=${encodeURIComponent(returnTo)}`
+    : destination;
+}
+
+function createAction<TSchema extends z.ZodType, TProfile extends boolean, T>(
+  authenticate: () => Promise<AuthUser>,
+  handler: ActionHandler<z.output<TSchema>, TProfile, T>,
+  options: ActionAuthOptions<TSchema, TProfile>,
+) {
+  return async (
+    input?: z.input<TSchema> | FormData,
+  ): Promise<ApiResponse<T>> => {
+    let response: ApiResponse<T>;
+
+    try {
+      const user = await authenticate();
+      const profile = await loadProfile(user, options.profile);
+
+      response = await handler({
+        user,
+        profile,
+        input: parseInput(
+          options.input,
+          input instanceof FormData ? toObject(input) : input,
+        ),
+      });
+    } catch (error) {
+      unstable_rethrow(error);
+      response = failure(error, options.fallback ?? "Something went wrong");
+    }
+
+    // `redirect()` throws, so it must not run inside the try block
+    if (!response.ok && options.redirect) {
+      const destination = await getErrorRedirect(response.code);
+
+      if (destination) {
+        redirect(destination);
+      }
+    }
+
+    return response;
+  };
+}
+
+/**
+ * With Auth (route handlers)
+ *
+ * Wraps a route handler that requires a signed-in, non-suspended user.
+ * Personal access tokens are accepted only with a `scope`.
+ *
+ * @param handler - Receives the request and the user, profile, input and params
+ * @param options - Input schema, profile loading, token scope
+ * @returns Route handler to export as `GET`, `POST`, ...
+ */
+export function withAuth<
+  T,
+  TSchema extends z.ZodType = z.ZodType<undefined>,
+  TProfile extends boolean = false,
+>(
+  handler: RouteHandler<z.output<TSchema>, TProfile, T>,
+  options: RouteAuthOptions<TSchema, TProfile> = {},
+) {
+  return createRouteHandler(
+    () => requireAuth({ scope: options.scope }),
+    handler,
+    options,
+  );
+}
+
+/**
+ * With Role (route handlers)
+ *
+ * Like `withAuth`, but also requires `role` or higher, and an AAL2
+ * session with `{ aal: 'aal2' }`. Cookie sessions only.
+ *
+ * @param role - Minimum account role
+ * @param handler - Receives the request and the user, profile, input and params
+ * @param options - Input schema, profile loading, assurance level
+ * @returns Route handler to export as `GET`, `POST`, ...
+ */
+export function withRole<
+  T,
+  TSchema extends z.ZodType = z.ZodType<undefined>,
+  TProfile extends boolean = false,
+>(
+  role: UserRole,
+  handler: RouteHandler<z.output<TSchema>, TProfile, T>,
+  options: AuthOptions<TSchema, TProfile> & RoleOptions = {},
+) {
+  return createRouteHandler(
+    () => requireRole(role, { aal: options.aal }),
+    handler,
+    options,
+  );
+}
+
+/**
+ * With Auth (Server Actions)
+ *
+ * Wraps a Server Action that requires a signed-in, non-suspended user.
+ * The action takes the input as an object or as `FormData`.
+ *
+ * @param handler - Receives the user, profile and input
+ * @param options - Input schema, profile loading, redirects
+ * @returns Server Action returning the handler's `ApiResponse`
+ */
+export function withAuthAction<
+  T,
+  TSchema extends z.ZodType = z.ZodType<undefined>,
+  TProfile extends boolean = false,
+>(
+  handler: ActionHandler<z.output<TSchema>, TProfile, T>,
+  options: ActionAuthOptions<TSchema, TProfile> = {},
+) {
+  return createAction(() => requireAuth(), handler, options);
+}
+
+/**
+ * With Role (Server Actions)
+ *
+ * Like `withAuthAction`, but also requires `role` or higher, and an AAL2
+ * session with `{ aal: 'aal2' }`.
+ *
+ * @param role - Minimum account role
+ * @param handler - Receives the user, profile and input
+ * @param options - Input schema, profile loading, redirects, assurance level
+ * @returns Server Action returning the handler's `ApiResponse`
+ */
+export function withRoleAction<
+  T,
+  TSchema extends z.ZodType = z.ZodType<undefined>,
+  TProfile extends boolean = false,
+>(
+  role: UserRole,
+  handler: ActionHandler<z.output<TSchema>, TProfile, T>,
+  options: ActionAuthOptions<TSchema, TProfile> & RoleOptions = {},
+) {
+  return createAction(
+    () => requireRole(role, { aal: options.aal }),
+    handler,
+    options,
+  );
+}
@@ -1,14 +1,19 @@
 import { 
   boolean, 
+  check, 
+  index, 
   integer, 
+  jsonb, 
   pgEnum, 
   pgTable, 
   text, 
   timestamp, 
+  unique, 
   uuid, 
   varchar 
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import { authUsers } from "drizzle-orm/supabase";
 
 /**
  * Database Schema Definition
@@ -44,17 +49,54 @@ export const postStatusEnum = pgEnum("post_status", [
   "archived"
 ]);
 
+export const securityEventTypeEnum = pgEnum("security_event_type", [
+  "sign_in", 
+  "sign_in_failed", 
+  "password_changed", 
+  "mfa_enabled", 
+  "mfa_disabled", 
+  "recovery_codes_regenerated", 
+  "recovery_code_used", 
+  "oauth_linked", 
+  "oauth_unlinked", 
+  "access_token_created", 
+  "access_token_revoked"
+]);
+
+export const orgRoleEnum = pgEnum("org_role", [
+  "owner", 
+  "admin", 
+  "member"
+]);
+
+export const signUpModeEnum = pgEnum("sign_up_mode", [
+  "open", 
+  "invite_only", 
+  "closed"
+]);
+
+export const accessTokenScopeEnum = pgEnum("access_token_scope", [
+  "posts:read", 
+  "posts:write", 
+  "comments:read", 
+  "comments:write"
+]);
+
 /**
  * Users Table
  * 
  * Core user entity with authentication and profile information.
- * Designed to work with Supabase Auth or custom authentication.
+ * Each row is the profile of a Supabase Auth user and shares its ID.
+ * Rows are created, kept in sync and deleted by database triggers on
+ * `auth.users` (see `drizzle/0001_auth_user_sync.sql`).
  */
 export const usersTable = pgTable("users", {
-  // Primary key - UUID is recommended for distributed systems
-  id: uuid("id").primaryKey().defaultRandom(),
+  // Primary key - same ID as the Supabase Auth user
+  id: uuid("id")
+    .primaryKey()
+    .references(() => authUsers.id, { onDelete: "cascade" }),
   
-  // Authentication fields
+  // Authentication fields - mirrored from auth.users
   email: varchar("email", { length: 255 }).notNull().unique(),
   emailVerified: timestamp("email_verified"),
   
@@ -74,11 +116,120 @@ export const usersTable = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+/**
+ * Organizations Table
+ * 
+ * Workspaces shared by several users. Access is granted through
+ * `memberships`; see `drizzle/0014_organization_policies.sql` for the
+ * row level security rules.
+ */
+export const organizationsTable = pgTable("organizations", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Display name and URL-friendly identifier
+  name: varchar("name", { length: 255 }).notNull(),
+  slug: varchar("slug", { length: 255 }).notNull().unique(),
+  
+  // User who created the organization
+  createdBy: uuid("created_by").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Memberships Table
+ * 
+ * Which users belong to which organization, with their role there.
+ * Org roles are independent of the app-wide `users.role`:
+ * owner > admin > member.
+ */
+export const membershipsTable = pgTable("memberships", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Organization and member
+  organizationId: uuid("organization_id")
+    .references(() => organizationsTable.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: uuid("user_id")
+    .references(() => usersTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  // Role within the organization
+  role: orgRoleEnum("role").default("member").notNull(),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("memberships_organization_id_user_id_unique").on(
+    table.organizationId,
+    table.userId
+  ),
+  index("memberships_user_id_idx").on(table.userId),
+]);
+
+/**
+ * Organization Invitations Table
+ * 
+ * Invitations to join an organization, sent by its admins to an email
+ * address. Works like `invitations`: single use, expiring, and only a
+ * SHA-256 hash of the token is stored.
+ */
+export const orgInvitationsTable = pgTable("org_invitations", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Organization to join
+  organizationId: uuid("organization_id")
+    .references(() => organizationsTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  // Address the invitation was sent to
+  email: varchar("email", { length: 255 }).notNull(),
+  
+  // Role the member gets
+  role: orgRoleEnum("role").default("member").notNull(),
+  
+  // Member who sent the invitation
+  invitedBy: uuid("invited_by").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // Hex-encoded SHA-256 of the invite token
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  
+  // Invitation period
+  expiresAt: timestamp("expires_at").notNull(),
+  
+  // Set when the invitation is accepted
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: uuid("accepted_by").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // Set when an admin withdraws the invitation
+  revokedAt: timestamp("revoked_at"),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("org_invitations_organization_id_idx").on(table.organizationId),
+]);
+
 /**
  * Posts Table
  * 
  * Example content table demonstrating relationships and more complex fields.
  * Perfect for blogs, social media, or any content-driven application.
+ * 
+ * Posts with an `organizationId` belong to that organization and are
+ * only visible to its members; posts without one are personal. Users
+ * can't change a post's author, organization or view count.
  */
 export const postsTable = pgTable("posts", {
   // Primary key
@@ -100,6 +251,12 @@ export const postsTable = pgTable("posts", {
     .references(() => usersTable.id, { onDelete: "cascade" })
     .notNull(),
   
+  // Owning organization - unset for personal posts
+  organizationId: uuid("organization_id").references(
+    () => organizationsTable.id,
+    { onDelete: "cascade" }
+  ),
+  
   // Timestamps
   publishedAt: timestamp("published_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -110,7 +267,8 @@ export const postsTable = pgTable("posts", {
  * Comments Table
  * 
  * Demonstrates many-to-one relationships and hierarchical data.
- * Shows how to handle user-generated content with moderation.
+ * Shows how to handle user-generated content with moderation: comments
+ * are created unapproved, and authors can only edit their text.
  */
 export const commentsTable = pgTable("comments", {
   // Primary key
@@ -138,6 +296,330 @@ export const commentsTable = pgTable("comments", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+/**
+ * MFA Recovery Codes Table
+ * 
+ * One-time codes that let a user back in when they lose their
+ * authenticator app. Only a SHA-256 hash of each code is stored;
+ * redeemed codes keep their row with `usedAt` set.
+ */
+export const mfaRecoveryCodesTable = pgTable("mfa_recovery_codes", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Owner of the code
+  userId: uuid("user_id")
+    .references(() => usersTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  // Hex-encoded SHA-256 of the normalized code
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  
+  // Set when the code is redeemed
+  usedAt: timestamp("used_at"),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Passkeys Table
+ * 
+ * WebAuthn credentials registered by users as an alternative to their
+ * password. Credential IDs and public keys are stored base64url-encoded.
+ */
+export const passkeysTable = pgTable("passkeys", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Owner of the credential
+  userId: uuid("user_id")
+    .references(() => usersTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  // User-chosen label, e.g. "MacBook Touch ID"
+  name: varchar("name", { length: 100 }).notNull(),
+  
+  // WebAuthn credential data
+  credentialId: text("credential_id").notNull().unique(),
+  publicKey: text("public_key").notNull(),
+  counter: integer("counter").default(0).notNull(),
+  transports: text("transports").array(),
+  
+  // "singleDevice" or "multiDevice" (synced passkeys)
+  deviceType: varchar("device_type", { length: 32 }).notNull(),
+  backedUp: boolean("backed_up").default(false).notNull(),
+  
+  // Timestamps
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * User Bans Table
+ * 
+ * Suspension history. A ban is active while it has not been lifted and
+ * `expiresAt` is unset or in the future, so timed bans end on their own.
+ * Lifted and expired bans are kept for auditing.
+ */
+export const userBansTable = pgTable("user_bans", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Suspended user
+  userId: uuid("user_id")
+    .references(() => usersTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  // Shown to the user on the /suspended page
+  reason: text("reason").notNull(),
+  
+  // Admin who issued the ban
+  bannedBy: uuid("banned_by").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // Ban period - no expiry means until lifted
+  startsAt: timestamp("starts_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"),
+  
+  // Set when an admin lifts the ban early
+  liftedAt: timestamp("lifted_at"),
+  liftedBy: uuid("lifted_by").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * User Sessions Table
+ * 
+ * Device and last-seen time of each Supabase session, recorded by
+ * middleware for the sessions page. The primary key is the `auth.sessions`
+ * id; the foreign key to it is added in SQL (`drizzle/0007_session_functions.sql`),
+ * so rows disappear when a session is revoked or signs out.
+ */
+export const userSessionsTable = pgTable("user_sessions", {
+  // Same as auth.sessions.id and the JWT `session_id` claim
+  sessionId: uuid("session_id").primaryKey(),
+  
+  // Session owner
+  userId: uuid("user_id")
+    .references(() => usersTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  // Client details from the last recorded request
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+});
+
+/**
+ * Rate Limits Table
+ * 
+ * Attempt counters for the auth server actions, keyed by action and a
+ * hashed email or IP address. Stored in Postgres so every serverless
+ * instance sees the same counts. Rows are only read while their window
+ * is open, so stale rows can be deleted at any time.
+ */
+export const rateLimitsTable = pgTable("rate_limits", {
+  // e.g. "signIn:email:<sha256>"
+  key: text("key").primaryKey(),
+  
+  // Attempts in the current window
+  attempts: integer("attempts").default(0).notNull(),
+  
+  // The counter restarts after this time
+  windowEndsAt: timestamp("window_ends_at").notNull(),
+  
+  // Progressive delay or lockout - attempts are rejected until then
+  blockedUntil: timestamp("blocked_until"),
+  
+  // Timestamps
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Security Events Table
+ * 
+ * Per-user log of security-relevant account activity, shown on the
+ * /settings/security page. `device` and `ipRange` are stored with each
+ * event so new-device sign-ins can be detected without parsing old rows.
+ */
+export const securityEventsTable = pgTable("security_events", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Account the event belongs to
+  userId: uuid("user_id")
+    .references(() => usersTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  type: securityEventTypeEnum("type").notNull(),
+  
+  // Client details of the request - device is e.g. "Chrome on macOS",
+  // ipRange the /24 (IPv4) or /48 (IPv6) network of ipAddress
+  ipAddress: text("ip_address"),
+  ipRange: text("ip_range"),
+  userAgent: text("user_agent"),
+  device: text("device"),
+  
+  // Event details such as the sign-in method or OAuth provider
+  metadata: jsonb("metadata").$type<Record<string, string>>().default({}).notNull(),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("security_events_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+/**
+ * Impersonations Table
+ * 
+ * Audit trail of admins signing in as other users for support. Each row
+ * is one impersonation session, from start to exit or expiry. Rows are
+ * kept after either user is deleted.
+ */
+export const impersonationsTable = pgTable("impersonations", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Admin who started the impersonation
+  adminId: uuid("admin_id").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // User being impersonated
+  targetUserId: uuid("target_user_id").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // auth.sessions id of the impersonation session - no foreign key, so
+  // the record outlives the session
+  sessionId: uuid("session_id").notNull(),
+  
+  // Why support needed access, e.g. a ticket number
+  reason: text("reason").notNull(),
+  
+  // Impersonation period
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  
+  // Set when the admin exits or the time limit ends the session
+  endedAt: timestamp("ended_at"),
+  endReason: text("end_reason"), // "exited" | "expired"
+}, (table) => [
+  index("impersonations_session_id_idx").on(table.sessionId),
+]);
+
+/**
+ * Personal Access Tokens Table
+ * 
+ * API tokens users create for scripts and integrations. Only a SHA-256
+ * hash of each token is stored; the token itself is shown once on
+ * creation. `tokenPrefix` is kept so users can tell their tokens apart.
+ */
+export const personalAccessTokensTable = pgTable("personal_access_tokens", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Owner of the token
+  userId: uuid("user_id")
+    .references(() => usersTable.id, { onDelete: "cascade" })
+    .notNull(),
+  
+  // User-chosen label, e.g. "Deploy script"
+  name: varchar("name", { length: 100 }).notNull(),
+  
+  // Hex-encoded SHA-256 of the token
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  
+  // First characters of the token, e.g. "neo_pat_Ab3x"
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(),
+  
+  // What the token may access
+  scopes: accessTokenScopeEnum("scopes").array().notNull(),
+  
+  // Unset means the token never expires
+  expiresAt: timestamp("expires_at"),
+  
+  // Timestamps
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("personal_access_tokens_user_id_idx").on(table.userId),
+]);
+
+/**
+ * Invitations Table
+ * 
+ * Sign-up invitations created by admins. Each invitation is for one
+ * email address, assigns its role to the new account and can be redeemed
+ * once before `expiresAt`. Only a SHA-256 hash of the token in the invite
+ * link is stored. Redeemed and revoked invitations are kept for auditing.
+ */
+export const invitationsTable = pgTable("invitations", {
+  // Primary key
+  id: uuid("id").primaryKey().defaultRandom(),
+  
+  // Address the invitation was sent to
+  email: varchar("email", { length: 255 }).notNull(),
+  
+  // Role the new account gets
+  role: userRoleEnum("role").default("user").notNull(),
+  
+  // Admin who sent the invitation
+  invitedBy: uuid("invited_by").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // Hex-encoded SHA-256 of the invite token
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  
+  // Invitation period
+  expiresAt: timestamp("expires_at").notNull(),
+  
+  // Set when the invitation is redeemed
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: uuid("accepted_by").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  
+  // Set when an admin withdraws the invitation
+  revokedAt: timestamp("revoked_at"),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("invitations_email_idx").on(table.email),
+]);
+
+/**
+ * Auth Settings Table
+ * 
+ * Single row of auth settings the database itself enforces. The
+ * `on_auth_user_creating` trigger reads `signUpMode` and rejects new
+ * `auth.users` rows that `SIGN_UP_MODE` doesn't allow, however the
+ * account is created. Synced from the environment with
+ * `bun run db:sign-up-mode`.
+ */
+export const authSettingsTable = pgTable("auth_settings", {
+  // Always true, so there is only one row
+  id: boolean("id").primaryKey().default(true),
+  
+  // Mirrors SIGN_UP_MODE
+  signUpMode: signUpModeEnum("sign_up_mode").default("open").notNull(),
+  
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, () => [
+  check("auth_settings_single_row", sql`id`),
+]);
+
 /**
  * Relationships Definition
  * 
@@ -152,6 +634,69 @@ export const usersRelations = relations(usersTable, ({ many }) => ({
   
   // One user can have many comments
   comments: many(commentsTable),
+  
+  // One user can have many MFA recovery codes
+  mfaRecoveryCodes: many(mfaRecoveryCodesTable),
+  
+  // One user can have many passkeys
+  passkeys: many(passkeysTable),
+  
+  // One user can have many bans (history)
+  bans: many(userBansTable, { relationName: "bannedUser" }),
+  
+  // One user can have many signed-in sessions
+  sessions: many(userSessionsTable),
+  
+  // One user can have many security events
+  securityEvents: many(securityEventsTable),
+  
+  // One user can have many personal access tokens
+  personalAccessTokens: many(personalAccessTokensTable),
+  
+  // One user can belong to many organizations
+  memberships: many(membershipsTable),
+}));
+
+// Organization relationships
+export const organizationsRelations = relations(organizationsTable, ({ many }) => ({
+  // One organization has many members
+  memberships: many(membershipsTable),
+  
+  // One organization can have many pending invitations
+  invitations: many(orgInvitationsTable),
+  
+  // One organization can have many posts
+  posts: many(postsTable),
+}));
+
+// Membership relationships
+export const membershipsRelations = relations(membershipsTable, ({ one }) => ({
+  // Each membership belongs to one organization
+  organization: one(organizationsTable, {
+    fields: [membershipsTable.organizationId],
+    references: [organizationsTable.id],
+  }),
+  
+  // Each membership belongs to one user
+  user: one(usersTable, {
+    fields: [membershipsTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+// Organization invitation relationships
+export const orgInvitationsRelations = relations(orgInvitationsTable, ({ one }) => ({
+  // Organization the invitation is for
+  organization: one(organizationsTable, {
+    fields: [orgInvitationsTable.organizationId],
+    references: [organizationsTable.id],
+  }),
+  
+  // Member who sent the invitation
+  invitedBy: one(usersTable, {
+    fields: [orgInvitationsTable.invitedBy],
+    references: [usersTable.id],
+  }),
 }));
 
 // Post relationships  
@@ -162,6 +707,12 @@ export const postsRelations = relations(postsTable, ({ one, many }) => ({
     references: [usersTable.id],
   }),
   
+  // Organization the post belongs to, if any
+  organization: one(organizationsTable, {
+    fields: [postsTable.organizationId],
+    references: [organizationsTable.id],
+  }),
+  
   // One post can have many comments
   comments: many(commentsTable),
 }));
@@ -190,6 +741,97 @@ export const commentsRelations = relations(commentsTable, ({ one, many }) => ({
   replies: many(commentsTable),
 }));
 
+// MFA recovery code relationships
+export const mfaRecoveryCodesRelations = relations(mfaRecoveryCodesTable, ({ one }) => ({
+  // Each recovery code belongs to one user
+  user: one(usersTable, {
+    fields: [mfaRecoveryCodesTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+// Passkey relationships
+export const passkeysRelations = relations(passkeysTable, ({ one }) => ({
+  // Each passkey belongs to one user
+  user: one(usersTable, {
+    fields: [passkeysTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+// User ban relationships
+export const userBansRelations = relations(userBansTable, ({ one }) => ({
+  // Each ban belongs to one user
+  user: one(usersTable, {
+    fields: [userBansTable.userId],
+    references: [usersTable.id],
+    relationName: "bannedUser",
+  }),
+  
+  // Admin who issued the ban
+  bannedBy: one(usersTable, {
+    fields: [userBansTable.bannedBy],
+    references: [usersTable.id],
+  }),
+}));
+
+// User session relationships
+export const userSessionsRelations = relations(userSessionsTable, ({ one }) => ({
+  // Each session belongs to one user
+  user: one(usersTable, {
+    fields: [userSessionsTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+// Impersonation relationships
+export const impersonationsRelations = relations(impersonationsTable, ({ one }) => ({
+  // Admin who started the impersonation
+  admin: one(usersTable, {
+    fields: [impersonationsTable.adminId],
+    references: [usersTable.id],
+  }),
+  
+  // User being impersonated
+  targetUser: one(usersTable, {
+    fields: [impersonationsTable.targetUserId],
+    references: [usersTable.id],
+  }),
+}));
+
+// Security event relationships
+export const securityEventsRelations = relations(securityEventsTable, ({ one }) => ({
+  // Each event belongs to one user
+  user: one(usersTable, {
+    fields: [securityEventsTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+// Personal access token relationships
+export const personalAccessTokensRelations = relations(personalAccessTokensTable, ({ one }) => ({
+  // Each token belongs to one user
+  user: one(usersTable, {
+    fields: [personalAccessTokensTable.userId],
+    references: [usersTable.id],
+  }),
+}));
+
+// Invitation relationships
+export const invitationsRelations = relations(invitationsTable, ({ one }) => ({
+  // Admin who sent the invitation
+  invitedBy: one(usersTable, {
+    fields: [invitationsTable.invitedBy],
+    references: [usersTable.id],
+  }),
+  
+  // Account created with the invitation
+  acceptedBy: one(usersTable, {
+    fields: [invitationsTable.acceptedBy],
+    references: [usersTable.id],
+  }),
+}));
+
 /**
  * Type Inference Helpers
  * 
@@ -201,11 +843,35 @@ export const commentsRelations = relations(commentsTable, ({ one, many }) => ({
 export type InsertUser = typeof usersTable.$inferInsert;
 export type InsertPost = typeof postsTable.$inferInsert;
 export type InsertComment = typeof commentsTable.$inferInsert;
+export type InsertMfaRecoveryCode = typeof mfaRecoveryCodesTable.$inferInsert;
+export type InsertPasskey = typeof passkeysTable.$inferInsert;
+export type InsertUserBan = typeof userBansTable.$inferInsert;
+export type InsertRateLimit = typeof rateLimitsTable.$inferInsert;
+export type InsertUserSession = typeof userSessionsTable.$inferInsert;
+export type InsertSecurityEvent = typeof securityEventsTable.$inferInsert;
+export type InsertImpersonation = typeof impersonationsTable.$inferInsert;
+export type InsertPersonalAccessToken = typeof personalAccessTokensTable.$inferInsert;
+export type InsertInvitation = typeof invitationsTable.$inferInsert;
+export type InsertOrganization = typeof organizationsTable.$inferInsert;
+export type InsertMembership = typeof membershipsTable.$inferInsert;
+export type InsertOrgInvitation = typeof orgInvitationsTable.$inferInsert;
 
 // Select types - for reading existing records
 export type SelectUser = typeof usersTable.$inferSelect;
 export type SelectPost = typeof postsTable.$inferSelect;
 export type SelectComment = typeof commentsTable.$inferSelect;
+export type SelectMfaRecoveryCode = typeof mfaRecoveryCodesTable.$inferSelect;
+export type SelectPasskey = typeof passkeysTable.$inferSelect;
+export type SelectUserBan = typeof userBansTable.$inferSelect;
+export type SelectRateLimit = typeof rateLimitsTable.$inferSelect;
+export type SelectUserSession = typeof userSessionsTable.$inferSelect;
+export type SelectSecurityEvent = typeof securityEventsTable.$inferSelect;
+export type SelectImpersonation = typeof impersonationsTable.$inferSelect;
+export type SelectPersonalAccessToken = typeof personalAccessTokensTable.$inferSelect;
+export type SelectInvitation = typeof invitationsTable.$inferSelect;
+export type SelectOrganization = typeof organizationsTable.$inferSelect;
+export type SelectMembership = typeof membershipsTable.$inferSelect;
+export type SelectOrgInvitation = typeof orgInvitationsTable.$inferSelect;
 
 /**
  * Usage Examples:
@@ -0,0 +1,83 @@
+import { env } from "@/lib/env";
+
+/**
+ * Transactional Email
+ *
+ * Sends emails the app writes itself (security alerts and the like)
+ * through the Resend API. Emails sent by Supabase Auth (confirmation,
+ * magic links, password resets) are configured in the Supabase dashboard
+ * instead.
+ *
+ * Without `RESEND_API_KEY` nothing is sent: in development the email is
+ * logged to the console, elsewhere it is dropped with a warning, so local
+ * setups work without an email provider.
+ *
+ * @see https://resend.com/docs/api-reference/emails/send-email
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  /** Plain text body */
+  text: string;
+  /** Optional HTML body; clients without HTML support show `text` */
+  html?: string;
+}
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+/**
+ * Send Email
+ *
+ * Errors are logged rather than thrown, so a failing email provider
+ * never breaks the flow that sends the email.
+ *
+ * @param message - Recipient, subject and body
+ * @returns Whether the email was accepted for delivery
+ */
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  if (!env.RESEND_API_KEY) {
+    if (env.NODE_ENV === "development") {
+      console.info(
+        `[email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+      );
+    } else {
+      console.warn(
+        "RESEND_API_KEY is not set, email not sent:",
+        message.subject,
+      );
+    }
+    return false;
+  }
+
+  try {
+    const response = await fetch(RESEND_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${env.RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: env.EMAIL_FROM,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error(
+        "Error sending email:",
+        response.status,
+        await response.text(),
+      );
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error sending email:", error);
+    return false;
+  }
+}
@@ -49,6 +49,24 @@ export const env = createEnv({
       .default("development")
       .describe("Current environment"),
     
+    // Auth rate limit counters - "memory" only works on a single instance
+    RATE_LIMIT_STORE: z
+      .enum(["postgres", "memory"])
+      .optional()
+      .describe("Counter store for auth rate limits (defaults to memory in tests, postgres otherwise)"),
+    
+    // Auth backend - "memory" runs offline with seeded users, never in production
+    AUTH_ADAPTER: z
+      .enum(["supabase", "memory"])
+      .optional()
+      .describe("Auth backend for sign-in and sessions (defaults to memory in tests, supabase otherwise)"),
+    
+    // Who can create an account
+    SIGN_UP_MODE: z
+      .enum(["open", "invite_only", "closed"])
+      .default("open")
+      .describe("Sign-up policy: anyone, only with an admin invitation, or nobody"),
+    
     // Optional: Analytics and monitoring
     SENTRY_DSN: z
       .string()
@@ -62,6 +80,11 @@ export const env = createEnv({
       .optional()
       .describe("Resend API key for transactional emails"),
     
+    EMAIL_FROM: z
+      .string()
+      .default("Neo <onboarding@resend.dev>")
+      .describe("Sender address for transactional emails, e.g. \"Neo <security@example.com>\""),
+    
     // Optional: OpenAI integration
     OPENAI_API_KEY: z
       .string()
@@ -99,6 +122,20 @@ export const env = createEnv({
       .min(1, "NEXT_PUBLIC_SUPABASE_ANON_KEY is required for client operations")
       .describe("Supabase anonymous/public key"),
     
+    // OAuth providers offered for sign-in and account linking
+    NEXT_PUBLIC_OAUTH_PROVIDERS: z
+      .string()
+      .default("google,github,discord,facebook,twitter")
+      .transform((value) =>
+        value.split(",").map((provider) => provider.trim()).filter(Boolean)
+      )
+      .pipe(
+        z.array(
+          z.string().regex(/^[a-z_]+$/, "NEXT_PUBLIC_OAUTH_PROVIDERS must list Supabase provider IDs, e.g. \"google,github\"")
+        )
+      )
+      .describe("Comma-separated Supabase OAuth provider IDs, enabled in the Supabase dashboard"),
+    
     // Optional: Analytics
     NEXT_PUBLIC_GA_MEASUREMENT_ID: z
       .string()
@@ -142,8 +179,12 @@ export const env = createEnv({
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
     SUPABASE_JWT_SECRET: process.env.SUPABASE_JWT_SECRET,
     NODE_ENV: process.env.NODE_ENV,
+    RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+    AUTH_ADAPTER: process.env.AUTH_ADAPTER,
+    SIGN_UP_MODE: process.env.SIGN_UP_MODE,
     SENTRY_DSN: process.env.SENTRY_DSN,
     RESEND_API_KEY: process.env.RESEND_API_KEY,
+    EMAIL_FROM: process.env.EMAIL_FROM,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
     STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
     STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
@@ -151,6 +192,7 @@ export const env = createEnv({
     // Client variables  
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    NEXT_PUBLIC_OAUTH_PROVIDERS: process.env.NEXT_PUBLIC_OAUTH_PROVIDERS,
     NEXT_PUBLIC_GA_MEASUREMENT_ID: process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID,
     NEXT_PUBLIC_POSTHOG_KEY: process.env.NEXT_PUBLIC_POSTHOG_KEY,
     NEXT_PUBLIC_POSTHOG_HOST: process.env.NEXT_PUBLIC_POSTHOG_HOST,
@@ -0,0 +1,50 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/supabase";
+
+/**
+ * Supabase Service Role Client
+ *
+ * A cookie-free client authenticated with the service role key, for
+ * admin operations inside the app and for cron jobs, seeds and CLI
+ * scripts outside a request. Request code gets the same client from
+ * `createAdminClient()` in `@/lib/supabase/server`.
+ *
+ * This file must not import Next, React or `@/lib/env`: scripts run
+ * without a request and without the rest of the app's configuration, so
+ * it only reads the two variables it needs.
+ *
+ * Usage in a cron job or CLI script:
+ * ```ts
+ * import { createServiceRoleClient } from '@/lib/supabase/admin'
+ *
+ * const supabase = createServiceRoleClient()
+ * await supabase.from('org_invitations').delete().lt('expires_at', new Date().toISOString())
+ * ```
+ *
+ * ⚠️ SECURITY WARNING: This client bypasses all RLS policies. Only use
+ * it for trusted operations.
+ */
+
+export function createServiceRoleClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceRoleKey) {
+    throw new Error(
+      "NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required " +
+        "for admin operations. Add them to your environment variables.",
+    );
+  }
+
+  // Without a cookie store the client never picks up the signed-in
+  // user's token, which would make queries run under their RLS policies
+  return createClient<Database>(url, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
+
+export type SupabaseAdminClient = ReturnType<typeof createServiceRoleClient>;
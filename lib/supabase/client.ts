@@ -1,5 +1,6 @@
 import { createBrowserClient } from "@supabase/ssr";
 import { env } from "@/lib/env";
+import { authCookieOptions } from "@/lib/supabase/cookies";
 import type { Database } from "@/types/supabase";
 
 /**
@@ -32,7 +33,8 @@ import type { Database } from "@/types/supabase";
 export function createClient() {
   return createBrowserClient<Database>(
     env.NEXT_PUBLIC_SUPABASE_URL,
-    env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    { cookieOptions: authCookieOptions }
   );
 }
 
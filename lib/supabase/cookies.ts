@@ -0,0 +1,23 @@
+import type { CookieOptionsWithName } from "@supabase/ssr";
+
+/**
+ * Supabase Auth Cookie Policy
+ *
+ * Every client that writes the session cookies (server clients,
+ * middleware and the browser client) passes these options to
+ * `@supabase/ssr`, so the cookies look the same whoever refreshed them
+ * last. Supabase merges them into each cookie it sets, next to its own
+ * `maxAge`.
+ *
+ * This file is used by middleware and the browser and must stay Edge
+ * compatible.
+ */
+export const authCookieOptions: CookieOptionsWithName = {
+  // Available on every page, not just the route that refreshed them
+  path: "/",
+  // Sent on top-level navigations, so OAuth and email links keep the session
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  // The browser client reads the session from these cookies
+  httpOnly: false,
+};
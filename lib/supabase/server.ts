@@ -1,6 +1,9 @@
-import { createServerClient } from "@supabase/ssr";
+import { type CookieMethodsServer, createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import { cache } from "react";
 import { env } from "@/lib/env";
+import { createServiceRoleClient, type SupabaseAdminClient } from "@/lib/supabase/admin";
+import { authCookieOptions } from "@/lib/supabase/cookies";
 import type { Database } from "@/types/supabase";
 
 /**
@@ -11,16 +14,125 @@ import type { Database } from "@/types/supabase";
  * - API Routes  
  * - Server Actions
  * - Middleware
+ * - Admin operations (service role, from `@/lib/supabase/admin`)
  * 
  * Key features:
  * - Cookie-based session management for SSR
  * - Automatic session refresh on server
  * - Type-safe database operations
  * - Support for both read-only and read-write operations
+ * - One read-only client per request
+ * 
+ * `createClient` is memoized with React `cache`; the memo only lives as
+ * long as the request, so it never leaks between users. Every other
+ * client is created on each call. The current user and session are read
+ * with the helpers of `@/lib/auth`, which build on that client.
+ * 
+ * Cron jobs, seeds and CLI scripts run outside a request and can't load
+ * this file; they use `createServiceRoleClient` from
+ * `@/lib/supabase/admin`.
  * 
  * @see https://supabase.com/docs/guides/auth/server-side/nextjs
  */
 
+/**
+ * Where a client is used. Decides how it treats cookies and which key
+ * it authenticates with:
+ * 
+ * - `server-component`: reads the session cookies. Server Components
+ *   can't write cookies, so refreshed tokens are dropped; middleware
+ *   writes them instead.
+ * - `route`, `action`: read and write the session cookies
+ * - `admin`: service role key, no cookies. Bypasses RLS.
+ * - `script`: the same client, for app code that doesn't run in a
+ *   request. Standalone cron jobs and CLI scripts can't load this file
+ *   and import `@/lib/supabase/admin` instead.
+ */
+export type SupabaseClientContext =
+  | 'server-component'
+  | 'route'
+  | 'action'
+  | 'admin'
+  | 'script';
+
+type ServiceRoleContext = Extract<SupabaseClientContext, 'admin' | 'script'>;
+
+/**
+ * Cookie methods for `@supabase/ssr` and the auth adapter, backed by
+ * the cookies of the current request
+ * 
+ * @param context - Where the cookies are used; only Server Components
+ * may drop writes
+ */
+export async function getRequestCookies(
+  context: Exclude<SupabaseClientContext, ServiceRoleContext>
+): Promise<CookieMethodsServer> {
+  const cookieStore = await cookies();
+
+  return {
+    getAll() {
+      return cookieStore.getAll();
+    },
+    
+    // `options` already carry `authCookieOptions`
+    setAll(cookiesToSet) {
+      try {
+        cookiesToSet.forEach(({ name, value, options }) =>
+          cookieStore.set(name, value, options)
+        );
+      } catch (error) {
+        // Server Components can't set cookies; middleware refreshes
+        // the session for them
+        if (context !== 'server-component') {
+          throw error;
+        }
+      }
+    },
+  };
+}
+
+async function createCookieClient(context: Exclude<SupabaseClientContext, ServiceRoleContext>) {
+  return createServerClient<Database>(
+    env.NEXT_PUBLIC_SUPABASE_URL,
+    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    {
+      cookieOptions: authCookieOptions,
+      cookies: await getRequestCookies(context),
+    }
+  );
+}
+
+/**
+ * Create Supabase Client
+ * 
+ * The one factory behind every server-side client. Session cookies are
+ * written with the central policy in `@/lib/supabase/cookies`.
+ * 
+ * Usage in a Route Handler:
+ * ```ts
+ * import { createSupabaseClient } from '@/lib/supabase/server'
+ * 
+ * const supabase = await createSupabaseClient('route')
+ * const { data: posts } = await supabase.from('posts').select('*')
+ * ```
+ * 
+ * ⚠️ SECURITY WARNING: `admin` and `script` clients bypass all RLS
+ * policies. Only use them for trusted operations.
+ * 
+ * @param context - Where the client is used
+ */
+export function createSupabaseClient(context: ServiceRoleContext): Promise<SupabaseAdminClient>;
+export function createSupabaseClient(
+  context: Exclude<SupabaseClientContext, ServiceRoleContext>
+): Promise<SupabaseServerClient>;
+export async function createSupabaseClient(context: SupabaseClientContext) {
+  if (context === 'admin' || context === 'script') {
+    return createServiceRoleClient();
+  }
+
+  return createCookieClient(context);
+}
+
 /**
  * Create Supabase client for Server Components
  * 
@@ -38,36 +150,10 @@ import type { Database } from "@/types/supabase";
  *   return <div>{posts?.map(post => ...)}</div>
  * }
  * ```
+ * 
+ * Memoized per request.
  */
-export async function createClient() {
-  const cookieStore = await cookies();
-
-  return createServerClient<Database>(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-    {
-      cookies: {
-        // Read cookies for authentication state
-        getAll() {
-          return cookieStore.getAll();
-        },
-        
-        // Server Components are read-only, so we provide empty implementations
-        setAll(cookiesToSet) {
-          try {
-            cookiesToSet.forEach(({ name, value, options }) =>
-              cookieStore.set(name, value, options)
-            );
-          } catch {
-            // The `setAll` method was called from a Server Component.
-            // This can be ignored if you have middleware refreshing
-            // user sessions.
-          }
-        },
-      },
-    }
-  );
-}
+export const createClient = cache(() => createSupabaseClient('server-component'));
 
 /**
  * Create Supabase client for API Routes
@@ -94,28 +180,8 @@ export async function createClient() {
  * }
  * ```
  */
-export async function createRouteHandlerClient() {
-  const cookieStore = await cookies();
-
-  return createServerClient<Database>(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-    {
-      cookies: {
-        // Read all cookies
-        getAll() {
-          return cookieStore.getAll();
-        },
-        
-        // Set multiple cookies (for auth state updates)
-        setAll(cookiesToSet) {
-          cookiesToSet.forEach(({ name, value, options }) => {
-            cookieStore.set(name, value, options);
-          });
-        },
-      },
-    }
-  );
+export function createRouteHandlerClient() {
+  return createSupabaseClient('route');
 }
 
 /**
@@ -145,36 +211,8 @@ export async function createRouteHandlerClient() {
  * }
  * ```
  */
-export async function createActionClient() {
-  const cookieStore = await cookies();
-
-  return createServerClient<Database>(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-    {
-      cookies: {
-        // Read all cookies
-        getAll() {
-          return cookieStore.getAll();
-        },
-        
-        // Set multiple cookies with proper options
-        setAll(cookiesToSet) {
-          cookiesToSet.forEach(({ name, value, options }) => {
-            cookieStore.set(name, value, {
-              ...options,
-              // Ensure cookies are available across the app
-              path: '/',
-              // Set security options for production
-              secure: process.env.NODE_ENV === 'production',
-              sameSite: 'lax',
-              httpOnly: false, // Allow client-side access for auth
-            });
-          });
-        },
-      },
-    }
-  );
+export function createActionClient() {
+  return createSupabaseClient('action');
 }
 
 /**
@@ -182,7 +220,8 @@ export async function createActionClient() {
  * 
  * Use this for admin operations that bypass RLS (Row Level Security).
  * This should ONLY be used in server-side contexts where you need
- * elevated permissions.
+ * elevated permissions. The client ignores the request's cookies; to
+ * act as the signed-in user, use one of the clients above.
  * 
  * ⚠️ SECURITY WARNING: This client bypasses all RLS policies!
  * Only use for trusted admin operations.
@@ -192,7 +231,7 @@ export async function createActionClient() {
  * import { createAdminClient } from '@/lib/supabase/server'
  * 
  * export async function deleteUserAccount(userId: string) {
- *   const supabase = createAdminClient()
+ *   const supabase = await createAdminClient()
  *   
  *   // This bypasses RLS and can delete any user
  *   const { error } = await supabase
@@ -204,129 +243,15 @@ export async function createActionClient() {
  * }
  * ```
  */
-export async function createAdminClient() {
-  if (!env.SUPABASE_SERVICE_ROLE_KEY) {
-    throw new Error(
-      'SUPABASE_SERVICE_ROLE_KEY is required for admin operations. ' +
-      'Add it to your environment variables.'
-    );
-  }
-
-  const cookieStore = await cookies();
-
-  return createServerClient<Database>(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.SUPABASE_SERVICE_ROLE_KEY,
-    {
-      cookies: {
-        getAll() {
-          return cookieStore.getAll();
-        },
-        setAll(cookiesToSet) {
-          // For admin client, we don't need to set cookies
-          // but the interface requires it
-          try {
-            cookiesToSet.forEach(({ name, value, options }) =>
-              cookieStore.set(name, value, options)
-            );
-          } catch {
-            // Admin operations don't need cookie management
-          }
-        },
-      },
-      auth: {
-        // Disable automatic token refresh for service role
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    }
-  );
-}
-
-/**
- * Helper function to get current user from server context
- * 
- * This is a convenience function that handles the common pattern
- * of getting the current authenticated user on the server.
- * 
- * Usage:
- * ```tsx
- * import { getCurrentUser } from '@/lib/supabase/server'
- * 
- * export default async function ProtectedPage() {
- *   const user = await getCurrentUser()
- *   
- *   if (!user) {
- *     redirect('/login')
- *   }
- *   
- *   return <div>Welcome, {user.email}!</div>
- * }
- * ```
- */
-export async function getCurrentUser() {
-  const supabase = await createClient();
-  
-  try {
-    const { data: { user }, error } = await supabase.auth.getUser();
-    
-    if (error) {
-      console.error('Error getting user:', error.message);
-      return null;
-    }
-    
-    return user;
-  } catch (error) {
-    console.error('Unexpected error getting user:', error);
-    return null;
-  }
-}
-
-/**
- * Helper function to get current session from server context
- * 
- * This retrieves the full session including access token,
- * which is useful for operations that need token information.
- * 
- * Usage:
- * ```tsx
- * import { getCurrentSession } from '@/lib/supabase/server'
- * 
- * export async function GET() {
- *   const session = await getCurrentSession()
- *   
- *   if (!session) {
- *     return Response.json({ error: 'Unauthorized' }, { status: 401 })
- *   }
- *   
- *   // Access token is available in session.access_token
- *   return Response.json({ user: session.user })
- * }
- * ```
- */
-export async function getCurrentSession() {
-  const supabase = await createClient();
-  
-  try {
-    const { data: { session }, error } = await supabase.auth.getSession();
-    
-    if (error) {
-      console.error('Error getting session:', error.message);
-      return null;
-    }
-    
-    return session;
-  } catch (error) {
-    console.error('Unexpected error getting session:', error);
-    return null;
-  }
+export function createAdminClient() {
+  return createSupabaseClient('admin');
 }
 
 /**
  * Type exports for convenience
  */
-export type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
-export type SupabaseAdminClient = Awaited<ReturnType<typeof createAdminClient>>;
+export type SupabaseServerClient = Awaited<ReturnType<typeof createCookieClient>>;
+export type { SupabaseAdminClient };
 
 /**
  * Usage Examples:
@@ -0,0 +1,127 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMemoryAuthAdapter,
+  MEMORY_SESSION_COOKIE,
+  memorySeedUsers,
+  resetMemoryAuth,
+} from "@/lib/auth/memory-adapter";
+import { SESSION_ACTIVITY_COOKIE } from "@/lib/auth/session-activity";
+import { middleware } from "@/middleware";
+
+vi.mock("@/lib/env", () => ({
+  env: {
+    NODE_ENV: "test",
+    AUTH_ADAPTER: "memory",
+    NEXT_PUBLIC_APP_URL: "https://app.example.com",
+  },
+}));
+
+const [admin, , user] = memorySeedUsers;
+
+/**
+ * Signs in through the memory adapter and returns its session cookie
+ * value
+ */
+async function signIn(account: { email: string; password: string }) {
+  let session = "";
+
+  await createMemoryAuthAdapter({
+    getAll: () => [],
+    setAll: (cookies) => {
+      session = cookies[0].value;
+    },
+  }).signInWithPassword(account);
+
+  return session;
+}
+
+/** The memory session cookie holds the user, so it can be edited */
+function withUser(session: string, changes: Record<string, unknown>) {
+  const value = JSON.parse(decodeURIComponent(session));
+  value.user = { ...value.user, ...changes };
+
+  return encodeURIComponent(JSON.stringify(value));
+}
+
+async function visit(path: string, session?: string) {
+  const request = new NextRequest(new URL(path, "https://app.example.com"), {
+    headers: session ? { cookie: `${MEMORY_SESSION_COOKIE}=${session}` } : {},
+  });
+
+  return middleware(request);
+}
+
+function redirectOf(response: Response) {
+  const location = response.headers.get("location");
+  return location && new URL(location).pathname + new URL(location).search;
+}
+
+beforeEach(async () => {
+  await resetMemoryAuth();
+});
+
+describe("middleware", () => {
+  it("lets visitors open public pages", async () => {
+    const response = await visit("/pricing");
+
+    expect(redirectOf(response)).toBeNull();
+  });
+
+  it("sends visitors to the login page with the requested path", async () => {
+    const response = await visit("/dashboard/posts?tab=drafts");
+
+    expect(response.status).toBe(307);
+    expect(redirectOf(response)).toBe(
+      `/login?redirectTo=${encodeURIComponent("/dashboard/posts?tab=drafts")}`,
+    );
+  });
+
+  it("lets signed-in users into the app and records the session", async () => {
+    const response = await visit("/dashboard", await signIn(user));
+
+    expect(redirectOf(response)).toBeNull();
+    expect(response.cookies.get(SESSION_ACTIVITY_COOKIE)?.value).toBeTruthy();
+  });
+
+  it("sends signed-in users away from sign-in pages", async () => {
+    const session = await signIn(user);
+
+    expect(redirectOf(await visit("/login", session))).toBe("/dashboard");
+    expect(
+      redirectOf(await visit("/login?redirectTo=/settings/profile", session)),
+    ).toBe("/settings/profile");
+  });
+
+  it("ignores unsafe or sign-in redirect targets", async () => {
+    const session = await signIn(user);
+
+    expect(
+      redirectOf(await visit("/login?redirectTo=//evil.com", session)),
+    ).toBe("/dashboard");
+    expect(redirectOf(await visit("/login?redirectTo=/signup", session))).toBe(
+      "/dashboard",
+    );
+  });
+
+  it("sends suspended users to the suspension page", async () => {
+    const session = withUser(await signIn(user), { isActive: false });
+
+    expect(redirectOf(await visit("/dashboard", session))).toBe("/suspended");
+    expect(redirectOf(await visit("/suspended", session))).toBeNull();
+  });
+
+  it("keeps users below the admin role out of the admin area", async () => {
+    const response = await visit("/admin/users", await signIn(user));
+
+    expect(redirectOf(response)).toBe("/dashboard");
+  });
+
+  it("asks admins without an authenticator to set one up", async () => {
+    const response = await visit("/admin", await signIn(admin));
+
+    expect(redirectOf(response)).toBe(
+      `/settings/mfa?redirectTo=${encodeURIComponent("/admin")}`,
+    );
+  });
+});
@@ -1,10 +1,21 @@
-import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
-import { env } from "@/lib/env";
+import { createAuthAdapter } from "@/lib/auth/adapter";
+import { isImpersonationExpired } from "@/lib/auth/claims";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+import { findRouteRule, resolveRoute, type RouteUser } from "@/lib/auth/routes";
+import {
+  getSessionActivityCookie,
+  SESSION_ACTIVITY_COOKIE,
+  shouldRecordSessionActivity,
+} from "@/lib/auth/session-activity";
+import { getRequestIp, isBanned } from "@/lib/auth/utils";
 
 /**
  * Next.js Middleware for Supabase Authentication
  * 
+ * Sessions are read through the auth adapter selected by `AUTH_ADAPTER`
+ * (`lib/auth/adapter.ts`), Supabase unless configured otherwise.
+ * 
  * This middleware runs on every request and handles:
  * - Automatic session refresh
  * - Auth state synchronization between client and server
@@ -20,184 +31,130 @@ import { env } from "@/lib/env";
  * @see https://supabase.com/docs/guides/auth/server-side/nextjs
  */
 
-/**
- * Protected route patterns
- * 
- * Define which routes require authentication.
- * Users will be redirected to login if not authenticated.
- */
-const protectedRoutes = [
-  '/dashboard',
-  '/profile',
-  '/settings',
-  '/admin',
-  // Add your protected routes here
-] as const;
-
-/**
- * Auth route patterns
- * 
- * Define routes that are only for unauthenticated users.
- * Authenticated users will be redirected away from these routes.
- */
-const authRoutes = [
-  '/login',
-  '/signup',
-  '/forgot-password',
-  '/reset-password',
-] as const;
-
-/**
- * Public route patterns that bypass all auth checks
- * 
- * These routes are accessible to everyone regardless of auth status.
- */
-const publicRoutes = [
-  '/',
-  '/about',
-  '/contact',
-  '/pricing',
-  '/blog',
-  // Add your public routes here
-] as const;
-
-/**
- * Admin route patterns that require admin role
- * 
- * These routes require both authentication and admin privileges.
- */
-const adminRoutes = [
-  '/admin',
-  // Add your admin routes here
-] as const;
-
 export async function middleware(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
     request,
   });
 
-  const supabase = createServerClient(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-    {
-      cookies: {
-        getAll() {
-          return request.cookies.getAll();
-        },
-        setAll(cookiesToSet) {
-          // Set cookies in the request for Server Components
-          cookiesToSet.forEach(({ name, value }) => {
-            request.cookies.set(name, value);
-          });
-          
-          // Set cookies in the response for the browser
-          supabaseResponse = NextResponse.next({
-            request,
-          });
-          
-          cookiesToSet.forEach(({ name, value, options }) => {
-            supabaseResponse.cookies.set(name, value, options);
-          });
-        },
-      },
-    }
-  );
+  const adapter = createAuthAdapter({
+    getAll() {
+      return request.cookies.getAll();
+    },
+    setAll(cookiesToSet) {
+      // Set cookies in the request for Server Components
+      cookiesToSet.forEach(({ name, value }) => {
+        request.cookies.set(name, value);
+      });
+      
+      // Set cookies in the response for the browser
+      supabaseResponse = NextResponse.next({
+        request,
+      });
+      
+      cookiesToSet.forEach(({ name, value, options }) => {
+        supabaseResponse.cookies.set(name, value, options);
+      });
+    },
+  });
 
-  // IMPORTANT: Avoid writing any logic between createServerClient and
-  // supabase.auth.getUser(). A simple mistake could make it very hard to debug
+  // IMPORTANT: Avoid writing any logic between creating the adapter and
+  // adapter.getSession(). A simple mistake could make it very hard to debug
   // issues with users being randomly logged out.
 
-  const {
-    data: { user },
-    error: userError,
-  } = await supabase.auth.getUser();
-
-  // Log auth errors for debugging (only in development)
-  if (userError && process.env.NODE_ENV === 'development') {
-    console.warn('Auth middleware error:', userError.message);
-  }
+  // Refreshes expired tokens, and tokens whose role changed after they
+  // were issued, so this request and RLS policies see the new claims
+  const session = await adapter.getSession({ refreshStaleClaims: true });
 
   const { pathname } = request.nextUrl;
 
-  // Handle auth callback routes (OAuth, magic links, etc.)
-  if (pathname.startsWith('/auth/callback')) {
-    // Let the callback route handle the auth flow
+  // Public pages (including /auth/callback) need no further checks
+  if (findRouteRule(pathname).access === 'public') {
     return supabaseResponse;
   }
 
-  // Check if the current route is protected
-  const isProtectedRoute = protectedRoutes.some(route => 
-    pathname.startsWith(route)
-  );
+  let routeUser: RouteUser | null = null;
 
-  // Check if the current route is an auth route
-  const isAuthRoute = authRoutes.some(route => 
-    pathname.startsWith(route)
-  );
+  if (session) {
+    const { user, claims, sessionId } = session;
 
-  // Check if the current route is public
-  const isPublicRoute = publicRoutes.some(route => 
-    pathname === route || pathname.startsWith(`${route}/`)
-  );
+    // Impersonation sessions end when their time limit is up
+    if (isImpersonationExpired(claims)) {
+      const response = NextResponse.redirect(new URL('/auth/impersonation/end', request.url));
+      supabaseResponse.cookies.getAll().forEach((cookie) => {
+        response.cookies.set(cookie);
+      });
 
-  // Check if the current route requires admin access
-  const isAdminRoute = adminRoutes.some(route => 
-    pathname.startsWith(route)
-  );
+      return response;
+    }
 
-  // Allow public routes for everyone
-  if (isPublicRoute && !isProtectedRoute) {
-    return supabaseResponse;
+    // Record device and last-seen time for the sessions page, at most
+    // once per interval per session
+    if (
+      sessionId &&
+      shouldRecordSessionActivity(request.cookies.get(SESSION_ACTIVITY_COOKIE)?.value, sessionId)
+    ) {
+      try {
+        await adapter.recordSessionActivity({
+          userAgent: request.headers.get('user-agent') ?? '',
+          ip: getRequestIp(request.headers),
+        });
+      } catch (error) {
+        console.error('Failed to record session activity:', error);
+      }
+
+      supabaseResponse.cookies.set(SESSION_ACTIVITY_COOKIE, getSessionActivityCookie(sessionId), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+      });
+    }
+
+    routeUser = {
+      role: claims?.role ?? null,
+      // getUser() returns the current ban, even if the token predates it
+      isActive: (claims?.isActive ?? true) && !isBanned(user),
+      emailVerified: Boolean(user.email_confirmed_at),
+      currentLevel: session.currentLevel,
+      nextLevel: session.nextLevel,
+      isImpersonated: Boolean(claims?.impersonation),
+    };
   }
 
-  // Handle protected routes
-  if (isProtectedRoute) {
-    if (!user) {
-      // Redirect unauthenticated users to login
-      const redirectUrl = request.nextUrl.clone();
-      redirectUrl.pathname = '/login';
-      redirectUrl.searchParams.set('redirectTo', pathname);
-      return NextResponse.redirect(redirectUrl);
+  const decision = resolveRoute(pathname, routeUser);
+
+  if (decision.action === 'redirect') {
+    let redirectUrl = new URL(decision.destination, request.url);
+
+    if (decision.returnTo) {
+      // Keep the query, e.g. the token of an organization invite link
+      redirectUrl.searchParams.set(
+        'redirectTo',
+        pathname + request.nextUrl.search
+      );
     }
 
-    // Check admin routes
-    if (isAdminRoute) {
-      // Get user role from your database or user metadata
-      // This is a simplified example - implement according to your auth setup
-      const { data: profile } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', user.id)
-        .single();
+    // Send signed-in users on auth pages to where they wanted to go
+    if (decision.reason === 'authenticated') {
+      const redirectTo = getSafeRedirectPath(
+        request.nextUrl.searchParams.get('redirectTo'),
+        decision.destination,
+        { origin: request.nextUrl.origin }
+      );
+      const target = new URL(redirectTo, request.url);
 
-      if (profile?.role !== 'admin') {
-        // Redirect non-admin users to dashboard or show 403
-        const redirectUrl = request.nextUrl.clone();
-        redirectUrl.pathname = '/dashboard';
-        return NextResponse.redirect(redirectUrl);
+      if (findRouteRule(target.pathname).access !== 'anonymous') {
+        redirectUrl = target;
       }
     }
-  }
 
-  // Handle auth routes (login, signup, etc.)
-  if (isAuthRoute && user) {
-    // Redirect authenticated users away from auth pages
-    const redirectUrl = request.nextUrl.clone();
-    
-    // Check if there's a redirect destination
-    const redirectTo = request.nextUrl.searchParams.get('redirectTo');
-    
-    if (redirectTo && !authRoutes.some(route => redirectTo.startsWith(route))) {
-      // Redirect to the intended destination
-      redirectUrl.pathname = redirectTo;
-      redirectUrl.search = '';
-    } else {
-      // Default redirect for authenticated users
-      redirectUrl.pathname = '/dashboard';
-      redirectUrl.search = '';
-    }
-    
-    return NextResponse.redirect(redirectUrl);
+    // Keep refreshed session cookies on the redirect
+    const response = NextResponse.redirect(redirectUrl);
+    supabaseResponse.cookies.getAll().forEach((cookie) => {
+      response.cookies.set(cookie);
+    });
+
+    return response;
   }
 
   // IMPORTANT: You *must* return the supabaseResponse object as it is. If you're
@@ -247,27 +204,51 @@ export const config = {
  * Usage Notes:
  * 
  * 1. Route Protection:
- *    - Add new protected routes to the `protectedRoutes` array
- *    - Add new auth routes to the `authRoutes` array
- *    - Add new public routes to the `publicRoutes` array
+ *    - Routes and their requirements are declared in the `routes`
+ *      manifest in `lib/auth/routes.ts`; this file only applies them
+ *    - Paths without a rule are public
  * 
  * 2. Role-Based Access:
- *    - Modify the admin check logic to match your user role system
- *    - You can add more role checks (moderator, premium, etc.)
+ *    - Roles are read from the JWT claims set by the custom access token
+ *      hook (`drizzle/0002_custom_access_token_hook.sql`), so enable the
+ *      hook in the Supabase dashboard
+ *    - Set `minRole` on a rule for moderator- or admin-only areas
+ *    - Set `mfa: true` on a rule to require a TOTP-verified (AAL2) session
  * 
  * 3. Custom Redirects:
  *    - Modify redirect URLs to match your app's navigation structure
- *    - Consider using environment variables for redirect URLs
+ *    - Run every user-supplied target through `getSafeRedirectPath`
+ *      (`lib/auth/redirect.ts`) to prevent open redirects
+ * 
+ * 4. Suspended Accounts:
+ *    - Rules with `activeAccount: true` send deactivated and banned users
+ *      to `/suspended`
+ *    - `banUser` also revokes the user's sessions, so most suspended users
+ *      are simply signed out and see `/suspended` when they sign in again
+ * 
+ * 5. Impersonation:
+ *    - Tokens of an admin impersonation session carry the admin and the
+ *      time limit; expired ones are sent to `/auth/impersonation/end`
+ *    - Impersonating admins skip the user's TOTP challenge - they passed
+ *      their own before starting
+ * 
+ * 6. Session Activity:
+ *    - Signed-in requests record the session's device, IP address and
+ *      last-seen time for `/settings/sessions`
+ *    - The `session_activity` cookie limits this to one database call per
+ *      session every five minutes
  * 
- * 4. Performance:
+ * 7. Performance:
  *    - The middleware runs on every request, so keep logic minimal
  *    - Database queries should be limited and cached when possible
- *    - Consider using user metadata for role checks instead of DB queries
+ *    - Role checks use JWT claims instead of DB queries
  * 
- * 5. Debugging:
+ * 8. Debugging:
  *    - Auth errors are logged in development mode
  *    - Add more logging if needed for production debugging
  *    - Use Supabase Auth logs for detailed auth flow analysis
+ *    - Set `AUTH_ADAPTER=memory` to run the flows without a Supabase
+ *      project
  * 
  * Example route structure:
  * ```
@@ -277,7 +258,10 @@ export const config = {
  * /signup              -> Auth only (redirects if authenticated)
  * /dashboard           -> Protected (requires authentication)
  * /profile             -> Protected (requires authentication)
- * /admin               -> Admin only (requires admin role)
+ * /reset-password      -> Protected (recovery session from /auth/callback)
+ * /admin               -> Admin only (requires admin role and AAL2 session)
+ * /mfa                 -> TOTP challenge (requires authentication)
+ * /suspended           -> Suspension notice (always accessible)
  * /auth/callback       -> OAuth callback (always accessible)
  * ```
  */
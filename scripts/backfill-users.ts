@@ -0,0 +1,31 @@
+import postgres from "postgres";
+
+/**
+ * User Profile Backfill
+ *
+ * Creates `public.users` rows for Supabase Auth accounts that existed
+ * before the `auth.users` sync triggers were installed, and re-syncs
+ * `email` / `email_verified` for all others. Safe to run repeatedly.
+ *
+ * Usage: `bun run db:backfill` (reads `DATABASE_URL` from `.env`)
+ *
+ * The work is done by `public.sync_user_profiles()`, created in
+ * `drizzle/0001_auth_user_sync.sql`, so it can also be run from the
+ * Supabase SQL editor.
+ */
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL environment variable is required");
+}
+
+const sql = postgres(process.env.DATABASE_URL, { prepare: false, max: 1 });
+
+try {
+  const [result] = await sql<{ count: number }[]>`
+    select public.sync_user_profiles() as count
+  `;
+
+  console.log(`Synced ${result.count} user profile(s) from auth.users`);
+} finally {
+  await sql.end();
+}
@@ -0,0 +1,43 @@
+import postgres from "postgres";
+
+/**
+ * Sign-up Mode Sync
+ *
+ * Copies `SIGN_UP_MODE` (`open`, `invite_only` or `closed`, default
+ * `open`) into `public.auth_settings`, where the `on_auth_user_creating`
+ * trigger enforces it for every new account, including ones created
+ * through the Auth API directly. Run it after every change of the
+ * variable, e.g. as part of a deploy.
+ *
+ * Usage: `bun run db:sign-up-mode` (reads `DATABASE_URL` and
+ * `SIGN_UP_MODE` from `.env`)
+ *
+ * The table and trigger are created in `drizzle/0019_sign_up_mode.sql`.
+ */
+
+const SIGN_UP_MODES = ["open", "invite_only", "closed"];
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL environment variable is required");
+}
+
+const mode = process.env.SIGN_UP_MODE || "open";
+
+if (!SIGN_UP_MODES.includes(mode)) {
+  throw new Error(`SIGN_UP_MODE must be one of ${SIGN_UP_MODES.join(", ")}`);
+}
+
+const sql = postgres(process.env.DATABASE_URL, { prepare: false, max: 1 });
+
+try {
+  await sql`
+    insert into public.auth_settings (id, sign_up_mode, updated_at)
+    values (true, ${mode}, now())
+    on conflict (id) do update
+    set sign_up_mode = excluded.sign_up_mode, updated_at = excluded.updated_at
+  `;
+
+  console.log(`Sign-up mode set to ${mode}`);
+} finally {
+  await sql.end();
+}
@@ -43,7 +43,7 @@ export interface Database {
           updated_at: string
         }
         Insert: {
-          id?: string
+          id: string
           email: string
           email_verified?: string | null
           name?: string | null
@@ -79,6 +79,7 @@ export interface Database {
           featured: boolean
           view_count: number
           author_id: string
+          organization_id: string | null
           published_at: string | null
           created_at: string
           updated_at: string
@@ -93,6 +94,7 @@ export interface Database {
           featured?: boolean
           view_count?: number
           author_id: string
+          organization_id?: string | null
           published_at?: string | null
           created_at?: string
           updated_at?: string
@@ -107,6 +109,7 @@ export interface Database {
           featured?: boolean
           view_count?: number
           author_id?: string
+          organization_id?: string | null
           published_at?: string | null
           created_at?: string
           updated_at?: string
@@ -118,6 +121,13 @@ export interface Database {
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "posts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -176,16 +186,633 @@ export interface Database {
           }
         ]
       }
+      mfa_recovery_codes: {
+        Row: {
+          id: string
+          user_id: string
+          code_hash: string
+          used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          code_hash: string
+          used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          code_hash?: string
+          used_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mfa_recovery_codes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      passkeys: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          credential_id: string
+          public_key: string
+          counter: number
+          transports: string[] | null
+          device_type: string
+          backed_up: boolean
+          last_used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          credential_id: string
+          public_key: string
+          counter?: number
+          transports?: string[] | null
+          device_type: string
+          backed_up?: boolean
+          last_used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          credential_id?: string
+          public_key?: string
+          counter?: number
+          transports?: string[] | null
+          device_type?: string
+          backed_up?: boolean
+          last_used_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "passkeys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      rate_limits: {
+        Row: {
+          key: string
+          attempts: number
+          window_ends_at: string
+          blocked_until: string | null
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          attempts?: number
+          window_ends_at: string
+          blocked_until?: string | null
+          updated_at?: string
+        }
+        Update: {
+          key?: string
+          attempts?: number
+          window_ends_at?: string
+          blocked_until?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_sessions: {
+        Row: {
+          session_id: string
+          user_id: string
+          user_agent: string | null
+          ip_address: string | null
+          created_at: string
+          last_seen_at: string
+        }
+        Insert: {
+          session_id: string
+          user_id: string
+          user_agent?: string | null
+          ip_address?: string | null
+          created_at?: string
+          last_seen_at?: string
+        }
+        Update: {
+          session_id?: string
+          user_id?: string
+          user_agent?: string | null
+          ip_address?: string | null
+          created_at?: string
+          last_seen_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      impersonations: {
+        Row: {
+          id: string
+          admin_id: string | null
+          target_user_id: string | null
+          session_id: string
+          reason: string
+          started_at: string
+          expires_at: string
+          ended_at: string | null
+          end_reason: "exited" | "expired" | null
+        }
+        Insert: {
+          id?: string
+          admin_id?: string | null
+          target_user_id?: string | null
+          session_id: string
+          reason: string
+          started_at?: string
+          expires_at: string
+          ended_at?: string | null
+          end_reason?: "exited" | "expired" | null
+        }
+        Update: {
+          id?: string
+          admin_id?: string | null
+          target_user_id?: string | null
+          session_id?: string
+          reason?: string
+          started_at?: string
+          expires_at?: string
+          ended_at?: string | null
+          end_reason?: "exited" | "expired" | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "impersonations_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "impersonations_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      invitations: {
+        Row: {
+          id: string
+          email: string
+          role: Database["public"]["Enums"]["user_role"]
+          invited_by: string | null
+          token_hash: string
+          expires_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          role?: Database["public"]["Enums"]["user_role"]
+          invited_by?: string | null
+          token_hash: string
+          expires_at: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          invited_by?: string | null
+          token_hash?: string
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      auth_settings: {
+        Row: {
+          id: boolean
+          sign_up_mode: Database["public"]["Enums"]["sign_up_mode"]
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          sign_up_mode?: Database["public"]["Enums"]["sign_up_mode"]
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          sign_up_mode?: Database["public"]["Enums"]["sign_up_mode"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          slug: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          slug: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          slug?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organizations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      memberships: {
+        Row: {
+          id: string
+          organization_id: string
+          user_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          user_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          user_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memberships_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "memberships_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      org_invitations: {
+        Row: {
+          id: string
+          organization_id: string
+          email: string
+          role: Database["public"]["Enums"]["org_role"]
+          invited_by: string | null
+          token_hash: string
+          expires_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          email: string
+          role?: Database["public"]["Enums"]["org_role"]
+          invited_by?: string | null
+          token_hash: string
+          expires_at: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          email?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          invited_by?: string | null
+          token_hash?: string
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      personal_access_tokens: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          token_hash: string
+          token_prefix: string
+          scopes: Database["public"]["Enums"]["access_token_scope"][]
+          expires_at: string | null
+          last_used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          token_hash: string
+          token_prefix: string
+          scopes: Database["public"]["Enums"]["access_token_scope"][]
+          expires_at?: string | null
+          last_used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          token_hash?: string
+          token_prefix?: string
+          scopes?: Database["public"]["Enums"]["access_token_scope"][]
+          expires_at?: string | null
+          last_used_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_access_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      security_events: {
+        Row: {
+          id: string
+          user_id: string
+          type: Database["public"]["Enums"]["security_event_type"]
+          ip_address: string | null
+          ip_range: string | null
+          user_agent: string | null
+          device: string | null
+          metadata: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: Database["public"]["Enums"]["security_event_type"]
+          ip_address?: string | null
+          ip_range?: string | null
+          user_agent?: string | null
+          device?: string | null
+          metadata?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: Database["public"]["Enums"]["security_event_type"]
+          ip_address?: string | null
+          ip_range?: string | null
+          user_agent?: string | null
+          device?: string | null
+          metadata?: Json
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "security_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      user_bans: {
+        Row: {
+          id: string
+          user_id: string
+          reason: string
+          banned_by: string | null
+          starts_at: string
+          expires_at: string | null
+          lifted_at: string | null
+          lifted_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          reason: string
+          banned_by?: string | null
+          starts_at?: string
+          expires_at?: string | null
+          lifted_at?: string | null
+          lifted_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          reason?: string
+          banned_by?: string | null
+          starts_at?: string
+          expires_at?: string | null
+          lifted_at?: string | null
+          lifted_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_bans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_bans_banned_by_fkey"
+            columns: ["banned_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_bans_lifted_by_fkey"
+            columns: ["lifted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      create_organization: {
+        Args: {
+          org_name: string
+          org_slug: string
+        }
+        Returns: string
+      }
+      has_org_role: {
+        Args: {
+          target_organization_id: string
+          min_role: Database["public"]["Enums"]["org_role"]
+        }
+        Returns: boolean
+      }
+      limit_session_lifetime: {
+        Args: {
+          target_session_id: string
+          ends_at: string
+        }
+        Returns: undefined
+      }
+      list_user_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          created_at: string
+          last_seen_at: string
+          user_agent: string | null
+          ip_address: string | null
+          aal: string | null
+        }[]
+      }
+      record_session_activity: {
+        Args: {
+          client_user_agent: string
+          client_ip: string | null
+        }
+        Returns: undefined
+      }
+      revoke_user_session: {
+        Args: {
+          target_session_id: string
+        }
+        Returns: boolean
+      }
+      revoke_user_sessions: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       user_role: "admin" | "user" | "moderator"
       post_status: "draft" | "published" | "archived"
+      security_event_type:
+        | "sign_in"
+        | "sign_in_failed"
+        | "password_changed"
+        | "mfa_enabled"
+        | "mfa_disabled"
+        | "recovery_codes_regenerated"
+        | "recovery_code_used"
+        | "oauth_linked"
+        | "oauth_unlinked"
+        | "access_token_created"
+        | "access_token_revoked"
+      org_role: "owner" | "admin" | "member"
+      sign_up_mode: "open" | "invite_only" | "closed"
+      access_token_scope:
+        | "posts:read"
+        | "posts:write"
+        | "comments:read"
+        | "comments:write"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -306,6 +933,33 @@ export type Comment = Tables<"comments">
 export type CommentInsert = TablesInsert<"comments">
 export type CommentUpdate = TablesUpdate<"comments">
 
+// MFA recovery code types
+export type MfaRecoveryCode = Tables<"mfa_recovery_codes">
+export type MfaRecoveryCodeInsert = TablesInsert<"mfa_recovery_codes">
+
+// Passkey types
+export type Passkey = Tables<"passkeys">
+export type PasskeyInsert = TablesInsert<"passkeys">
+export type PasskeyUpdate = TablesUpdate<"passkeys">
+
+export type UserBan = Tables<"user_bans">
+export type UserBanInsert = TablesInsert<"user_bans">
+
+export type SecurityEvent = Tables<"security_events">
+export type SecurityEventType = Enums<"security_event_type">
+
+export type Impersonation = Tables<"impersonations">
+
+export type PersonalAccessToken = Tables<"personal_access_tokens">
+export type AccessTokenScope = Enums<"access_token_scope">
+
+export type Invitation = Tables<"invitations">
+
+export type Organization = Tables<"organizations">
+export type Membership = Tables<"memberships">
+export type OrgRole = Enums<"org_role">
+export type OrgInvitation = Tables<"org_invitations">
+
 /**
  * Extended types with relationships
  * 
@@ -346,6 +1000,7 @@ export interface AuthUser {
   id: string
   email: string
   email_confirmed_at?: string
+  banned_until?: string
   phone?: string
   user_metadata?: {
     name?: string
@@ -354,10 +1009,47 @@ export interface AuthUser {
   }
   app_metadata?: {
     role?: UserRole
+    is_active?: boolean
     [key: string]: any
   }
 }
 
+/**
+ * Authenticator Assurance Level
+ * 
+ * `aal1` sessions were created with a single factor (password, OAuth,
+ * magic link). `aal2` sessions also passed a TOTP challenge.
+ */
+export type AssuranceLevel = "aal1" | "aal2"
+
+/**
+ * Signed-in session as listed on the sessions page
+ */
+export interface ActiveSession {
+  id: string
+  /** e.g. "Chrome on macOS" */
+  description: string
+  device: "desktop" | "mobile" | "tablet"
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  /** The session making this request */
+  isCurrent: boolean
+}
+
+/**
+ * Sign-in identity as listed on the connected accounts page
+ */
+export interface LinkedIdentity {
+  /** Supabase identity ID, used to unlink it */
+  id: string
+  /** e.g. "github", or "email" for email sign-in */
+  provider: string
+  email: string | null
+  createdAt: string | null
+  lastSignInAt: string | null
+}
+
 export interface AuthSession {
   access_token: string
   refresh_token: string
@@ -372,10 +1064,78 @@ export interface AuthSession {
  * Common response patterns for API routes and server actions.
  */
 
-export interface ApiResponse<T = any> {
-  data?: T
-  error?: string
+/**
+ * Every error code a server action or API route can return. HTTP
+ * statuses for each are in `@/lib/auth/errors`.
+ */
+export type AuthErrorCode =
+  /** No session, or an invalid or expired access token */
+  | 'UNAUTHORIZED'
+  /** Wrong email, password, code or passkey */
+  | 'INVALID_CREDENTIALS'
+  | 'ACCOUNT_SUSPENDED'
+  /** Role, organization role or ownership missing */
+  | 'INSUFFICIENT_PERMISSIONS'
+  /** Access token lacks the scope of the endpoint */
+  | 'INSUFFICIENT_SCOPE'
+  /** The session must pass an MFA challenge first */
+  | 'MFA_REQUIRED'
+  /** Not available while an admin is impersonating the user */
+  | 'IMPERSONATION_RESTRICTED'
+  | 'SIGN_UP_DISABLED'
+  /** Input rejected; `fieldErrors` says which fields */
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  /** Already exists, e.g. an account, slug or linked identity */
+  | 'CONFLICT'
+  /** Invitation, challenge or code no longer valid */
+  | 'EXPIRED'
+  /** Not possible in the current state, e.g. removing the last owner */
+  | 'OPERATION_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  /** Supabase or the database returned an error */
+  | 'SERVICE_ERROR'
+  /** Unexpected error; the details are only logged */
+  | 'INTERNAL_ERROR'
+
+/**
+ * Validation messages per form field
+ */
+export type FieldErrors = Record<string, string[] | undefined>
+
+export interface ApiSuccess<T> {
+  ok: true
+  data: T
+  message?: string
+}
+
+export interface ApiFailure {
+  ok: false
+  code: AuthErrorCode
+  message: string
+  fieldErrors?: FieldErrors
+}
+
+/**
+ * Result of a server action or API call. Check `ok` before reading
+ * `data`; failures always carry a `code` and a message to show.
+ */
+export type ApiResponse<T = null> = ApiSuccess<T> | ApiFailure
+
+/**
+ * Form state returned by Server Actions used with `useActionState`.
+ * `fields` echoes the submitted non-secret values so inputs keep them
+ * after React resets the form.
+ */
+export interface FormState {
+  status: 'idle' | 'success' | 'error'
+  /** Set when `status` is `error` */
+  code?: AuthErrorCode
   message?: string
+  fieldErrors?: FieldErrors
+  fields?: Record<string, string>
+  /** Seconds until the form may be submitted again after a rate limit */
+  retryAfter?: number
 }
 
 export interface PaginatedResponse<T = any> {